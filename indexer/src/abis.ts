@@ -2,12 +2,17 @@ import { ethers } from "ethers";
 
 export const ROUTER_ABI = [
   "function receiveAndForward(bytes calldata message, bytes calldata attestation, uint256 relayFee) external",
+  "function settledTransfers(bytes32 transferId) external view returns (bool)",
   "event Relayed(uint32 indexed sourceDomain, bytes32 indexed sourceSender, bytes32 indexed nonce, uint256 amount, uint256 relayFee)",
   "event FallbackTriggered(address indexed fallbackRecipient, uint256 amount, uint256 relayFee)",
   "event RecoveredFromConsumedNonce(bytes32 indexed nonce, uint256 amount)",
   "event OperatorRouted(bytes32 indexed transferId, bytes32 indexed nonce, uint256 amount, uint8 reason)",
 ];
 
+export const TOKEN_MESSENGER_V2_ABI = [
+  "event DepositForBurn(address indexed burnToken, uint256 amount, address indexed depositor, bytes32 mintRecipient, uint32 destinationDomain, bytes32 destinationTokenMessenger, bytes32 destinationCaller, uint256 maxFee, uint32 indexed minFinalityThreshold, bytes hookData)",
+];
+
 export const RELAYED_TOPIC0 = ethers.id(
   "Relayed(uint32,bytes32,bytes32,uint256,uint256)",
 );
@@ -23,3 +28,11 @@ export const RECOVERED_FROM_CONSUMED_NONCE_TOPIC0 = ethers.id(
 export const OPERATOR_ROUTED_TOPIC0 = ethers.id(
   "OperatorRouted(bytes32,bytes32,uint256,uint8)",
 );
+
+export const MESSAGE_RECEIVED_TOPIC0 = ethers.id(
+  "MessageReceived(address,uint32,bytes32,bytes32,uint32,bytes)",
+);
+
+export const DEPOSIT_FOR_BURN_TOPIC0 = ethers.id(
+  "DepositForBurn(address,uint256,address,bytes32,uint32,bytes32,bytes32,uint256,uint32,bytes)",
+);
@@ -0,0 +1,607 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import express, {
+  type NextFunction,
+  type Request,
+  type Response,
+} from "express";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { VALID_SOURCE_DOMAINS } from "./cctp.js";
+import { BYTES32_REGEX } from "./hex.js";
+import { generateApiKey } from "./integrators.js";
+import { checkCallbackUrl } from "./webhooks.js";
+import type {
+  Integrator,
+  LoopName,
+  WebhookDeliveryStatus,
+} from "./types.js";
+
+const LOOPS: LoopName[] = ["poller", "submitter"];
+
+const INTEGRATOR_ID_REGEX = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const FEE_REGEX = /^\d{1,18}$/;
+
+const DEFAULT_REQUESTS_PER_SECOND = 20;
+const DEFAULT_MAX_PENDING_JOBS = 500;
+
+const WEBHOOK_STATUSES: WebhookDeliveryStatus[] = [
+  "pending",
+  "delivered",
+  "failed",
+];
+
+function param(req: Request, name: string): string {
+  const raw = req.params[name];
+  return Array.isArray(raw) ? raw[0] : raw;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Bearer token, or X-API-Key header
+function presentedToken(req: Request): string | undefined {
+  const header = req.get("authorization");
+  return header?.startsWith("Bearer ")
+    ? header.slice("Bearer ".length).trim()
+    : req.get("x-api-key");
+}
+
+// Resolve the operator name for a bearer token (or X-API-Key header).
+// Comparing fixed-length digests keeps the check constant-time.
+function authenticate(config: Config, req: Request): string | null {
+  const token = presentedToken(req);
+  if (!token) {
+    return null;
+  }
+
+  const presented = digest(token);
+  let actor: string | null = null;
+  for (const [candidate, name] of config.adminTokens) {
+    if (timingSafeEqual(presented, digest(candidate))) {
+      actor = name;
+    }
+  }
+  return actor;
+}
+
+// Every admin action must say why; the reason goes to the audit log
+function requireReason(req: Request, res: Response): string | null {
+  const reason = req.body?.reason;
+  if (typeof reason !== "string" || reason.trim() === "") {
+    res.status(400).json({ error: "Missing reason" });
+    return null;
+  }
+  return reason.trim();
+}
+
+// Admin token check for /admin and other operator-only routes; sets
+// res.locals.actor
+export function requireAdmin(config: Config) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const actor = authenticate(config, req);
+    if (!actor) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    res.locals.actor = actor;
+    next();
+  };
+}
+
+// GET /metrics takes METRICS_TOKEN, so scrapers need no admin token,
+// or any admin token
+export function requireMetricsToken(config: Config) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = presentedToken(req);
+    const scraper =
+      token !== undefined &&
+      config.metricsToken !== null &&
+      timingSafeEqual(digest(token), digest(config.metricsToken));
+    if (!scraper && !authenticate(config, req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  };
+}
+
+export function createAdminRouter(config: Config, store: Store): express.Router {
+  const router = express.Router();
+
+  router.use(requireAdmin(config));
+
+  router.get("/actions", (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    res.status(200).json({ actions: store.getAdminActions(limit) });
+  });
+
+  router.get("/pauses", (_req: Request, res: Response) => {
+    res.status(200).json({ pauses: store.getPauses() });
+  });
+
+  // Body: { loop: "poller" | "submitter" | "all", sourceDomain?, reason }
+  function parseLoopTarget(
+    req: Request,
+    res: Response,
+  ): { loops: LoopName[]; sourceDomain: number | null } | null {
+    const { loop, sourceDomain } = req.body ?? {};
+    if (loop !== "all" && !LOOPS.includes(loop)) {
+      res.status(400).json({ error: "Invalid loop" });
+      return null;
+    }
+    if (
+      sourceDomain !== undefined &&
+      sourceDomain !== null &&
+      !VALID_SOURCE_DOMAINS.has(sourceDomain)
+    ) {
+      res.status(400).json({ error: "Invalid sourceDomain" });
+      return null;
+    }
+    return {
+      loops: loop === "all" ? LOOPS : [loop as LoopName],
+      sourceDomain: sourceDomain ?? null,
+    };
+  }
+
+  router.post("/pause", (req: Request, res: Response) => {
+    const target = parseLoopTarget(req, res);
+    if (!target) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    const actor = res.locals.actor as string;
+    for (const loop of target.loops) {
+      store.pauseLoop({
+        loop,
+        sourceDomain: target.sourceDomain,
+        pausedBy: actor,
+        reason,
+        pausedAt: new Date().toISOString(),
+      });
+      store.recordAdminAction({
+        actor,
+        action: "pause",
+        target: `${loop}:${target.sourceDomain ?? "all"}`,
+        reason,
+        details: null,
+      });
+      console.warn(
+        `Admin ${actor} paused ${loop} (domain ${target.sourceDomain ?? "all"}): ${reason}`,
+      );
+    }
+    res.status(200).json({ pauses: store.getPauses() });
+  });
+
+  router.post("/resume", (req: Request, res: Response) => {
+    const target = parseLoopTarget(req, res);
+    if (!target) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    const actor = res.locals.actor as string;
+    for (const loop of target.loops) {
+      if (!store.resumeLoop(loop, target.sourceDomain)) continue;
+      store.recordAdminAction({
+        actor,
+        action: "resume",
+        target: `${loop}:${target.sourceDomain ?? "all"}`,
+        reason,
+        details: null,
+      });
+      console.warn(
+        `Admin ${actor} resumed ${loop} (domain ${target.sourceDomain ?? "all"}): ${reason}`,
+      );
+    }
+    res.status(200).json({ pauses: store.getPauses() });
+  });
+
+  // ── Requests (one per source transaction) ──────────────────────
+
+  function loadRequest(req: Request, res: Response) {
+    const sourceDomain = Number(param(req, "sourceDomain"));
+    const txHash = param(req, "txHash").toLowerCase();
+    if (!Number.isInteger(sourceDomain) || !BYTES32_REGEX.test(txHash)) {
+      res.status(400).json({ error: "Invalid sourceDomain or txHash" });
+      return null;
+    }
+    const request = store.getRequest(sourceDomain, txHash);
+    if (!request) {
+      res.status(404).json({ error: "Request not found" });
+      return null;
+    }
+    return request;
+  }
+
+  // Failed request → pending, as a new attempt (re-polls Iris)
+  router.post(
+    "/requests/:sourceDomain/:txHash/requeue",
+    (req: Request, res: Response) => {
+      const request = loadRequest(req, res);
+      if (!request) return;
+      const reason = requireReason(req, res);
+      if (!reason) return;
+
+      const jobs = store.getJobsForRequest(request.sourceDomain, request.txHash);
+      if (
+        request.status !== "failed" &&
+        !jobs.some((j) => j.status === "failed")
+      ) {
+        res.status(409).json({
+          error: `Request is ${request.status}, not failed`,
+        });
+        return;
+      }
+
+      const updated = store.resubmitRequest(
+        request.sourceDomain,
+        request.txHash,
+      );
+      store.recordAdminAction({
+        actor: res.locals.actor as string,
+        action: "requeue_request",
+        target: `${request.sourceDomain}:${request.txHash}`,
+        reason,
+        details: { fromStatus: request.status, attempt: updated.attempt },
+      });
+      res.status(200).json(updated);
+    },
+  );
+
+  router.post(
+    "/requests/:sourceDomain/:txHash/resolve",
+    (req: Request, res: Response) => {
+      const request = loadRequest(req, res);
+      if (!request) return;
+      const reason = requireReason(req, res);
+      if (!reason) return;
+
+      if (request.status === "attested" || request.status === "resolved") {
+        res.status(409).json({
+          error: `Request is ${request.status}; resolve its jobs instead`,
+        });
+        return;
+      }
+
+      store.updateRequest(request.sourceDomain, request.txHash, {
+        status: "resolved",
+        resolutionNote: reason,
+      });
+      store.recordAdminAction({
+        actor: res.locals.actor as string,
+        action: "resolve_request",
+        target: `${request.sourceDomain}:${request.txHash}`,
+        reason,
+        details: { fromStatus: request.status },
+      });
+      res
+        .status(200)
+        .json(store.getRequest(request.sourceDomain, request.txHash));
+    },
+  );
+
+  // ── Jobs (one per attested message) ────────────────────────────
+
+  function loadJob(req: Request, res: Response) {
+    const transferId = param(req, "transferId").toLowerCase();
+    if (!BYTES32_REGEX.test(transferId)) {
+      res.status(400).json({ error: "Invalid transferId" });
+      return null;
+    }
+    const job = store.getJob(transferId);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return null;
+    }
+    return job;
+  }
+
+  // Failed job → attested, so the submitter tries it again
+  router.post("/jobs/:transferId/requeue", (req: Request, res: Response) => {
+    const job = loadJob(req, res);
+    if (!job) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    if (job.status !== "failed") {
+      res.status(409).json({ error: `Job is ${job.status}, not failed` });
+      return;
+    }
+
+    const resetRetries = req.body.resetRetries === true;
+    store.updateJob(job.transferId, {
+      status: "attested",
+      error: null,
+      ...(resetRetries ? { retryCount: 0 } : {}),
+    });
+    store.recordAdminAction({
+      actor: res.locals.actor as string,
+      action: "requeue_job",
+      target: job.transferId,
+      reason,
+      details: {
+        fromStatus: job.status,
+        error: job.error,
+        retryCount: job.retryCount,
+        resetRetries,
+      },
+    });
+    res.status(200).json(store.getJob(job.transferId));
+  });
+
+  router.post(
+    "/jobs/:transferId/reset-retries",
+    (req: Request, res: Response) => {
+      const job = loadJob(req, res);
+      if (!job) return;
+      const reason = requireReason(req, res);
+      if (!reason) return;
+
+      store.updateJob(job.transferId, { retryCount: 0 });
+      store.recordAdminAction({
+        actor: res.locals.actor as string,
+        action: "reset_retries",
+        target: job.transferId,
+        reason,
+        details: { retryCount: job.retryCount },
+      });
+      res.status(200).json(store.getJob(job.transferId));
+    },
+  );
+
+  // `reason` doubles as the resolution note shown on the job
+  router.post("/jobs/:transferId/resolve", (req: Request, res: Response) => {
+    const job = loadJob(req, res);
+    if (!job) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    // A submitted job has a tx in flight; let the reconciler settle it
+    if (job.status !== "failed" && job.status !== "attested") {
+      res.status(409).json({ error: `Job is ${job.status}` });
+      return;
+    }
+
+    store.updateJob(job.transferId, {
+      status: "resolved",
+      resolutionNote: reason,
+    });
+    store.recordAdminAction({
+      actor: res.locals.actor as string,
+      action: "resolve_job",
+      target: job.transferId,
+      reason,
+      details: { fromStatus: job.status, error: job.error },
+    });
+    res.status(200).json(store.getJob(job.transferId));
+  });
+
+  // ── Integrators (API keys) ─────────────────────────────────────
+
+  // Validate the optional settings of a create/update body
+  async function parseIntegratorSettings(
+    req: Request,
+    res: Response,
+  ): Promise<Partial<Integrator> | null> {
+    const { requestsPerSecond, maxPendingJobs, relayFee, callbackUrl } =
+      req.body ?? {};
+    const settings: Partial<Integrator> = {};
+
+    for (const [name, value] of [
+      ["requestsPerSecond", requestsPerSecond],
+      ["maxPendingJobs", maxPendingJobs],
+    ] as const) {
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 1) {
+        res.status(400).json({ error: `Invalid ${name}` });
+        return null;
+      }
+      settings[name] = value;
+    }
+    if (relayFee !== undefined) {
+      if (relayFee !== null && (typeof relayFee !== "string" || !FEE_REGEX.test(relayFee))) {
+        res.status(400).json({ error: "Invalid relayFee" });
+        return null;
+      }
+      settings.relayFee = relayFee;
+    }
+    if (callbackUrl !== undefined) {
+      const callbackError =
+        callbackUrl === null
+          ? null
+          : await checkCallbackUrl(config, callbackUrl);
+      if (callbackError) {
+        res.status(400).json({ error: callbackError });
+        return null;
+      }
+      settings.callbackUrl = callbackUrl;
+    }
+    return settings;
+  }
+
+  router.get("/integrators", (_req: Request, res: Response) => {
+    res.status(200).json({ integrators: store.listIntegrators() });
+  });
+
+  // Body: { id, requestsPerSecond?, maxPendingJobs?, relayFee?,
+  // callbackUrl?, reason }. The key is only ever shown in this response.
+  router.post("/integrators", async (req: Request, res: Response) => {
+    const { id } = req.body ?? {};
+    if (typeof id !== "string" || !INTEGRATOR_ID_REGEX.test(id)) {
+      res.status(400).json({ error: "Invalid id" });
+      return;
+    }
+    const settings = await parseIntegratorSettings(req, res);
+    if (!settings) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    if (store.getIntegrator(id)) {
+      res.status(409).json({ error: "Integrator already exists" });
+      return;
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey();
+    const now = new Date().toISOString();
+    store.createIntegrator(
+      {
+        id,
+        keyPrefix,
+        requestsPerSecond:
+          settings.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND,
+        maxPendingJobs: settings.maxPendingJobs ?? DEFAULT_MAX_PENDING_JOBS,
+        relayFee: settings.relayFee ?? null,
+        callbackUrl: settings.callbackUrl ?? null,
+        createdAt: now,
+        revokedAt: null,
+        updatedAt: now,
+      },
+      keyHash,
+    );
+    store.recordAdminAction({
+      actor: res.locals.actor as string,
+      action: "create_integrator",
+      target: id,
+      reason,
+      details: { ...settings },
+    });
+    res.status(201).json({ integrator: store.getIntegrator(id), apiKey: key });
+  });
+
+  function loadIntegrator(req: Request, res: Response) {
+    const integrator = store.getIntegrator(param(req, "id"));
+    if (!integrator) {
+      res.status(404).json({ error: "Integrator not found" });
+      return null;
+    }
+    return integrator;
+  }
+
+  router.post(
+    "/integrators/:id/update",
+    async (req: Request, res: Response) => {
+      const integrator = loadIntegrator(req, res);
+      if (!integrator) return;
+      const settings = await parseIntegratorSettings(req, res);
+      if (!settings) return;
+      const reason = requireReason(req, res);
+      if (!reason) return;
+
+      store.updateIntegrator(integrator.id, settings);
+      store.recordAdminAction({
+        actor: res.locals.actor as string,
+        action: "update_integrator",
+        target: integrator.id,
+        reason,
+        details: { ...settings },
+      });
+      res.status(200).json(store.getIntegrator(integrator.id));
+    },
+  );
+
+  // The key stops working immediately; its requests keep their history
+  router.post("/integrators/:id/revoke", (req: Request, res: Response) => {
+    const integrator = loadIntegrator(req, res);
+    if (!integrator) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    if (integrator.revokedAt) {
+      res.status(409).json({ error: "Integrator already revoked" });
+      return;
+    }
+
+    store.updateIntegrator(integrator.id, {
+      revokedAt: new Date().toISOString(),
+    });
+    store.recordAdminAction({
+      actor: res.locals.actor as string,
+      action: "revoke_integrator",
+      target: integrator.id,
+      reason,
+      details: null,
+    });
+    res.status(200).json(store.getIntegrator(integrator.id));
+  });
+
+  // ── Webhook deliveries ─────────────────────────────────────────
+
+  // Query: ?txHash=&status=pending|delivered|failed&limit=
+  router.get("/webhooks", (req: Request, res: Response) => {
+    const { txHash, status } = req.query;
+    if (
+      txHash !== undefined &&
+      (typeof txHash !== "string" || !BYTES32_REGEX.test(txHash))
+    ) {
+      res.status(400).json({ error: "Invalid txHash" });
+      return;
+    }
+    if (
+      status !== undefined &&
+      !WEBHOOK_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      res.status(400).json({ error: "Invalid status" });
+      return;
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    res.status(200).json({
+      deliveries: store.getWebhookDeliveries(
+        {
+          txHash: txHash?.toLowerCase(),
+          status: status as WebhookDeliveryStatus | undefined,
+        },
+        limit,
+      ),
+    });
+  });
+
+  function loadDelivery(req: Request, res: Response) {
+    const delivery = store.getWebhookDelivery(param(req, "id"));
+    if (!delivery) {
+      res.status(404).json({ error: "Delivery not found" });
+      return null;
+    }
+    return delivery;
+  }
+
+  router.get("/webhooks/:id", (req: Request, res: Response) => {
+    const delivery = loadDelivery(req, res);
+    if (!delivery) return;
+    res.status(200).json({
+      ...delivery,
+      attemptLog: store.getWebhookAttempts(delivery.id),
+    });
+  });
+
+  // Failed delivery → pending for one more attempt, sent immediately
+  router.post("/webhooks/:id/retry", (req: Request, res: Response) => {
+    const delivery = loadDelivery(req, res);
+    if (!delivery) return;
+    const reason = requireReason(req, res);
+    if (!reason) return;
+
+    if (delivery.status !== "failed") {
+      res.status(409).json({ error: `Delivery is ${delivery.status}` });
+      return;
+    }
+
+    store.updateWebhookDelivery(delivery.id, {
+      status: "pending",
+      nextAttemptAt: new Date().toISOString(),
+    });
+    store.recordAdminAction({
+      actor: res.locals.actor as string,
+      action: "retry_webhook",
+      target: delivery.id,
+      reason,
+      details: {
+        event: delivery.event,
+        attempts: delivery.attempts,
+        lastError: delivery.lastError,
+      },
+    });
+    res.status(200).json(store.getWebhookDelivery(delivery.id));
+  });
+
+  return router;
+}
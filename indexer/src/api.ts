@@ -1,124 +1,1138 @@
+import { once } from "node:events";
 import express, { type Request, type Response } from "express";
 import cors from "cors";
-import rateLimit from "express-rate-limit";
+import { ethers } from "ethers";
 import type { Config } from "./config.js";
 import type { Store } from "./store.js";
+import {
+  createAdminRouter,
+  requireAdmin,
+  requireMetricsToken,
+} from "./admin.js";
+import { parseBatch } from "./batch.js";
+import { createDashboardRouter } from "./dashboard.js";
+import { createSseHandler, createWebSocketHandler } from "./stream.js";
+import { registry } from "./metrics.js";
+import { createQuoter, parseQuoteQuery } from "./quote.js";
+import { createSimulator, isRpcError } from "./simulate.js";
+import { createBurnVerifier, type BurnCheck } from "./burns.js";
+import { createReadinessCheck } from "./health.js";
+import { finalityOf, finalityProfile } from "./finality.js";
+import {
+  EXPORT_FORMATS,
+  parseExportRange,
+  writeSettledRelays,
+  type ExportFormat,
+} from "./exports.js";
+import {
+  bytes32ToAccount,
+  decodeMessage,
+  transferIdOfMessage,
+  VALID_SOURCE_DOMAINS,
+} from "./cctp.js";
+import { BYTES32_REGEX, HEX_REGEX } from "./hex.js";
+import { checkCallbackUrl } from "./webhooks.js";
+import {
+  integratorAuth,
+  integratorOf,
+  integratorRateLimit,
+  perSecondRateLimit,
+  parseListFilter,
+  relayFeeFor,
+} from "./integrators.js";
+import {
+  checkForwardParams,
+  decodeForwardParams,
+  encodeForwardParams,
+  forwardParamsJson,
+  parseForwardParams,
+} from "./hookdata.js";
+import type {
+  Integrator,
+  RelayJob,
+  RelayListCursor,
+  RelayQuote,
+  RelayRequest,
+  RelayStatus,
+} from "./types.js";
 
-// Known CCTP v2 source domains (excludes 0 = Ethereum, our destination)
-const VALID_SOURCE_DOMAINS = new Set([
-  1, 2, 3, 6, 7, 10, 11, 12, 13, 14, 15, 16, 18, 19, 21, 22,
-]);
+// The job's attested message decoded, the ForwardParams in its hookData
+// (or why the router could not decode them), the route predicted from
+// them, and what the router settled
+function jobDetails(job: RelayJob) {
+  const decoded = job.attestedMessage ? decodeMessage(job.attestedMessage) : null;
+  let forwardParams: ReturnType<typeof forwardParamsJson> | null = null;
+  let hookDataError: string | null = null;
+  if (decoded) {
+    const result = decodeForwardParams(decoded.burn.hookData);
+    if ("params" in result) {
+      forwardParams = forwardParamsJson(result.params);
+    } else {
+      hookDataError = result.error;
+    }
+  }
+
+  return {
+    message: decoded
+      ? {
+          version: decoded.version,
+          sourceDomain: decoded.sourceDomain,
+          destinationDomain: decoded.destinationDomain,
+          nonce: decoded.nonce,
+          sender: decoded.sender,
+          recipient: decoded.recipient,
+          destinationCaller: decoded.destinationCaller,
+          minFinalityThreshold: decoded.minFinalityThreshold,
+          finalityThresholdExecuted: decoded.finalityThresholdExecuted,
+        }
+      : null,
+    burn: decoded?.burn ?? null,
+    forwardParams,
+    hookDataError,
+    predicted: job.predictedRoute
+      ? {
+          route: job.predictedRoute,
+          operatorRouteReason: job.predictedRouteReason,
+        }
+      : null,
+    settled:
+      job.settledAmount !== null
+        ? {
+            amount: job.settledAmount,
+            relayFee: job.settledRelayFee,
+            operatorRouteReason: job.operatorRouteReason,
+          }
+        : null,
+  };
+}
+
+const STATUS_ORDER: RelayStatus[] = [
+  "pending",
+  "polling",
+  "attested",
+  "submitted",
+  "confirmed",
+];
+
+// Overall status of a request and its jobs: the least advanced stage
+// while anything is in flight, then `failed` if any part failed, then
+// `resolved` if an operator closed any part by hand.
+function aggregateStatus(request: RelayRequest, jobs: RelayJob[]): RelayStatus {
+  const inFlight: RelayStatus[] = jobs
+    .map((j) => j.status)
+    .filter((s) => s === "attested" || s === "submitted");
+  if (request.status === "pending" || request.status === "polling") {
+    inFlight.push(request.status);
+  }
+  if (inFlight.length > 0) {
+    return inFlight.reduce((a, b) =>
+      STATUS_ORDER.indexOf(a) <= STATUS_ORDER.indexOf(b) ? a : b,
+    );
+  }
+  if (request.status === "failed" || jobs.some((j) => j.status === "failed")) {
+    return "failed";
+  }
+  if (
+    request.status === "resolved" ||
+    jobs.some((j) => j.status === "resolved")
+  ) {
+    return "resolved";
+  }
+  return jobs.length > 0 ? "confirmed" : request.status;
+}
+
+// One transfer, as returned by the /transfers and /accounts lookups
+function transferJson(job: RelayJob) {
+  return {
+    transferId: job.transferId,
+    sourceDomain: job.sourceDomain,
+    txHash: job.txHash,
+    messageIndex: job.messageIndex,
+    attempt: job.attempt,
+    nonce: job.nonce,
+    messageSender: job.messageSender,
+    fallbackRecipient: job.fallbackRecipient,
+    remoteRecipient: job.remoteRecipient,
+    amount: job.amount,
+    status: job.status,
+    outcome: job.outcome,
+    error: job.error,
+    resolutionNote: job.resolutionNote,
+    ethTxHash: job.ethTxHash,
+    createdAt: job.createdAt,
+    attestedAt: job.attestedAt,
+    submittedAt: job.submittedAt,
+    confirmedAt: job.confirmedAt,
+    ...jobDetails(job),
+  };
+}
+
+// Response of one entry in the single-item and batch relay routes
+interface Reply {
+  status: number;
+  body: object;
+}
+
+function encodeCursor(cursor: RelayListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): RelayListCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString());
+    if (typeof cursor.createdAt === "string" && typeof cursor.key === "string") {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+// ?sourceDomain= of the relay lookups: undefined when absent, null when
+// it is not a supported source domain
+function parseSourceDomainQuery(raw: unknown): number | undefined | null {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const sourceDomain = typeof raw === "string" ? Number(raw) : NaN;
+  return VALID_SOURCE_DOMAINS.has(sourceDomain) ? sourceDomain : null;
+}
 
-const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+// Per-IP limit of the operator routes: admin, dashboard, exports, metrics
+const OPERATOR_REQUESTS_PER_SECOND = 10;
 
 export function createApiServer(config: Config, store: Store): express.Express {
   const app = express();
   app.use(cors());
   app.use(express.json());
 
+  // Operators authenticate with admin tokens and keep a flat per-IP limit
   app.use(
-    rateLimit({
-      windowMs: 1000,
-      limit: 10,
-      standardHeaders: "draft-7",
-      legacyHeaders: false,
-    }),
+    "/admin",
+    perSecondRateLimit({ limit: OPERATOR_REQUESTS_PER_SECOND }),
+    createAdminRouter(config, store),
   );
 
-  app.post("/relay", (req: Request, res: Response) => {
+  // The dashboard is for operators too: a browser without an API key
+  // would otherwise share the anonymous limit
+  app.use(
+    "/dashboard",
+    perSecondRateLimit({ limit: OPERATOR_REQUESTS_PER_SECOND }),
+    createDashboardRouter(config, store),
+  );
+
+  // Accounting export of settled relays, streamed page by page:
+  // ?from=&to= bound confirmedAt, format=csv (default) or ndjson.
+  // Fees and gas cost are business data, so it takes an admin token.
+  app.get(
+    "/exports/relays",
+    perSecondRateLimit({ limit: OPERATOR_REQUESTS_PER_SECOND }),
+    requireAdmin(config),
+    async (req: Request, res: Response) => {
+      const format = req.query.format ?? "csv";
+      if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        res.status(400).json({ error: "Invalid format (csv or ndjson)" });
+        return;
+      }
+      const range = parseExportRange(
+        typeof req.query.from === "string" ? req.query.from : undefined,
+        typeof req.query.to === "string" ? req.query.to : undefined,
+      );
+      if (typeof range === "string") {
+        res.status(400).json({ error: range });
+        return;
+      }
+
+      res.status(200);
+      res.attachment(`relays.${format}`);
+      res.type(format === "csv" ? "text/csv" : "application/x-ndjson");
+      try {
+        await writeSettledRelays(
+          store,
+          range,
+          format as ExportFormat,
+          async (chunk) => {
+            if (res.destroyed) throw new Error("Client disconnected");
+            if (!res.write(chunk)) {
+              const done = new AbortController();
+              await Promise.race([
+                once(res, "drain", { signal: done.signal }),
+                once(res, "close", { signal: done.signal }),
+              ]).finally(() => done.abort());
+            }
+          },
+        );
+        res.end();
+      } catch (err) {
+        // Headers are out: cut the stream so the file is visibly incomplete
+        console.error("GET /exports/relays error:", err);
+        res.destroy();
+      }
+    },
+  );
+
+  const checkReadiness = createReadinessCheck(config, store);
+
+  // Probes are exempt from API keys and rate limits.
+  // Liveness: the process is up and serving HTTP. Dependencies are left
+  // to readiness, so an RPC outage does not restart the relayer.
+  app.get("/health/live", (_req: Request, res: Response) => {
+    res.status(200).json({ status: "alive" });
+  });
+
+  // Readiness: 503 while the relayer could not actually relay
+  app.get("/health/ready", async (_req: Request, res: Response) => {
     try {
-      const { sourceDomain, txHash } = req.body;
+      const { ready, checks } = await checkReadiness();
+      res.status(ready ? 200 : 503).json({
+        status: ready ? "ready" : "not_ready",
+        checks,
+      });
+    } catch (err) {
+      console.error("GET /health/ready error:", err);
+      res.status(503).json({ status: "not_ready" });
+    }
+  });
+
+  // Prometheus scrape endpoint. Wallet balance and failure reasons are
+  // operator data: it takes METRICS_TOKEN or an admin token, checked
+  // before integrator keys like the admin API.
+  app.get(
+    "/metrics",
+    perSecondRateLimit({ limit: OPERATOR_REQUESTS_PER_SECOND }),
+    requireMetricsToken(config),
+    async (_req: Request, res: Response) => {
+      try {
+        const body = await registry.metrics();
+        res.status(200).type(registry.contentType).send(body);
+      } catch (err) {
+        console.error("GET /metrics error:", err);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // Everything else is limited per integrator API key, or per IP for
+  // anonymous callers
+  app.use(integratorAuth(store), integratorRateLimit(config));
+
+  const quote = createQuoter(config, store);
+  const simulate = createSimulator(config);
+  const verifyBurn = createBurnVerifier(config);
+
+  // POST /relay for one entry; POST /relay/batch runs it per entry
+  async function submitRelay(
+    input: Record<string, unknown>,
+    integrator: Integrator | null,
+  ): Promise<Reply> {
+    const { sourceDomain, txHash, callbackUrl, quoteId } = input;
+
+    if (
+      typeof sourceDomain !== "number" ||
+      !VALID_SOURCE_DOMAINS.has(sourceDomain)
+    ) {
+      return { status: 400, body: { error: "Invalid sourceDomain" } };
+    }
+
+    if (typeof txHash !== "string" || !BYTES32_REGEX.test(txHash)) {
+      return { status: 400, body: { error: "Invalid txHash format" } };
+    }
+
+    if (callbackUrl !== undefined) {
+      const callbackError = await checkCallbackUrl(config, callbackUrl);
+      if (callbackError) {
+        return { status: 400, body: { error: callbackError } };
+      }
+    }
+
+    if (quoteId !== undefined && typeof quoteId !== "string") {
+      return { status: 400, body: { error: "Invalid quoteId" } };
+    }
 
+    const normalizedTxHash = txHash.toLowerCase();
+
+    // Requests that would add work are refused while the caller is at
+    // its pending-job limit
+    const pendingLimit = integrator?.maxPendingJobs ?? config.anonMaxPendingJobs;
+    const atPendingLimit = () =>
+      store.countPendingJobs(integrator?.id ?? null) >= pendingLimit;
+
+    // Idempotent per (sourceDomain, txHash): return existing request if
+    // present, unless it or one of its jobs failed — then start a new
+    // attempt.
+    const existing = store.getRequest(sourceDomain, normalizedTxHash);
+    if (existing) {
+      const hasFailed = (request: RelayRequest) =>
+        request.status === "failed" ||
+        store
+          .getJobsForRequest(sourceDomain, normalizedTxHash)
+          .some((j) => j.status === "failed");
+      const resubmit = hasFailed(existing);
+
+      // Only the integrator that submitted the request may redirect its
+      // callbacks; anonymous requests keep the callbackUrl they were
+      // created with. New attempts are left to the same caller.
       if (
-        typeof sourceDomain !== "number" ||
-        !VALID_SOURCE_DOMAINS.has(sourceDomain)
+        callbackUrl !== undefined &&
+        (!integrator || existing.integratorId !== integrator.id)
       ) {
+        return {
+          status: 403,
+          body: {
+            error:
+              "Only the integrator that submitted the request can change its callbackUrl",
+          },
+        };
+      }
+      if (resubmit && existing.integratorId !== (integrator?.id ?? null)) {
+        return {
+          status: 403,
+          body: {
+            error:
+              "Only the integrator that submitted the request can resubmit it",
+          },
+        };
+      }
+
+      if (resubmit) {
+        if (atPendingLimit()) {
+          return {
+            status: 429,
+            body: {
+              error: `Too many pending jobs (limit ${pendingLimit})`,
+            },
+          };
+        }
+        // Same source-chain check as a new submission
+        let burn: BurnCheck;
+        try {
+          burn = await verifyBurn(sourceDomain, normalizedTxHash);
+        } catch (err) {
+          console.warn(
+            `Burn verification failed for ${normalizedTxHash}:`,
+            err,
+          );
+          return {
+            status: 502,
+            body: { error: "Source chain RPC unavailable" },
+          };
+        }
+        if (burn.error) {
+          return { status: 400, body: { error: burn.error } };
+        }
+      }
+
+      if (callbackUrl !== undefined) {
+        store.updateRequest(sourceDomain, normalizedTxHash, {
+          callbackUrl: callbackUrl as string,
+        });
+      }
+
+      // A concurrent submission may have resubmitted it while we verified
+      const current =
+        store.getRequest(sourceDomain, normalizedTxHash) ?? existing;
+      if (resubmit && hasFailed(current)) {
+        const request = store.resubmitRequest(sourceDomain, normalizedTxHash);
+        return {
+          status: 201,
+          body: {
+            txHash: request.txHash,
+            sourceDomain: request.sourceDomain,
+            status: request.status,
+            attempt: request.attempt,
+            message: "Failed relay request resubmitted.",
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        body: {
+          txHash: current.txHash,
+          sourceDomain: current.sourceDomain,
+          status: aggregateStatus(
+            current,
+            store.getJobsForRequest(sourceDomain, normalizedTxHash),
+          ),
+          attempt: current.attempt,
+          message: "Relay job already exists.",
+        },
+      };
+    }
+
+    if (atPendingLimit()) {
+      return {
+        status: 429,
+        body: {
+          error: `Too many pending jobs (limit ${pendingLimit})`,
+        },
+      };
+    }
+
+    // A quote locks in its relay fee if used before it expires, by the
+    // caller that requested it
+    const attachedQuote = quoteId ? store.getQuote(quoteId) : undefined;
+    if (quoteId) {
+      if (
+        !attachedQuote ||
+        attachedQuote.sourceDomain !== sourceDomain ||
+        attachedQuote.integratorId !== (integrator?.id ?? null)
+      ) {
+        return { status: 400, body: { error: "Unknown quoteId" } };
+      }
+      if (Date.parse(attachedQuote.expiresAt) <= Date.now()) {
+        return { status: 400, body: { error: "Quote expired" } };
+      }
+    }
+
+    // Only burns that mint to the router become jobs, where the source
+    // chain can be checked
+    let burn: BurnCheck;
+    try {
+      burn = await verifyBurn(sourceDomain, normalizedTxHash);
+    } catch (err) {
+      console.warn(`Burn verification failed for ${normalizedTxHash}:`, err);
+      return { status: 502, body: { error: "Source chain RPC unavailable" } };
+    }
+    if (burn.error) {
+      return { status: 400, body: { error: burn.error } };
+    }
+
+    // A concurrent submission may have created it while we verified
+    const created = store.getRequest(sourceDomain, normalizedTxHash);
+    if (created) {
+      return {
+        status: 200,
+        body: {
+          txHash: created.txHash,
+          sourceDomain: created.sourceDomain,
+          status: created.status,
+          attempt: created.attempt,
+          message: "Relay job already exists.",
+        },
+      };
+    }
+
+    const now = new Date().toISOString();
+    store.createRequest({
+      txHash: normalizedTxHash,
+      sourceDomain,
+      attempt: 1,
+      status: "pending",
+      error: null,
+      resolutionNote: null,
+      pollAttempts: 0,
+      nextPollAt: now, // first poll on the next cycle
+      minFinalityThreshold: burn.minFinalityThreshold,
+      messageCount: 0,
+      // The integrator's default callback only applies while webhooks
+      // are enabled
+      callbackUrl:
+        (callbackUrl as string | undefined) ??
+        (config.webhookSecrets.length > 0 ? integrator?.callbackUrl : null) ??
+        null,
+      quoteId: attachedQuote?.id ?? null,
+      relayFee: attachedQuote?.relayFee ?? integrator?.relayFee ?? null,
+      integratorId: integrator?.id ?? null,
+      createdAt: now,
+      attestedAt: null,
+      updatedAt: now,
+    });
+
+    return {
+      status: 201,
+      body: {
+        txHash: normalizedTxHash,
+        sourceDomain,
+        status: "pending",
+        attempt: 1,
+        quoteId: attachedQuote?.id ?? null,
+        message:
+          "Relay job created. Poll GET /relay/:txHash?sourceDomain= for status.",
+      },
+    };
+  }
+
+  // Poll profile of a request; expectedAttestationAt is when Iris
+  // normally attests a burn of this domain and finality
+  function finalityJson(request: RelayRequest) {
+    const profile = finalityProfile(
+      config,
+      request.sourceDomain,
+      request.minFinalityThreshold,
+    );
+    return {
+      minFinalityThreshold: request.minFinalityThreshold,
+      finality: finalityOf(request.minFinalityThreshold),
+      expectedAttestationAt: new Date(
+        new Date(request.createdAt).getTime() + profile.expectedLatencyMs,
+      ).toISOString(),
+    };
+  }
+
+  // The request a txHash refers to, or the 404 / 409 reply. The same
+  // txHash may have been submitted under several source domains;
+  // `sourceDomain` selects one explicitly.
+  function findRequest(
+    txHash: string,
+    sourceDomain: number | undefined,
+  ): { request: RelayRequest } | { reply: Reply } {
+    let requests = store.getRequestsByTxHash(txHash.toLowerCase());
+    if (sourceDomain !== undefined) {
+      requests = requests.filter((r) => r.sourceDomain === sourceDomain);
+    }
+    if (requests.length === 0) {
+      return { reply: { status: 404, body: { error: "Job not found" } } };
+    }
+    if (requests.length > 1) {
+      return {
+        reply: {
+          status: 409,
+          body: {
+            error: "Multiple jobs for txHash; specify ?sourceDomain=",
+            sourceDomains: requests.map((r) => r.sourceDomain),
+          },
+        },
+      };
+    }
+    return { request: requests[0] };
+  }
+
+  // GET /relay/:txHash for one entry; POST /relay/status runs it per entry
+  function relayStatus(txHash: string, sourceDomain: number | undefined): Reply {
+    const found = findRequest(txHash, sourceDomain);
+    if ("reply" in found) {
+      return found.reply;
+    }
+
+    const { request } = found;
+    const jobs = store.getJobsForRequest(request.sourceDomain, request.txHash);
+    // Single-message transactions keep the flat per-job fields
+    const single = jobs.length === 1 ? jobs[0] : null;
+
+    return {
+      status: 200,
+      body: {
+        txHash: request.txHash,
+        sourceDomain: request.sourceDomain,
+        attempt: request.attempt,
+        status: aggregateStatus(request, jobs),
+        outcome: single?.outcome ?? null,
+        error: request.error ?? jobs.find((j) => j.error !== null)?.error ?? null,
+        resolutionNote: request.resolutionNote,
+        integratorId: request.integratorId,
+        quoteId: request.quoteId,
+        relayFee: request.relayFee ?? config.relayFee.toString(),
+        ethTxHash: single?.ethTxHash ?? null,
+        createdAt: request.createdAt,
+        attestedAt: request.attestedAt,
+        submittedAt: single?.submittedAt ?? null,
+        confirmedAt: single?.confirmedAt ?? null,
+        messageCount: request.messageCount,
+        finality: finalityJson(request),
+        jobs: jobs.map((j) => ({
+          transferId: j.transferId,
+          messageIndex: j.messageIndex,
+          nonce: j.irisNonce,
+          amount: j.amount,
+          status: j.status,
+          outcome: j.outcome,
+          error: j.error,
+          resolutionNote: j.resolutionNote,
+          ethTxHash: j.ethTxHash,
+          attestedAt: j.attestedAt,
+          submittedAt: j.submittedAt,
+          confirmedAt: j.confirmedAt,
+          ...jobDetails(j),
+        })),
+        previousAttempts: store
+          .getAttempts(request.sourceDomain, request.txHash)
+          .map((a) => ({
+            attempt: a.attempt,
+            status: a.status,
+            error: a.error,
+            startedAt: a.startedAt,
+            endedAt: a.endedAt,
+          })),
+      },
+    };
+  }
+
+  app.post("/relay", async (req: Request, res: Response) => {
+    try {
+      const { status, body } = await submitRelay(req.body ?? {}, integratorOf(res));
+      res.status(status).json(body);
+    } catch (err) {
+      console.error("POST /relay error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Entries are handled in order, each exactly like POST /relay; the
+  // response is 200 with one { status, body } result per entry
+  app.post("/relay/batch", async (req: Request, res: Response) => {
+    try {
+      const entries = parseBatch(req.body?.relays, config.maxBatchSize);
+      if (typeof entries === "string") {
+        res.status(400).json({ error: entries });
+        return;
+      }
+
+      const integrator = integratorOf(res);
+      const results: Reply[] = [];
+      for (const entry of entries) {
+        try {
+          results.push(await submitRelay(entry, integrator));
+        } catch (err) {
+          console.error("POST /relay/batch entry error:", err);
+          results.push({ status: 500, body: { error: "Internal server error" } });
+        }
+      }
+      res.status(200).json({ results });
+    } catch (err) {
+      console.error("POST /relay/batch error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/relay/:txHash", (req: Request, res: Response) => {
+    try {
+      const rawParam = req.params.txHash;
+      const txHash = Array.isArray(rawParam) ? rawParam[0] : rawParam;
+      const sourceDomain = parseSourceDomainQuery(req.query.sourceDomain);
+      if (sourceDomain === null) {
         res.status(400).json({ error: "Invalid sourceDomain" });
         return;
       }
+      const { status, body } = relayStatus(txHash, sourceDomain);
+      res.status(status).json(body);
+    } catch (err) {
+      console.error("GET /relay error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      if (typeof txHash !== "string" || !TX_HASH_REGEX.test(txHash)) {
-        res.status(400).json({ error: "Invalid txHash format" });
+  // Every recorded transition of the request and its jobs, oldest first,
+  // across all attempts
+  app.get("/relay/:txHash/timeline", (req: Request, res: Response) => {
+    try {
+      const rawParam = req.params.txHash;
+      const txHash = Array.isArray(rawParam) ? rawParam[0] : rawParam;
+      const sourceDomain = parseSourceDomainQuery(req.query.sourceDomain);
+      if (sourceDomain === null) {
+        res.status(400).json({ error: "Invalid sourceDomain" });
+        return;
+      }
+      const found = findRequest(txHash, sourceDomain);
+      if ("reply" in found) {
+        res.status(found.reply.status).json(found.reply.body);
         return;
       }
 
-      const normalizedTxHash = txHash.toLowerCase();
+      const { request } = found;
+      res.status(200).json({
+        txHash: request.txHash,
+        sourceDomain: request.sourceDomain,
+        attempt: request.attempt,
+        events: store
+          .getJobEvents(request.sourceDomain, request.txHash)
+          .map((e) => ({
+            at: e.createdAt,
+            attempt: e.attempt,
+            transferId: e.transferId,
+            messageIndex: e.messageIndex,
+            status: e.status,
+            error: e.error,
+            retryCount: e.retryCount,
+            pollAttempts: e.pollAttempts,
+            nextPollAt: e.nextPollAt,
+            ethTxHash: e.ethTxHash,
+          })),
+      });
+    } catch (err) {
+      console.error("GET /relay/:txHash/timeline error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      // Idempotent: return existing job if present
-      const existing = store.getJob(normalizedTxHash);
-      if (existing) {
+  // Statuses of many { txHash, sourceDomain? } entries, each exactly like
+  // GET /relay/:txHash, as one { status, body } result per entry
+  app.post("/relay/status", (req: Request, res: Response) => {
+    try {
+      const entries = parseBatch(req.body?.relays, config.maxBatchSize);
+      if (typeof entries === "string") {
+        res.status(400).json({ error: entries });
+        return;
+      }
+
+      const results = entries.map(({ txHash, sourceDomain }): Reply => {
+        if (typeof txHash !== "string" || !BYTES32_REGEX.test(txHash)) {
+          return { status: 400, body: { error: "Invalid txHash format" } };
+        }
+        if (
+          sourceDomain !== undefined &&
+          (typeof sourceDomain !== "number" ||
+            !VALID_SOURCE_DOMAINS.has(sourceDomain))
+        ) {
+          return { status: 400, body: { error: "Invalid sourceDomain" } };
+        }
+        return relayStatus(txHash, sourceDomain);
+      });
+      res.status(200).json({ results });
+    } catch (err) {
+      console.error("POST /relay/status error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Newest first. Pass `nextCursor` back as `?cursor=` for the next page.
+  app.get("/relays", (req: Request, res: Response) => {
+    try {
+      const filter = parseListFilter(req.query);
+      if (typeof filter === "string") {
+        res.status(400).json({ error: filter });
+        return;
+      }
+
+      let after: RelayListCursor | undefined;
+      if (typeof req.query.cursor === "string") {
+        const cursor = decodeCursor(req.query.cursor);
+        if (!cursor) {
+          res.status(400).json({ error: "Invalid cursor" });
+          return;
+        }
+        after = cursor;
+      }
+
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+      const relays = store.listRelays(filter, limit, after);
+      const last = relays[relays.length - 1];
+
+      res.status(200).json({
+        relays,
+        nextCursor:
+          relays.length === limit
+            ? encodeCursor({ createdAt: last.createdAt, key: last.key })
+            : null,
+      });
+    } catch (err) {
+      console.error("GET /relays error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Transfers are only indexed once attested: until then the nonce and
+  // hookData are unknown
+  app.get("/transfers/id/:transferId", (req: Request, res: Response) => {
+    try {
+      const transferId = String(req.params.transferId);
+      if (!BYTES32_REGEX.test(transferId)) {
+        res.status(400).json({ error: "Invalid transferId" });
+        return;
+      }
+      const job = store.getJob(transferId.toLowerCase());
+      if (!job) {
+        res.status(404).json({ error: "Transfer not found" });
+        return;
+      }
+      res.status(200).json(transferJson(job));
+    } catch (err) {
+      console.error("GET /transfers/id error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/transfers/:sourceDomain/:nonce", (req: Request, res: Response) => {
+    try {
+      const sourceDomain = Number(req.params.sourceDomain);
+      if (!VALID_SOURCE_DOMAINS.has(sourceDomain)) {
+        res.status(400).json({ error: "Invalid sourceDomain" });
+        return;
+      }
+      const nonce = String(req.params.nonce);
+      if (!BYTES32_REGEX.test(nonce)) {
+        res.status(400).json({ error: "Invalid nonce (expected bytes32)" });
+        return;
+      }
+      const job = store.getJobByNonce(sourceDomain, nonce);
+      if (!job) {
+        res.status(404).json({ error: "Transfer not found" });
+        return;
+      }
+      res.status(200).json(transferJson(job));
+    } catch (err) {
+      console.error("GET /transfers error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Transfers the account burned on the source chain, or receives as
+  // fallbackRecipient or remoteRecipient. Takes an address or a bytes32
+  // (remote recipients on non-EVM domains). Newest first, paged like
+  // GET /relays.
+  app.get("/accounts/:address/relays", (req: Request, res: Response) => {
+    try {
+      const address = String(req.params.address);
+      let account: string;
+      if (ethers.isHexString(address, 20)) {
+        account = address.toLowerCase();
+      } else if (BYTES32_REGEX.test(address)) {
+        account = bytes32ToAccount(address);
+      } else {
+        res.status(400).json({ error: "Invalid address" });
+        return;
+      }
+
+      let after: RelayListCursor | undefined;
+      if (typeof req.query.cursor === "string") {
+        const cursor = decodeCursor(req.query.cursor);
+        if (!cursor) {
+          res.status(400).json({ error: "Invalid cursor" });
+          return;
+        }
+        after = cursor;
+      }
+
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+      const jobs = store.getJobsForAccount(account, limit, after);
+      const last = jobs[jobs.length - 1];
+
+      res.status(200).json({
+        relays: jobs.map(transferJson),
+        nextCursor:
+          jobs.length === limit
+            ? encodeCursor({ createdAt: last.createdAt, key: last.transferId })
+            : null,
+      });
+    } catch (err) {
+      console.error("GET /accounts/:address/relays error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Live status transitions, as Server-Sent Events or over a WebSocket
+  // (upgrades are routed here by routeUpgrades)
+  app.get("/relays/stream", createSseHandler(config, store));
+  app.get("/relays/ws", createWebSocketHandler(config, store));
+
+  // Query: ?sourceDomain=&amount=[&maxFee=] — amounts in USDC base units;
+  // maxFee is the CCTP fee budget the burn will set (default 0)
+  app.get("/quote", async (req: Request, res: Response) => {
+    try {
+      const query = parseQuoteQuery(req.query);
+      if (typeof query === "string") {
+        res.status(400).json({ error: query });
+        return;
+      }
+
+      let result: RelayQuote | string;
+      try {
+        result = await quote(
+          query.sourceDomain,
+          query.amount,
+          query.maxFee,
+          integratorOf(res),
+        );
+      } catch (err) {
+        console.warn("Gas price lookup failed:", err);
+        res.status(503).json({ error: "Ethereum RPC unavailable" });
+        return;
+      }
+      if (typeof result === "string") {
+        res.status(400).json({ error: result });
+        return;
+      }
+
+      res.status(200).json({
+        quoteId: result.id,
+        sourceDomain: result.sourceDomain,
+        amount: result.amount,
+        cctpMaxFee: result.cctpMaxFee,
+        relayFee: result.relayFee,
+        relayMaxFee: result.relayMaxFee,
+        forwardAmount: result.forwardAmount,
+        estimatedGas: {
+          gasLimit: result.gasLimit,
+          gasPrice: result.gasPrice,
+          cost: result.gasCost,
+          costEth: ethers.formatEther(result.gasCost),
+        },
+        createdAt: result.createdAt,
+        expiresAt: result.expiresAt,
+      });
+    } catch (err) {
+      console.error("GET /quote error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Build the BurnMessageV2 hookData for a transfer through the router.
+  // Amounts are decimal strings; remoteRecipient is bytes32.
+  app.post("/hook-data/encode", (req: Request, res: Response) => {
+    try {
+      const params = parseForwardParams(req.body ?? {});
+      if (typeof params === "string") {
+        res.status(400).json({ error: params });
+        return;
+      }
+      res.status(200).json({
+        hookData: encodeForwardParams(params),
+        params: forwardParamsJson(params),
+        issues: checkForwardParams(
+          params,
+          relayFeeFor(config, integratorOf(res)),
+          config.remoteDomains,
+        ),
+      });
+    } catch (err) {
+      console.error("POST /hook-data/encode error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Check existing hookData bytes as the router would read them
+  app.post("/hook-data/decode", (req: Request, res: Response) => {
+    try {
+      const { hookData } = req.body ?? {};
+      if (typeof hookData !== "string" || !HEX_REGEX.test(hookData)) {
+        res.status(400).json({ error: "Invalid hookData" });
+        return;
+      }
+
+      const decoded = decodeForwardParams(hookData);
+      if ("error" in decoded) {
         res.status(200).json({
-          txHash: existing.txHash,
-          status: existing.status,
-          message: "Relay job already exists.",
+          valid: false,
+          operatorRouteReason: hookData === "0x" ? 1 : 2,
+          error: decoded.error,
+          params: null,
+          issues: [],
         });
         return;
       }
 
-      const now = new Date().toISOString();
-      store.createJob({
-        txHash: normalizedTxHash,
-        sourceDomain,
-        attestedMessage: null,
-        attestation: null,
-        irisNonce: null,
-        mintRecipient: null,
-        destinationDomain: null,
-        amount: null,
-        ethTxHash: null,
-        ethBlockNumber: null,
-        status: "pending",
-        outcome: null,
+      const issues = checkForwardParams(
+        decoded.params,
+        relayFeeFor(config, integratorOf(res)),
+        config.remoteDomains,
+      );
+      res.status(200).json({
+        valid: issues.length === 0,
+        operatorRouteReason: null,
         error: null,
-        pollAttempts: 0,
-        retryCount: 0,
-        createdAt: now,
-        attestedAt: null,
-        submittedAt: null,
-        confirmedAt: null,
-        updatedAt: now,
-      });
-
-      res.status(201).json({
-        txHash: normalizedTxHash,
-        status: "pending",
-        message: "Relay job created. Poll GET /relay/:txHash for status.",
+        params: forwardParamsJson(decoded.params),
+        issues,
       });
     } catch (err) {
-      console.error("POST /relay error:", err);
+      console.error("POST /hook-data/decode error:", err);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/relay/:txHash", (req: Request, res: Response) => {
-    const rawParam = req.params.txHash;
-    const txHash = (Array.isArray(rawParam) ? rawParam[0] : rawParam).toLowerCase();
-    const job = store.getJob(txHash);
-    if (!job) {
-      res.status(404).json({ error: "Job not found" });
-      return;
-    }
-
-    res.status(200).json({
-      txHash: job.txHash,
-      sourceDomain: job.sourceDomain,
-      status: job.status,
-      outcome: job.outcome,
-      error: job.error,
-      ethTxHash: job.ethTxHash,
-      createdAt: job.createdAt,
-      attestedAt: job.attestedAt,
-      submittedAt: job.submittedAt,
-      confirmedAt: job.confirmedAt,
-    });
+  // Dry-run receiveAndForward. Body: { message, attestation } or
+  // { txHash, sourceDomain? } to simulate every attested job of a request.
+  app.post("/simulate", async (req: Request, res: Response) => {
+    try {
+      const { message, attestation, txHash, sourceDomain } = req.body ?? {};
+
+      if (message !== undefined || attestation !== undefined) {
+        if (
+          typeof message !== "string" ||
+          !HEX_REGEX.test(message) ||
+          typeof attestation !== "string" ||
+          !HEX_REGEX.test(attestation)
+        ) {
+          res.status(400).json({ error: "Invalid message or attestation" });
+          return;
+        }
+        if (!decodeMessage(message)) {
+          res.status(422).json({
+            error: "message is not a CCTP v2 burn message",
+          });
+          return;
+        }
+        const simulation = await simulate(
+          message,
+          attestation,
+          relayFeeFor(config, integratorOf(res)),
+        );
+        res.status(200).json({
+          simulations: [
+            {
+              transferId: transferIdOfMessage(message),
+              messageIndex: null,
+              ...simulation,
+            },
+          ],
+        });
+        return;
+      }
+
+      if (typeof txHash !== "string" || !BYTES32_REGEX.test(txHash)) {
+        res.status(400).json({ error: "Provide message and attestation, or txHash" });
+        return;
+      }
+      if (
+        sourceDomain !== undefined &&
+        (typeof sourceDomain !== "number" ||
+          !VALID_SOURCE_DOMAINS.has(sourceDomain))
+      ) {
+        res.status(400).json({ error: "Invalid sourceDomain" });
+        return;
+      }
+      const found = findRequest(txHash, sourceDomain);
+      if ("reply" in found) {
+        res.status(found.reply.status).json(found.reply.body);
+        return;
+      }
+
+      const { request } = found;
+      const jobs = store
+        .getJobsForRequest(request.sourceDomain, request.txHash)
+        .flatMap((job) =>
+          job.attestedMessage && job.attestation
+            ? [
+                {
+                  job,
+                  message: job.attestedMessage,
+                  attestation: job.attestation,
+                },
+              ]
+            : [],
+        );
+      if (jobs.length === 0) {
+        res.status(409).json({ error: `Request is ${request.status}; nothing attested yet` });
+        return;
+      }
+
+      const relayFee = request.relayFee ? BigInt(request.relayFee) : config.relayFee;
+      const simulations = [];
+      for (const { job, message, attestation } of jobs) {
+        simulations.push({
+          transferId: job.transferId,
+          messageIndex: job.messageIndex,
+          status: job.status,
+          ...(await simulate(message, attestation, relayFee)),
+        });
+      }
+      res.status(200).json({ simulations });
+    } catch (err) {
+      console.error("POST /simulate error:", err);
+      if (isRpcError(err)) {
+        res.status(502).json({ error: "Simulation failed: RPC unavailable" });
+        return;
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
   app.get("/health", (_req: Request, res: Response) => {
     try {
-      const counts = store.countByStatus();
       res.status(200).json({
         status: "healthy",
-        jobs: counts,
+        requests: store.countRequestsByStatus(),
+        jobs: store.countByStatus(),
       });
     } catch (err) {
       console.error("GET /health error:", err);
@@ -0,0 +1,16 @@
+// Entries of a batch body; returns an error message on bad input
+export function parseBatch(
+  raw: unknown,
+  maxSize: number,
+): Record<string, unknown>[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return "relays must be a non-empty array";
+  }
+  if (raw.length > maxSize) {
+    return `Too many entries (max ${maxSize})`;
+  }
+  if (!raw.every((e) => typeof e === "object" && e !== null && !Array.isArray(e))) {
+    return "Each entry must be an object";
+  }
+  return raw;
+}
@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import { DEPOSIT_FOR_BURN_TOPIC0, TOKEN_MESSENGER_V2_ABI } from "./abis.js";
+import { jsonRpc } from "./rpc.js";
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface RpcReceipt {
+  status: string;
+  logs: RpcLog[];
+}
+
+// `error` is set when the burn is missing or not for us. The threshold
+// is the slowest of the burns to the router, null when not checked.
+export interface BurnCheck {
+  error: string | null;
+  minFinalityThreshold: number | null;
+}
+
+const tokenMessengerInterface = new ethers.Interface(TOKEN_MESSENGER_V2_ABI);
+
+function rejected(error: string): BurnCheck {
+  return { error, minFinalityThreshold: null };
+}
+
+// Checks that a source transaction burned USDC towards the router before a
+// relay request is accepted, so junk hashes never reach the poller.
+// Passes without checking when the domain has no RPC configured; throws
+// when the RPC cannot be reached.
+export function createBurnVerifier(config: Config) {
+  const tokenMessenger = config.tokenMessengerAddress.toLowerCase();
+
+  return async function verifyBurn(
+    sourceDomain: number,
+    txHash: string,
+  ): Promise<BurnCheck> {
+    const url = config.sourceRpcUrls.get(sourceDomain);
+    if (!url) {
+      return { error: null, minFinalityThreshold: null };
+    }
+
+    const receipt = await jsonRpc<RpcReceipt | null>(
+      url,
+      "eth_getTransactionReceipt",
+      [txHash],
+      config.sourceRpcTimeoutMs,
+    );
+    if (!receipt) {
+      return rejected("Source transaction not found on the source chain");
+    }
+    if (receipt.status !== "0x1") {
+      return rejected("Source transaction reverted");
+    }
+
+    const burns = receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() === tokenMessenger &&
+          log.topics[0] === DEPOSIT_FOR_BURN_TOPIC0,
+      )
+      .map((log) => tokenMessengerInterface.parseLog(log))
+      .filter((parsed) => parsed !== null);
+    if (burns.length === 0) {
+      return rejected(
+        "Source transaction has no DepositForBurn event from TokenMessengerV2",
+      );
+    }
+
+    const toRouter = burns.filter(
+      (burn) =>
+        Number(burn.args.destinationDomain) === 0 &&
+        burn.args.mintRecipient.toLowerCase() === config.routerBytes32.toLowerCase(),
+    );
+    if (toRouter.length === 0) {
+      return rejected(
+        "DepositForBurn mintRecipient is not the relay router on Ethereum",
+      );
+    }
+    return {
+      error: null,
+      minFinalityThreshold: Math.max(
+        ...toRouter.map((burn) => Number(burn.args.minFinalityThreshold)),
+      ),
+    };
+  };
+}
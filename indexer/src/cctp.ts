@@ -0,0 +1,208 @@
+import { ethers } from "ethers";
+import { decodeForwardParams } from "./hookdata.js";
+
+// Known CCTP v2 source domains (excludes 0 = Ethereum, our destination)
+export const VALID_SOURCE_DOMAINS = new Set([
+  1, 2, 3, 6, 7, 10, 11, 12, 13, 14, 15, 16, 18, 19, 21, 22,
+]);
+
+// MessageV2 header offsets — see the layout comment in
+// contracts/XReserveRouter.sol
+export const SOURCE_DOMAIN_OFFSET = 4;
+export const NONCE_OFFSET = 12;
+export const MIN_FINALITY_OFFSET = 140;
+
+// BurnMessageV2 fields, as absolute offsets into the message
+export const MESSAGE_SENDER_OFFSET = 248;
+export const HOOK_DATA_OFFSET = 376;
+
+// Every MessageV2 header and BurnMessageV2 field of an attested message.
+// bytes32 fields are kept as bytes32, uint256 fields as decimal strings.
+export interface DecodedMessage {
+  version: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: string;
+  sender: string;
+  recipient: string;
+  destinationCaller: string;
+  minFinalityThreshold: number;
+  finalityThresholdExecuted: number;
+  burn: {
+    version: number;
+    burnToken: string;
+    mintRecipient: string;
+    amount: string;
+    messageSender: string;
+    maxFee: string;
+    feeExecuted: string;
+    expirationBlock: string;
+    hookData: string;
+  };
+}
+
+// Lookup keys kept on relay_jobs, read from the attested message
+export interface MessageIdentity {
+  nonce: string | null;
+  messageSender: string | null; // address when padded, bytes32 otherwise
+  fallbackRecipient: string | null;
+  remoteRecipient: string | null; // bytes32
+}
+
+// Canonical transfer identity, mirrors XReserveRouter._transferId:
+// keccak256(abi.encodePacked(sourceDomain, nonce))
+export function computeTransferId(sourceDomain: number, nonce: string): string {
+  return ethers.solidityPackedKeccak256(
+    ["uint32", "bytes32"],
+    [sourceDomain, nonce],
+  );
+}
+
+// Header nonce of an attested message, or null if it is too short
+export function nonceOfMessage(messageHex: string): string | null {
+  const message = ethers.getBytes(messageHex);
+  if (message.length < NONCE_OFFSET + 32) {
+    return null;
+  }
+  return ethers.hexlify(message.slice(NONCE_OFFSET, NONCE_OFFSET + 32));
+}
+
+// Header minFinalityThreshold, or null if the message is too short
+// (Iris may omit the message while it waits for finality)
+export function minFinalityOfMessage(messageHex: string): number | null {
+  const message = ethers.getBytes(messageHex);
+  if (message.length < MIN_FINALITY_OFFSET + 4) {
+    return null;
+  }
+  return new DataView(
+    message.buffer,
+    message.byteOffset + MIN_FINALITY_OFFSET,
+    4,
+  ).getUint32(0);
+}
+
+// Transfer identity of an attested message, read from its header.
+// Returns null if the message is too short to contain a nonce.
+export function transferIdOfMessage(messageHex: string): string | null {
+  const message = ethers.getBytes(messageHex);
+  if (message.length < NONCE_OFFSET + 32) {
+    return null;
+  }
+  const sourceDomain = new DataView(
+    message.buffer,
+    message.byteOffset + SOURCE_DOMAIN_OFFSET,
+    4,
+  ).getUint32(0);
+  const nonce = ethers.hexlify(message.slice(NONCE_OFFSET, NONCE_OFFSET + 32));
+  return computeTransferId(sourceDomain, nonce);
+}
+
+// bytes32 as a lowercase address when it is a left-padded one (every EVM
+// source chain), otherwise as-is
+export function bytes32ToAccount(value: string): string {
+  const lower = value.toLowerCase();
+  return lower.startsWith("0x000000000000000000000000")
+    ? "0x" + lower.slice(-40)
+    : lower;
+}
+
+// Nonce, burn sender and ForwardParams recipients of an attested message.
+// Fields the message is too short for, or whose hookData does not decode,
+// are null.
+export function identityOfMessage(messageHex: string): MessageIdentity {
+  const message = ethers.getBytes(messageHex);
+  const identity: MessageIdentity = {
+    nonce: nonceOfMessage(messageHex),
+    messageSender: null,
+    fallbackRecipient: null,
+    remoteRecipient: null,
+  };
+  if (message.length >= MESSAGE_SENDER_OFFSET + 32) {
+    identity.messageSender = bytes32ToAccount(
+      ethers.hexlify(
+        message.slice(MESSAGE_SENDER_OFFSET, MESSAGE_SENDER_OFFSET + 32),
+      ),
+    );
+  }
+  if (message.length > HOOK_DATA_OFFSET) {
+    const decoded = decodeForwardParams(
+      ethers.hexlify(message.slice(HOOK_DATA_OFFSET)),
+    );
+    if ("params" in decoded) {
+      identity.fallbackRecipient = decoded.params.fallbackRecipient.toLowerCase();
+      identity.remoteRecipient = decoded.params.remoteRecipient.toLowerCase();
+    }
+  }
+  return identity;
+}
+
+// Encode a MessageV2 carrying a BurnMessageV2, the inverse of
+// decodeMessage
+export function encodeMessage(decoded: DecodedMessage): string {
+  const { burn } = decoded;
+  return ethers.solidityPacked(
+    [
+      "uint32", "uint32", "uint32", "bytes32", "bytes32", "bytes32",
+      "bytes32", "uint32", "uint32",
+      "uint32", "bytes32", "bytes32", "uint256", "bytes32", "uint256",
+      "uint256", "uint256", "bytes",
+    ],
+    [
+      decoded.version,
+      decoded.sourceDomain,
+      decoded.destinationDomain,
+      decoded.nonce,
+      decoded.sender,
+      decoded.recipient,
+      decoded.destinationCaller,
+      decoded.minFinalityThreshold,
+      decoded.finalityThresholdExecuted,
+      burn.version,
+      burn.burnToken,
+      burn.mintRecipient,
+      burn.amount,
+      burn.messageSender,
+      burn.maxFee,
+      burn.feeExecuted,
+      burn.expirationBlock,
+      burn.hookData,
+    ],
+  );
+}
+
+// Decode an attested message, or null if it is shorter than a
+// BurnMessageV2 without hookData
+export function decodeMessage(messageHex: string): DecodedMessage | null {
+  const message = ethers.getBytes(messageHex);
+  if (message.length < HOOK_DATA_OFFSET) {
+    return null;
+  }
+  const view = new DataView(message.buffer, message.byteOffset, message.length);
+  const bytes32 = (offset: number) =>
+    ethers.hexlify(message.slice(offset, offset + 32));
+  const uint256 = (offset: number) =>
+    ethers.toBigInt(message.slice(offset, offset + 32)).toString();
+
+  return {
+    version: view.getUint32(0),
+    sourceDomain: view.getUint32(SOURCE_DOMAIN_OFFSET),
+    destinationDomain: view.getUint32(8),
+    nonce: bytes32(NONCE_OFFSET),
+    sender: bytes32(44),
+    recipient: bytes32(76),
+    destinationCaller: bytes32(108),
+    minFinalityThreshold: view.getUint32(MIN_FINALITY_OFFSET),
+    finalityThresholdExecuted: view.getUint32(144),
+    burn: {
+      version: view.getUint32(148),
+      burnToken: bytes32(152),
+      mintRecipient: bytes32(184),
+      amount: uint256(216),
+      messageSender: bytes32(MESSAGE_SENDER_OFFSET),
+      maxFee: uint256(280),
+      feeExecuted: uint256(312),
+      expirationBlock: uint256(344),
+      hookData: ethers.hexlify(message.slice(HOOK_DATA_OFFSET)),
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { createWriteStream } from "node:fs";
+import { once } from "node:events";
+import { parseArgs } from "node:util";
+import { createStore } from "../store.js";
+import {
+  EXPORT_FORMATS,
+  parseExportRange,
+  writeSettledRelays,
+  type ExportFormat,
+} from "../exports.js";
+
+// Accounting export from the command line, same output as
+// GET /exports/relays:
+//   npm run export -- --from 2026-10-01 --to 2026-11-01 --format csv --out relays.csv
+// Reads DB_PATH directly; safe to run next to a live indexer (WAL).
+
+const USAGE =
+  "Usage: npm run export -- [--from <time>] [--to <time>] [--format csv|ndjson] [--out <file>]";
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      format: { type: "string", default: "csv" },
+      out: { type: "string" },
+    },
+  });
+
+  if (!EXPORT_FORMATS.includes(values.format as ExportFormat)) {
+    throw new Error(`Invalid format (csv or ndjson)\n${USAGE}`);
+  }
+  const range = parseExportRange(values.from, values.to);
+  if (typeof range === "string") {
+    throw new Error(`${range}\n${USAGE}`);
+  }
+
+  const store = createStore(process.env.DB_PATH ?? "./data/relay.db");
+  const output = values.out ? createWriteStream(values.out) : process.stdout;
+
+  const count = await writeSettledRelays(
+    store,
+    range,
+    values.format as ExportFormat,
+    async (chunk) => {
+      if (!output.write(chunk)) await once(output, "drain");
+    },
+  );
+  if (values.out) {
+    output.end();
+    await once(output, "finish");
+  }
+  console.error(`Exported ${count} settled relays`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
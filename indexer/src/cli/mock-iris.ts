@@ -0,0 +1,62 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { parseSourceRpcUrls } from "../config.js";
+import { createMockIris, parseFixtures } from "../mockiris.js";
+
+// Local Iris API stand-in for offline runs:
+//   npm run mock-iris -- --fixtures fixtures/iris.example.json --rpc 6:http://127.0.0.1:8545
+// then start the indexer with IRIS_API_URL=http://127.0.0.1:3100.
+
+const USAGE =
+  "Usage: npm run mock-iris -- [--port <port>] [--fixtures <file>] [--rpc <domain:url,...>] [--attest-after <ms>] [--attester-key <hex>] [--router <address>]";
+
+// Hardhat's first default account; the attestations only satisfy a
+// MessageTransmitter that trusts this key (or checks none)
+const DEFAULT_ATTESTER_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "3100" },
+      fixtures: { type: "string" },
+      rpc: { type: "string" },
+      "attest-after": { type: "string", default: "5000" },
+      "attester-key": { type: "string", default: DEFAULT_ATTESTER_KEY },
+      router: { type: "string", default: process.env.ROUTER_ADDRESS },
+    },
+  });
+
+  const port = parseInt(values.port, 10);
+  const attestAfterMs = parseInt(values["attest-after"], 10);
+  if (!Number.isInteger(port) || !Number.isInteger(attestAfterMs)) {
+    throw new Error(`Invalid --port or --attest-after\n${USAGE}`);
+  }
+
+  const fixtures = values.fixtures
+    ? parseFixtures(JSON.parse(readFileSync(values.fixtures, "utf8")))
+    : [];
+  if (typeof fixtures === "string") {
+    throw new Error(`Invalid fixtures: ${fixtures}`);
+  }
+
+  const app = createMockIris({
+    fixtures,
+    rpcUrls: parseSourceRpcUrls(values.rpc),
+    attestAfterMs,
+    attesterKey: values["attester-key"],
+    routerAddress: values.router ?? null,
+  });
+  app.listen(port, () => {
+    console.log(
+      `Mock Iris listening on port ${port} (${fixtures.length} fixture transactions)`,
+    );
+  });
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
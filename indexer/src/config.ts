@@ -1,8 +1,15 @@
 import { ethers } from "ethers";
+import type { FinalityProfile } from "./types.js";
 
 export interface Config {
   isTestnet: boolean;
   irisApiBaseUrl: string;
+  irisTimeoutMs: number;
+  irisMaxRetries: number; // per lookup, after network errors and 5xx
+  // Failed lookups in a row that open the breaker, and how long it
+  // stays open before a probe
+  irisBreakerThreshold: number;
+  irisBreakerCooldownMs: number;
 
   routerAddress: string;
   routerBytes32: string;
@@ -11,19 +18,182 @@ export interface Config {
   relayerPrivateKey: string;
   transmitterAddress: string;
 
+  // Source-chain RPCs used to verify burns before accepting a relay;
+  // domains without one are accepted unverified
+  sourceRpcUrls: Map<number, string>;
+  sourceRpcTimeoutMs: number;
+  tokenMessengerAddress: string;
+
   apiPort: number;
+  maxStreamClients: number;
+  maxBatchSize: number; // entries per POST /relay/batch or /relay/status
+
+  // Limits for callers without an integrator API key
+  anonRequestsPerSecond: number;
+  anonMaxPendingJobs: number;
 
   pollCycleIntervalMs: number;
-  attestationTimeoutMs: number;
+  // Per-request poll schedule: the delay doubles from base up to the
+  // finality profile's interval after each answered poll
+  pollBackoffBaseMs: number;
+  // Overrides of the built-in profiles, keyed "domain:fast|standard"
+  finalityProfiles: Map<string, FinalityProfile>;
+  // Polling time after which a transaction Iris never reported fails
+  irisNotFoundTimeoutMs: number;
 
   maxRetries: number;
   submitterPollIntervalMs: number;
+  confirmationTimeoutMs: number;
+
+  reconcileIntervalMs: number;
+  reconcileLookbackBlocks: number;
 
   relayFee: bigint;
 
+  // GET /health/ready thresholds
+  minWalletBalanceWei: bigint;
+  maxBlockAgeMs: number;
+  loopStaleMs: number;
+  healthCheckTimeoutMs: number;
+
+  // xReserve remote domains ForwardParams may target; empty skips the check
+  remoteDomains: Set<number>;
+
+  // CCTP MessageV2 and BurnMessageV2 versions the poller relays; a new
+  // version is accepted by listing it, without a release
+  messageVersions: Set<number>;
+  burnMessageVersions: Set<number>;
+
+  // GET /quote: validity window and assumed gas of one receiveAndForward
+  quoteValidityMs: number;
+  quoteGasLimit: bigint;
+
+  // Admin API bearer token → operator name recorded in the audit log
+  adminTokens: Map<string, string>;
+  // Bearer token for Prometheus scrapes of GET /metrics
+  metricsToken: string | null;
+
+  // HMAC keys for webhook signatures; several during rotation, empty
+  // disables callbacks
+  webhookSecrets: string[];
+  webhookMaxAttempts: number;
+  webhookTimeoutMs: number;
+  webhookPollIntervalMs: number;
+  webhookAllowHttp: boolean;
+  // Accept callback hosts on loopback and private networks
+  webhookAllowPrivateHosts: boolean;
+
   dbPath: string;
 }
 
+// ADMIN_API_TOKENS="alice:<token>,bob:<token>"
+function parseAdminTokens(raw: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (raw ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const sep = trimmed.indexOf(":");
+    if (sep <= 0 || sep === trimmed.length - 1) {
+      throw new Error(`Invalid ADMIN_API_TOKENS entry (expected name:token)`);
+    }
+    tokens.set(trimmed.slice(sep + 1), trimmed.slice(0, sep));
+  }
+  return tokens;
+}
+
+// SOURCE_RPC_URLS="3:https://arb.example,6:https://base.example"
+export function parseSourceRpcUrls(
+  raw: string | undefined,
+): Map<number, string> {
+  const urls = new Map<number, string>();
+  for (const entry of (raw ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const sep = trimmed.indexOf(":");
+    const domain = Number(trimmed.slice(0, sep));
+    if (sep <= 0 || !Number.isInteger(domain) || sep === trimmed.length - 1) {
+      throw new Error(`Invalid SOURCE_RPC_URLS entry (expected domain:url)`);
+    }
+    urls.set(domain, trimmed.slice(sep + 1));
+  }
+  return urls;
+}
+
+// FINALITY_PROFILES="11:standard:21600000:600000:172800000,..." as
+// domain:finality:expectedLatencyMs:pollIntervalMs:timeoutMs
+function parseFinalityProfiles(
+  raw: string | undefined,
+): Map<string, FinalityProfile> {
+  const profiles = new Map<string, FinalityProfile>();
+  for (const entry of (raw ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const [domain, finality, ...times] = trimmed.split(":");
+    const [expectedLatencyMs, pollIntervalMs, timeoutMs] = times.map(Number);
+    if (
+      !Number.isInteger(Number(domain)) ||
+      (finality !== "fast" && finality !== "standard") ||
+      times.length !== 3 ||
+      ![expectedLatencyMs, pollIntervalMs, timeoutMs].every(
+        (ms) => Number.isInteger(ms) && ms > 0,
+      )
+    ) {
+      throw new Error(
+        `Invalid FINALITY_PROFILES entry (expected domain:fast|standard:expectedLatencyMs:pollIntervalMs:timeoutMs)`,
+      );
+    }
+    profiles.set(`${Number(domain)}:${finality}`, {
+      expectedLatencyMs,
+      pollIntervalMs,
+      timeoutMs,
+    });
+  }
+  return profiles;
+}
+
+// Whole milliseconds > 0; a zero or unparseable delay would make poll
+// schedules stand still
+function positiveMs(name: string, fallback: string): number {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name} (expected a positive integer)`);
+  }
+  return value;
+}
+
+// MESSAGE_VERSIONS="1,2" — a non-empty list of uint32 versions
+function parseVersions(name: string, fallback: string): Set<number> {
+  const versions = new Set<number>();
+  for (const entry of (process.env[name] || fallback).split(",")) {
+    if (entry.trim() === "") continue;
+    const version = Number(entry);
+    if (!Number.isInteger(version) || version < 0 || version > 0xffffffff) {
+      throw new Error(`Invalid ${name} entry (expected a uint32 version)`);
+    }
+    versions.add(version);
+  }
+  if (versions.size === 0) {
+    throw new Error(`Invalid ${name} (expected at least one version)`);
+  }
+  return versions;
+}
+
+// Poll settings replaced by finality profiles → what now decides them.
+// Still set in a deployment, they would be ignored without a word.
+const REMOVED_POLL_VARS = new Map([
+  ["ATTESTATION_TIMEOUT_MS", "the profile's timeoutMs"],
+]);
+
+function warnRemovedPollVars(): void {
+  for (const [name, replacement] of REMOVED_POLL_VARS) {
+    if (process.env[name] !== undefined) {
+      console.warn(
+        `${name} is no longer used and is ignored; ${replacement} applies instead (see FINALITY_PROFILES)`,
+      );
+    }
+  }
+}
+
 function required(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -35,15 +205,28 @@ function required(name: string): string {
 export function loadConfig(): Config {
   const isTestnet = process.env.IS_TESTNET === "true";
   const routerAddress = required("ROUTER_ADDRESS");
+  warnRemovedPollVars();
 
   // Pad address to bytes32: 0x000...{20-byte address}
   const routerBytes32 = ethers.zeroPadValue(routerAddress, 32);
 
   return {
     isTestnet,
-    irisApiBaseUrl: isTestnet
-      ? "https://iris-api-sandbox.circle.com"
-      : "https://iris-api.circle.com",
+    irisApiBaseUrl:
+      process.env.IRIS_API_URL ??
+      (isTestnet
+        ? "https://iris-api-sandbox.circle.com"
+        : "https://iris-api.circle.com"),
+    irisTimeoutMs: parseInt(process.env.IRIS_TIMEOUT_MS ?? "10000", 10),
+    irisMaxRetries: parseInt(process.env.IRIS_MAX_RETRIES ?? "2", 10),
+    irisBreakerThreshold: parseInt(
+      process.env.IRIS_BREAKER_THRESHOLD ?? "5",
+      10,
+    ),
+    irisBreakerCooldownMs: parseInt(
+      process.env.IRIS_BREAKER_COOLDOWN_MS ?? "30000",
+      10,
+    ),
 
     routerAddress,
     routerBytes32,
@@ -52,14 +235,36 @@ export function loadConfig(): Config {
     relayerPrivateKey: required("RELAYER_PRIVATE_KEY"),
     transmitterAddress: required("TRANSMITTER_ADDRESS"),
 
+    sourceRpcUrls: parseSourceRpcUrls(process.env.SOURCE_RPC_URLS),
+    sourceRpcTimeoutMs: parseInt(
+      process.env.SOURCE_RPC_TIMEOUT_MS ?? "5000",
+      10,
+    ),
+    // TokenMessengerV2 has the same address on every EVM source chain
+    tokenMessengerAddress:
+      process.env.TOKEN_MESSENGER_ADDRESS ??
+      (isTestnet
+        ? "0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA"
+        : "0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d"),
+
     apiPort: parseInt(process.env.API_PORT ?? "3000", 10),
+    maxStreamClients: parseInt(process.env.MAX_STREAM_CLIENTS ?? "1000", 10),
+    maxBatchSize: parseInt(process.env.MAX_BATCH_SIZE ?? "100", 10),
+
+    anonRequestsPerSecond: parseInt(
+      process.env.ANON_REQUESTS_PER_SECOND ?? "2",
+      10,
+    ),
+    anonMaxPendingJobs: parseInt(process.env.ANON_MAX_PENDING_JOBS ?? "50", 10),
 
     pollCycleIntervalMs: parseInt(
       process.env.POLL_CYCLE_INTERVAL_MS ?? "2000",
       10,
     ),
-    attestationTimeoutMs: parseInt(
-      process.env.ATTESTATION_TIMEOUT_MS ?? "1800000",
+    pollBackoffBaseMs: positiveMs("POLL_BACKOFF_BASE_MS", "2000"),
+    finalityProfiles: parseFinalityProfiles(process.env.FINALITY_PROFILES),
+    irisNotFoundTimeoutMs: parseInt(
+      process.env.IRIS_NOT_FOUND_TIMEOUT_MS ?? "300000",
       10,
     ),
 
@@ -68,9 +273,61 @@ export function loadConfig(): Config {
       process.env.SUBMITTER_POLL_INTERVAL_MS ?? "2000",
       10,
     ),
+    confirmationTimeoutMs: parseInt(
+      process.env.CONFIRMATION_TIMEOUT_MS ?? "600000",
+      10,
+    ),
+
+    reconcileIntervalMs: parseInt(
+      process.env.RECONCILE_INTERVAL_MS ?? "60000",
+      10,
+    ),
+    reconcileLookbackBlocks: parseInt(
+      process.env.RECONCILE_LOOKBACK_BLOCKS ?? "50000",
+      10,
+    ),
 
     relayFee: BigInt(process.env.RELAY_FEE ?? "0"),
 
+    minWalletBalanceWei: ethers.parseEther(
+      process.env.MIN_WALLET_BALANCE_ETH ?? "0.01",
+    ),
+    maxBlockAgeMs: parseInt(process.env.MAX_BLOCK_AGE_MS ?? "60000", 10),
+    loopStaleMs: parseInt(process.env.LOOP_STALE_MS ?? "120000", 10),
+    healthCheckTimeoutMs: parseInt(
+      process.env.HEALTH_CHECK_TIMEOUT_MS ?? "5000",
+      10,
+    ),
+
+    remoteDomains: new Set(
+      (process.env.XRESERVE_REMOTE_DOMAINS ?? "")
+        .split(",")
+        .filter((d) => d.trim() !== "")
+        .map((d) => parseInt(d, 10)),
+    ),
+
+    messageVersions: parseVersions("MESSAGE_VERSIONS", "1"),
+    burnMessageVersions: parseVersions("BURN_MESSAGE_VERSIONS", "1"),
+
+    quoteValidityMs: parseInt(process.env.QUOTE_VALIDITY_MS ?? "300000", 10),
+    quoteGasLimit: BigInt(process.env.QUOTE_GAS_LIMIT ?? "350000"),
+
+    adminTokens: parseAdminTokens(process.env.ADMIN_API_TOKENS),
+    metricsToken: process.env.METRICS_TOKEN || null,
+
+    webhookSecrets: (process.env.WEBHOOK_SECRETS ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s !== ""),
+    webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? "10", 10),
+    webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS ?? "10000", 10),
+    webhookPollIntervalMs: parseInt(
+      process.env.WEBHOOK_POLL_INTERVAL_MS ?? "2000",
+      10,
+    ),
+    webhookAllowHttp: process.env.WEBHOOK_ALLOW_HTTP === "true",
+    webhookAllowPrivateHosts: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true",
+
     dbPath: process.env.DB_PATH ?? "./data/relay.db",
   };
 }
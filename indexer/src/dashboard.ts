@@ -0,0 +1,192 @@
+import { fileURLToPath } from "node:url";
+import express, { type Request, type Response } from "express";
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { requireAdmin } from "./admin.js";
+import { BYTES32_REGEX } from "./hex.js";
+import { jsonRpc } from "./rpc.js";
+import { irisStatus } from "./iris.js";
+import type { GasSpend } from "./types.js";
+
+const RECENT_LIMIT = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Open dashboards refresh every 15s; the balance and the all-time gas
+// spend (a full scan of relay_transactions) need not be fresher
+const BALANCE_CACHE_MS = 30_000;
+const ALL_TIME_SPEND_CACHE_MS = 30_000;
+
+const PAGE_PATH = fileURLToPath(
+  new URL("../dashboard/index.html", import.meta.url),
+);
+
+function since(ms: number): string {
+  return new Date(Date.now() - ms).toISOString();
+}
+
+function gasSpendJson(spend: GasSpend) {
+  return { ...spend, costEth: ethers.formatEther(spend.costWei) };
+}
+
+// Operator dashboard: a static page plus the JSON it renders. The
+// summary holds wallet and fee data, so it takes an admin token like
+// /exports; actions in the page go through /admin with the same token.
+export function createDashboardRouter(
+  config: Config,
+  store: Store,
+): express.Router {
+  const router = express.Router();
+  const walletAddress = new ethers.Wallet(config.relayerPrivateKey).address;
+  let cachedBalance: {
+    balanceEth: string | null;
+    error: string | null;
+    checkedAt: number;
+  } | null = null;
+
+  // One eth_getBalance per BALANCE_CACHE_MS, however many pages are open
+  async function walletBalance() {
+    if (
+      cachedBalance &&
+      Date.now() - cachedBalance.checkedAt < BALANCE_CACHE_MS
+    ) {
+      return cachedBalance;
+    }
+    let balanceEth: string | null = null;
+    let error: string | null = null;
+    try {
+      const balance = await jsonRpc<string>(
+        config.ethereumRpcUrl,
+        "eth_getBalance",
+        [walletAddress, "latest"],
+        config.healthCheckTimeoutMs,
+      );
+      balanceEth = ethers.formatEther(BigInt(balance));
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+    cachedBalance = { balanceEth, error, checkedAt: Date.now() };
+    return cachedBalance;
+  }
+
+  let cachedAllTimeSpend: { spend: GasSpend; checkedAt: number } | null = null;
+
+  function allTimeGasSpend(): GasSpend {
+    if (
+      !cachedAllTimeSpend ||
+      Date.now() - cachedAllTimeSpend.checkedAt >= ALL_TIME_SPEND_CACHE_MS
+    ) {
+      cachedAllTimeSpend = {
+        spend: store.getGasSpend(null),
+        checkedAt: Date.now(),
+      };
+    }
+    return cachedAllTimeSpend.spend;
+  }
+
+  router.get("/", (_req: Request, res: Response) => {
+    res.sendFile(PAGE_PATH);
+  });
+
+  router.get(
+    "/summary",
+    requireAdmin(config),
+    async (_req: Request, res: Response) => {
+      try {
+        const { balanceEth, error: balanceError } = await walletBalance();
+
+        res.status(200).json({
+          generatedAt: new Date().toISOString(),
+          queue: {
+            requests: store.countRequestsByStatus(),
+            jobs: store.countByStatus(),
+            byDomain: store.countByDomain(),
+          },
+          outcomes: store.countByOutcome(),
+          iris: irisStatus(),
+          wallet: {
+            address: walletAddress,
+            balanceEth,
+            minBalanceEth: ethers.formatEther(config.minWalletBalanceWei),
+            error: balanceError,
+          },
+          gasSpend: {
+            last24h: gasSpendJson(store.getGasSpend(since(DAY_MS))),
+            last7d: gasSpendJson(store.getGasSpend(since(7 * DAY_MS))),
+            allTime: gasSpendJson(allTimeGasSpend()),
+          },
+          recentFailures: store.listRelays(
+            { statuses: ["failed"] },
+            RECENT_LIMIT,
+          ),
+          operatorRouted: store.listRelays(
+            { outcomes: ["operator_routed"] },
+            RECENT_LIMIT,
+          ),
+          fallbacks: store.listRelays({ outcomes: ["fallback"] }, RECENT_LIMIT),
+        });
+      } catch (err) {
+        console.error("GET /dashboard/summary error:", err);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // A bytes32 may be a source txHash, a transferId or a CCTP nonce; the
+  // page then loads each match through GET /relay/:txHash
+  router.get("/search", (req: Request, res: Response) => {
+    try {
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!BYTES32_REGEX.test(q)) {
+        res.status(400).json({
+          error: "Search by txHash, transferId or nonce (0x + 64 hex)",
+        });
+        return;
+      }
+      const value = q.toLowerCase();
+
+      const matches: {
+        matchedBy: "txHash" | "transferId" | "nonce";
+        sourceDomain: number;
+        txHash: string;
+        transferId: string | null;
+      }[] = store.getRequestsByTxHash(value).map((r) => ({
+        matchedBy: "txHash",
+        sourceDomain: r.sourceDomain,
+        txHash: r.txHash,
+        transferId: null,
+      }));
+
+      const job = store.getJob(value);
+      if (job) {
+        matches.push({
+          matchedBy: "transferId",
+          sourceDomain: job.sourceDomain,
+          txHash: job.txHash,
+          transferId: job.transferId,
+        });
+      }
+
+      // Nonces are indexed per domain; only domains with relays can match
+      for (const { sourceDomain } of store.countByDomain()) {
+        const byNonce = store.getJobByNonce(sourceDomain, value);
+        if (byNonce) {
+          matches.push({
+            matchedBy: "nonce",
+            sourceDomain,
+            txHash: byNonce.txHash,
+            transferId: byNonce.transferId,
+          });
+        }
+      }
+
+      res.status(200).json({ matches });
+    } catch (err) {
+      console.error("GET /dashboard/search error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  return router;
+}
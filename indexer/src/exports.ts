@@ -0,0 +1,131 @@
+import { ethers } from "ethers";
+import type { Store } from "./store.js";
+import type { SettledRelay, SettledRelayCursor } from "./types.js";
+
+export type ExportFormat = "csv" | "ndjson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson"];
+
+export interface ExportRange {
+  from?: string; // ISO, inclusive
+  to?: string; // ISO, exclusive
+}
+
+// Rows read from SQLite per query; the connection is shared with the
+// loops, so it is never held across a slow consumer
+const PAGE_SIZE = 500;
+
+// USDC amounts are in base units (6 decimals), as everywhere in the API
+const COLUMNS = [
+  "sourceDomain",
+  "txHash",
+  "messageIndex",
+  "transferId",
+  "outcome",
+  "ethTxHash",
+  "ethBlockNumber",
+  "confirmedAt",
+  "mintedAmount",
+  "relayFee",
+  "forwardAmount",
+  "fallbackAmount",
+  "operatorRoutedAmount",
+  "operatorRouteReason",
+  "gasCostEth",
+  "integratorId",
+] as const;
+
+type ExportRecord = Record<(typeof COLUMNS)[number], string | number | null>;
+
+// Validate from/to (any Date.parse-able time); returns an error message
+// on bad input
+export function parseExportRange(
+  from: string | undefined,
+  to: string | undefined,
+): ExportRange | string {
+  const range: ExportRange = {};
+  for (const [name, value] of [
+    ["from", from],
+    ["to", to],
+  ] as const) {
+    if (value === undefined || value === "") continue;
+    const ms = Date.parse(value);
+    if (Number.isNaN(ms)) return `Invalid ${name}`;
+    range[name] = new Date(ms).toISOString();
+  }
+  return range;
+}
+
+// Amounts come from the router's outcome event: Relayed and
+// FallbackTriggered carry the forwarded amount and the relay fee,
+// OperatorRouted the whole minted amount
+function exportRecord(relay: SettledRelay): ExportRecord {
+  const settled = relay.settledAmount;
+  const minted =
+    settled !== null && relay.settledRelayFee !== null
+      ? (BigInt(settled) + BigInt(relay.settledRelayFee)).toString()
+      : null;
+
+  return {
+    sourceDomain: relay.sourceDomain,
+    txHash: relay.txHash,
+    messageIndex: relay.messageIndex,
+    transferId: relay.transferId,
+    outcome: relay.outcome,
+    ethTxHash: relay.ethTxHash,
+    ethBlockNumber: relay.ethBlockNumber,
+    confirmedAt: relay.confirmedAt,
+    mintedAmount: minted,
+    relayFee: relay.settledRelayFee,
+    forwardAmount: relay.outcome === "forwarded" ? settled : null,
+    fallbackAmount: relay.outcome === "fallback" ? settled : null,
+    operatorRoutedAmount: relay.outcome === "operator_routed" ? settled : null,
+    operatorRouteReason: relay.operatorRouteReason,
+    gasCostEth:
+      relay.gasCostWei === null ? null : ethers.formatEther(relay.gasCostWei),
+    integratorId: relay.integratorId,
+  };
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function formatRecord(record: ExportRecord, format: ExportFormat): string {
+  return format === "csv"
+    ? COLUMNS.map((c) => csvField(record[c])).join(",") + "\n"
+    : JSON.stringify(record) + "\n";
+}
+
+// Write every settled relay in the range, oldest first, one page of
+// rows per chunk. `write` may return a promise to apply backpressure.
+// Resolves to the number of relays written.
+export async function writeSettledRelays(
+  store: Store,
+  range: ExportRange,
+  format: ExportFormat,
+  write: (chunk: string) => void | Promise<void>,
+): Promise<number> {
+  if (format === "csv") {
+    await write(COLUMNS.join(",") + "\n");
+  }
+
+  let count = 0;
+  let after: SettledRelayCursor | undefined;
+  while (true) {
+    const page = store.getSettledRelays(range, PAGE_SIZE, after);
+    if (page.length === 0) break;
+
+    await write(
+      page.map((relay) => formatRecord(exportRecord(relay), format)).join(""),
+    );
+    count += page.length;
+    if (page.length < PAGE_SIZE) break;
+
+    const last = page[page.length - 1];
+    after = { confirmedAt: last.confirmedAt, transferId: last.transferId };
+  }
+  return count;
+}
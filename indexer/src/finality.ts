@@ -0,0 +1,135 @@
+import type { Config } from "./config.js";
+import type { Finality, FinalityProfile } from "./types.js";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Highest minFinalityThreshold Circle attests as a fast transfer
+const FAST_FINALITY_THRESHOLD = 1000;
+
+// Chains with finality in seconds attest just as fast either way
+const SOFT_FINALITY: FinalityProfile = {
+  expectedLatencyMs: 20 * SECOND,
+  pollIntervalMs: 10 * SECOND,
+  timeoutMs: 10 * MINUTE,
+};
+
+// Rollups wait for Ethereum finality: ~13-19 minutes
+const ETHEREUM_FINALITY: FinalityProfile = {
+  expectedLatencyMs: 13 * MINUTE,
+  pollIntervalMs: 30 * SECOND,
+  timeoutMs: HOUR,
+};
+
+// Linea attests standard burns after 6-32 hours
+const LINEA_FINALITY: FinalityProfile = {
+  expectedLatencyMs: 6 * HOUR,
+  pollIntervalMs: 10 * MINUTE,
+  timeoutMs: 48 * HOUR,
+};
+
+// Standard-finality profile per source domain
+const STANDARD_PROFILES = new Map<number, FinalityProfile>([
+  [1, SOFT_FINALITY], // Avalanche
+  [2, ETHEREUM_FINALITY], // OP Mainnet
+  [3, ETHEREUM_FINALITY], // Arbitrum
+  [6, ETHEREUM_FINALITY], // Base
+  [7, SOFT_FINALITY], // Polygon PoS
+  [10, ETHEREUM_FINALITY], // Unichain
+  [11, LINEA_FINALITY], // Linea
+  [12, ETHEREUM_FINALITY], // Codex
+  [13, SOFT_FINALITY], // Sonic
+  [14, ETHEREUM_FINALITY], // World Chain
+  [15, SOFT_FINALITY], // Monad
+  [16, SOFT_FINALITY], // Sei
+  [18, SOFT_FINALITY], // XDC
+  [19, SOFT_FINALITY], // HyperEVM
+  [21, ETHEREUM_FINALITY], // Ink
+  [22, ETHEREUM_FINALITY], // Plume
+]);
+
+export function finalityOf(minFinalityThreshold: number | null): Finality {
+  return minFinalityThreshold !== null &&
+    minFinalityThreshold <= FAST_FINALITY_THRESHOLD
+    ? "fast"
+    : "standard";
+}
+
+// Profile for a request. A fast burn is expected within seconds, but
+// keeps the standard cadence and timeout: Circle attests it at standard
+// finality once the domain's fast allowance is used up. An unknown
+// threshold is treated as standard, so a slow burn is never failed early.
+export function finalityProfile(
+  config: Config,
+  sourceDomain: number,
+  minFinalityThreshold: number | null,
+): FinalityProfile {
+  const finality = finalityOf(minFinalityThreshold);
+  const override = config.finalityProfiles.get(`${sourceDomain}:${finality}`);
+  if (override) {
+    return override;
+  }
+
+  const standard =
+    config.finalityProfiles.get(`${sourceDomain}:standard`) ??
+    STANDARD_PROFILES.get(sourceDomain) ??
+    ETHEREUM_FINALITY;
+  return finality === "fast"
+    ? { ...standard, expectedLatencyMs: SOFT_FINALITY.expectedLatencyMs }
+    : standard;
+}
+
+// Wait before the poll that follows `attempts` answered polls: doubles
+// from POLL_BACKOFF_BASE_MS up to the profile's interval
+export function pollDelayMs(
+  config: Config,
+  profile: FinalityProfile,
+  attempts: number,
+): number {
+  return Math.min(
+    config.pollBackoffBaseMs * 2 ** Math.max(attempts - 1, 0),
+    profile.pollIntervalMs,
+  );
+}
+
+// Polls that fit in `windowMs` from the first one, none of the later
+// ones before `floorMs`. Config rejects zero delays; stopping when the
+// schedule no longer advances keeps a bad profile from hanging the loop.
+function pollsWithin(
+  config: Config,
+  profile: FinalityProfile,
+  windowMs: number,
+  floorMs: number,
+): number {
+  let elapsed = 0;
+  let polls = 1;
+  while (true) {
+    const next = Math.max(
+      elapsed + pollDelayMs(config, profile, polls),
+      floorMs,
+    );
+    if (next > windowMs || !(next > elapsed)) return polls;
+    elapsed = next;
+    polls++;
+  }
+}
+
+// Timeouts are counted in answered polls: the polls the profile's
+// schedule makes within its timeout
+export function pollBudget(config: Config, profile: FinalityProfile): number {
+  return pollsWithin(
+    config,
+    profile,
+    profile.timeoutMs,
+    profile.expectedLatencyMs,
+  );
+}
+
+// Polls before giving up on a transaction Iris has never heard of
+export function notFoundBudget(
+  config: Config,
+  profile: FinalityProfile,
+): number {
+  return pollsWithin(config, profile, config.irisNotFoundTimeoutMs, 0);
+}
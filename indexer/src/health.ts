@@ -0,0 +1,156 @@
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { jsonRpc } from "./rpc.js";
+import { irisStatus } from "./iris.js";
+
+type HeartbeatLoop = "poller" | "submitter";
+
+export interface HealthCheck {
+  ok: boolean;
+  detail: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: Record<string, HealthCheck>;
+}
+
+const MAINNET_CHAIN_ID = 1n;
+const SEPOLIA_CHAIN_ID = 11155111n;
+
+// Probes may run every few seconds; dependency checks are shared
+// between probes within this window
+const READINESS_CACHE_MS = 5_000;
+
+const heartbeats = new Map<HeartbeatLoop, number>();
+
+// Called by a loop at the top of every iteration
+export function heartbeat(loop: HeartbeatLoop): void {
+  heartbeats.set(loop, Date.now());
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Readiness of this relayer to take traffic: SQLite answers, the
+// Ethereum RPC is on the expected chain with fresh blocks, Iris is
+// reachable, the wallet can pay for gas, and the poller and submitter
+// are still iterating.
+export function createReadinessCheck(config: Config, store: Store) {
+  const walletAddress = new ethers.Wallet(config.relayerPrivateKey).address;
+  const expectedChainId = config.isTestnet ? SEPOLIA_CHAIN_ID : MAINNET_CHAIN_ID;
+  let cached: { readiness: Readiness; checkedAt: number } | null = null;
+
+  const rpc = <T>(method: string, params: unknown[]) =>
+    jsonRpc<T>(config.ethereumRpcUrl, method, params, config.healthCheckTimeoutMs);
+
+  async function checkChain(): Promise<HealthCheck> {
+    const chainId = BigInt(await rpc<string>("eth_chainId", []));
+    if (chainId !== expectedChainId) {
+      return {
+        ok: false,
+        detail: `chainId ${chainId}, expected ${expectedChainId} (IS_TESTNET=${config.isTestnet})`,
+      };
+    }
+    return { ok: true, detail: `chainId ${chainId}` };
+  }
+
+  async function checkLatestBlock(): Promise<HealthCheck> {
+    const block = await rpc<{ number: string; timestamp: string }>(
+      "eth_getBlockByNumber",
+      ["latest", false],
+    );
+    const ageMs = Date.now() - Number(BigInt(block.timestamp)) * 1000;
+    return {
+      ok: ageMs <= config.maxBlockAgeMs,
+      detail: `block ${BigInt(block.number)} is ${Math.round(ageMs / 1000)}s old`,
+    };
+  }
+
+  // Any HTTP answer counts: only the network path and server errors
+  // matter. An open breaker already knows Iris is down.
+  async function checkIris(): Promise<HealthCheck> {
+    const iris = irisStatus();
+    if (iris.circuit !== "closed") {
+      return {
+        ok: false,
+        detail: `circuit ${iris.circuit} since ${iris.unavailableSince}: ${iris.lastError}`,
+      };
+    }
+    const res = await fetch(config.irisApiBaseUrl, {
+      signal: AbortSignal.timeout(config.healthCheckTimeoutMs),
+    });
+    await res.body?.cancel();
+    return { ok: res.status < 500, detail: `HTTP ${res.status}` };
+  }
+
+  async function checkWallet(): Promise<HealthCheck> {
+    const balance = BigInt(
+      await rpc<string>("eth_getBalance", [walletAddress, "latest"]),
+    );
+    return {
+      ok: balance >= config.minWalletBalanceWei,
+      detail: `${ethers.formatEther(balance)} ETH (floor ${ethers.formatEther(config.minWalletBalanceWei)})`,
+    };
+  }
+
+  // The submitter may legitimately sit in tx.wait for up to
+  // confirmationTimeoutMs between iterations
+  function checkLoop(loop: HeartbeatLoop, staleMs: number): HealthCheck {
+    const last = heartbeats.get(loop);
+    if (last === undefined) {
+      return { ok: false, detail: "not started" };
+    }
+    const ageMs = Date.now() - last;
+    return {
+      ok: ageMs <= staleMs,
+      detail: `last iteration ${Math.round(ageMs / 1000)}s ago`,
+    };
+  }
+
+  function checkDatabase(): HealthCheck {
+    store.countRequestsByStatus();
+    return { ok: true, detail: "ok" };
+  }
+
+  async function run(
+    check: () => HealthCheck | Promise<HealthCheck>,
+  ): Promise<HealthCheck> {
+    try {
+      return await check();
+    } catch (err) {
+      return { ok: false, detail: errorMessage(err) };
+    }
+  }
+
+  return async function checkReadiness(): Promise<Readiness> {
+    if (cached && Date.now() - cached.checkedAt < READINESS_CACHE_MS) {
+      return cached.readiness;
+    }
+
+    const [database, chain, latestBlock, iris, wallet, poller, submitter] =
+      await Promise.all([
+        run(checkDatabase),
+        run(checkChain),
+        run(checkLatestBlock),
+        run(checkIris),
+        run(checkWallet),
+        run(() => checkLoop("poller", config.loopStaleMs)),
+        run(() =>
+          checkLoop(
+            "submitter",
+            config.loopStaleMs + config.confirmationTimeoutMs,
+          ),
+        ),
+      ]);
+    const checks = { database, chain, latestBlock, iris, wallet, poller, submitter };
+    const readiness: Readiness = {
+      ready: Object.values(checks).every((c) => c.ok),
+      checks,
+    };
+    cached = { readiness, checkedAt: Date.now() };
+    return readiness;
+  };
+}
@@ -0,0 +1,8 @@
+// Hex formats checked on input. Kept in a leaf module so that cctp.ts
+// and hookdata.ts can both use them without importing each other.
+
+// A 0x-prefixed 32-byte value: transaction hashes, nonces, transfer ids
+export const BYTES32_REGEX = /^0x[a-fA-F0-9]{64}$/;
+
+// 0x-prefixed bytes of any length, including none
+export const HEX_REGEX = /^0x([a-fA-F0-9]{2})*$/;
@@ -0,0 +1,157 @@
+import { ethers } from "ethers";
+import { BYTES32_REGEX, HEX_REGEX } from "./hex.js";
+
+// Mirrors the ForwardParams struct in contracts/XReserveRouter.sol,
+// carried ABI-encoded in the BurnMessageV2 hookData
+export interface ForwardParams {
+  fallbackRecipient: string;
+  remoteDomain: number;
+  remoteRecipient: string; // bytes32
+  maxFee: bigint;
+  relayMaxFee: bigint;
+  hookData: string;
+}
+
+const FORWARD_PARAMS_TYPE =
+  "tuple(address fallbackRecipient, uint32 remoteDomain, bytes32 remoteRecipient, uint256 maxFee, uint256 relayMaxFee, bytes hookData)";
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const UINT256_REGEX = /^\d{1,78}$/;
+
+// abi.encode(params) — what XReserveRouter.decodeForwardParams expects
+export function encodeForwardParams(params: ForwardParams): string {
+  return coder.encode([FORWARD_PARAMS_TYPE], [params]);
+}
+
+function isZero(bytes: Uint8Array): boolean {
+  return bytes.every((b) => b === 0);
+}
+
+// Decode hookData the way the router's abi.decode does, or return the
+// reason it would fail (and the transfer be operator-routed with reason 2).
+// ethers masks narrow types on decode, while Solidity reverts on dirty
+// high-order bits, so those are checked explicitly.
+export function decodeForwardParams(
+  hex: string,
+): { params: ForwardParams } | { error: string } {
+  const bytes = ethers.getBytes(hex);
+  if (bytes.length === 0) {
+    return { error: "empty hookData" };
+  }
+
+  let decoded: ethers.Result;
+  try {
+    decoded = coder.decode([FORWARD_PARAMS_TYPE], bytes)[0];
+  } catch (err) {
+    return {
+      error: `not ABI-encoded ForwardParams: ${err instanceof Error ? err.message.split(" (")[0] : String(err)}`,
+    };
+  }
+
+  const base = Number(ethers.toBigInt(bytes.slice(0, 32)));
+  if (!isZero(bytes.slice(base, base + 12))) {
+    return { error: "fallbackRecipient has dirty high-order bits" };
+  }
+  if (!isZero(bytes.slice(base + 32, base + 60))) {
+    return { error: "remoteDomain does not fit in uint32" };
+  }
+
+  return {
+    params: {
+      fallbackRecipient: ethers.getAddress(decoded.fallbackRecipient),
+      remoteDomain: Number(decoded.remoteDomain),
+      remoteRecipient: decoded.remoteRecipient,
+      maxFee: decoded.maxFee,
+      relayMaxFee: decoded.relayMaxFee,
+      hookData: decoded.hookData,
+    },
+  };
+}
+
+// Problems that would stop the relay or lose the transfer even though
+// the params decode. knownRemoteDomains is skipped when empty.
+export function checkForwardParams(
+  params: ForwardParams,
+  relayFee: bigint,
+  knownRemoteDomains: Set<number>,
+): string[] {
+  const issues: string[] = [];
+  if (params.fallbackRecipient === ethers.ZeroAddress) {
+    issues.push("fallbackRecipient is the zero address; the relay reverts with \"zero fallback\"");
+  }
+  if (params.relayMaxFee < relayFee) {
+    issues.push(
+      `relayMaxFee ${params.relayMaxFee} is below the relay fee ${relayFee}; the relay reverts with "relay fee exceeds max"`,
+    );
+  }
+  if (knownRemoteDomains.size > 0 && !knownRemoteDomains.has(params.remoteDomain)) {
+    issues.push(
+      `remoteDomain ${params.remoteDomain} is not a known xReserve domain; depositToRemote would fail and funds go to fallbackRecipient`,
+    );
+  }
+  return issues;
+}
+
+// Parse a POST /hook-data/encode body; returns an error message on bad input
+export function parseForwardParams(body: Record<string, unknown>): ForwardParams | string {
+  const {
+    fallbackRecipient,
+    remoteDomain,
+    remoteRecipient,
+    maxFee,
+    relayMaxFee,
+    hookData = "0x",
+  } = body;
+
+  if (typeof fallbackRecipient !== "string" || !ethers.isAddress(fallbackRecipient)) {
+    return "Invalid fallbackRecipient";
+  }
+  if (
+    typeof remoteDomain !== "number" ||
+    !Number.isInteger(remoteDomain) ||
+    remoteDomain < 0 ||
+    remoteDomain > 0xffffffff
+  ) {
+    return "Invalid remoteDomain";
+  }
+  if (typeof remoteRecipient !== "string" || !BYTES32_REGEX.test(remoteRecipient)) {
+    return "Invalid remoteRecipient (expected bytes32)";
+  }
+  for (const [name, value] of [
+    ["maxFee", maxFee],
+    ["relayMaxFee", relayMaxFee],
+  ] as const) {
+    if (
+      typeof value !== "string" ||
+      !UINT256_REGEX.test(value) ||
+      BigInt(value) > ethers.MaxUint256
+    ) {
+      return `Invalid ${name}`;
+    }
+  }
+  if (typeof hookData !== "string" || !HEX_REGEX.test(hookData)) {
+    return "Invalid hookData";
+  }
+
+  return {
+    fallbackRecipient: ethers.getAddress(fallbackRecipient),
+    remoteDomain,
+    remoteRecipient: remoteRecipient.toLowerCase(),
+    maxFee: BigInt(maxFee as string),
+    relayMaxFee: BigInt(relayMaxFee as string),
+    hookData: hookData.toLowerCase(),
+  };
+}
+
+// ForwardParams with amounts as decimal strings, for JSON responses
+export function forwardParamsJson(params: ForwardParams) {
+  return {
+    fallbackRecipient: params.fallbackRecipient,
+    remoteDomain: params.remoteDomain,
+    remoteRecipient: params.remoteRecipient,
+    maxFee: params.maxFee.toString(),
+    relayMaxFee: params.relayMaxFee.toString(),
+    hookData: params.hookData,
+  };
+}
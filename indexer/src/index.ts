@@ -3,8 +3,12 @@ import { dirname } from "node:path";
 import { loadConfig } from "./config.js";
 import { createStore } from "./store.js";
 import { createApiServer } from "./api.js";
+import { closeWebSockets, routeUpgrades } from "./stream.js";
 import { startPoller } from "./poller.js";
 import { startSubmitter } from "./submitter.js";
+import { startReconciler } from "./reconciler.js";
+import { startWebhookDispatcher } from "./webhooks.js";
+import { initMetrics } from "./metrics.js";
 
 const config = loadConfig();
 
@@ -12,22 +16,29 @@ const config = loadConfig();
 mkdirSync(dirname(config.dbPath), { recursive: true });
 
 const store = createStore(config.dbPath);
+initMetrics(config, store);
 
 // Start HTTP API
 const app = createApiServer(config, store);
 const server = app.listen(config.apiPort, () => {
   console.log(`HTTP API listening on port ${config.apiPort}`);
 });
+routeUpgrades(server, app);
 
 // Start background loops
 startPoller(config, store);
 startSubmitter(config, store);
+startReconciler(config, store);
+if (config.webhookSecrets.length > 0) {
+  startWebhookDispatcher(config, store);
+}
 
 console.log("XReserve Relay Indexer started");
 
 // Graceful shutdown
 function shutdown() {
   console.log("Shutting down...");
+  closeWebSockets();
   server.close(() => {
     console.log("HTTP server closed");
     process.exit(0);
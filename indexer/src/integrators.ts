@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import rateLimit, { type Options } from "express-rate-limit";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { VALID_SOURCE_DOMAINS } from "./cctp.js";
+import type {
+  Integrator,
+  RelayListFilter,
+  RelayOutcome,
+  RelayStatus,
+} from "./types.js";
+
+const KEY_PREFIX = "xr_";
+
+// Characters of a key kept in clear to tell keys apart in listings
+const KEY_PREFIX_LENGTH = 10;
+
+const STATUSES: RelayStatus[] = [
+  "pending",
+  "polling",
+  "attested",
+  "submitted",
+  "confirmed",
+  "failed",
+  "resolved",
+];
+
+const OUTCOMES: RelayOutcome[] = ["forwarded", "fallback", "operator_routed"];
+
+const AMOUNT_REGEX = /^\d{1,18}$/;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString("hex");
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+  };
+}
+
+// The integrator resolved by integratorAuth, null for anonymous callers
+export function integratorOf(res: Response): Integrator | null {
+  return (res.locals.integrator as Integrator | null | undefined) ?? null;
+}
+
+// Relay fee charged to a caller: its override, or the configured fee
+export function relayFeeFor(config: Config, integrator: Integrator | null): bigint {
+  return integrator?.relayFee ? BigInt(integrator.relayFee) : config.relayFee;
+}
+
+// Resolve the caller's API key (Bearer token or X-API-Key header). No key
+// means the anonymous tier; an unknown or revoked key is rejected rather
+// than silently downgraded. Keys are random, so a plain hash lookup is
+// enough.
+export function integratorAuth(store: Store) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get("authorization");
+    const key = header?.startsWith("Bearer ")
+      ? header.slice("Bearer ".length).trim()
+      : req.get("x-api-key");
+    if (!key) {
+      res.locals.integrator = null;
+      next();
+      return;
+    }
+
+    const integrator = store.getIntegratorByKeyHash(hashApiKey(key));
+    if (!integrator) {
+      res.status(401).json({ error: "Invalid API key" });
+      return;
+    }
+    res.locals.integrator = integrator;
+    next();
+  };
+}
+
+// A limit of `limit` requests per second, per IP unless keyed otherwise.
+// Every API limit goes through here so windows and headers stay alike.
+export function perSecondRateLimit(
+  options: Pick<Partial<Options>, "limit" | "keyGenerator">,
+) {
+  return rateLimit({
+    windowMs: 1000,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    ...options,
+  });
+}
+
+// Per-second quota per integrator; anonymous callers share the
+// anonymous limit per IP
+export function integratorRateLimit(config: Config) {
+  return perSecondRateLimit({
+    limit: (_req: Request, res: Response) =>
+      integratorOf(res)?.requestsPerSecond ?? config.anonRequestsPerSecond,
+    keyGenerator: (req: Request, res: Response) => {
+      const integrator = integratorOf(res);
+      return integrator ? `integrator:${integrator.id}` : `ip:${req.ip}`;
+    },
+  });
+}
+
+// Parse GET /relays query parameters; returns an error message on bad input
+export function parseListFilter(
+  query: Request["query"],
+): RelayListFilter | string {
+  const str = (name: string): string | undefined => {
+    const value = query[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+  const time = (name: string): string | undefined | null => {
+    const value = str(name);
+    if (value === undefined) return undefined;
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+  };
+
+  const filter: RelayListFilter = {};
+
+  const statuses = str("status")?.split(",");
+  if (statuses) {
+    if (!statuses.every((s) => STATUSES.includes(s as RelayStatus))) {
+      return "Invalid status";
+    }
+    filter.statuses = statuses as RelayStatus[];
+  }
+
+  const outcomes = str("outcome")?.split(",");
+  if (outcomes) {
+    if (!outcomes.every((o) => OUTCOMES.includes(o as RelayOutcome))) {
+      return "Invalid outcome";
+    }
+    filter.outcomes = outcomes as RelayOutcome[];
+  }
+
+  const sourceDomain = str("sourceDomain");
+  if (sourceDomain !== undefined) {
+    if (!VALID_SOURCE_DOMAINS.has(Number(sourceDomain))) {
+      return "Invalid sourceDomain";
+    }
+    filter.sourceDomain = Number(sourceDomain);
+  }
+
+  for (const [name, key] of [
+    ["createdFrom", "createdFrom"],
+    ["createdTo", "createdTo"],
+    ["confirmedFrom", "confirmedFrom"],
+    ["confirmedTo", "confirmedTo"],
+  ] as const) {
+    const value = time(name);
+    if (value === null) return `Invalid ${name}`;
+    if (value !== undefined) filter[key] = value;
+  }
+
+  for (const [name, key] of [
+    ["minAmount", "minAmount"],
+    ["maxAmount", "maxAmount"],
+  ] as const) {
+    const value = str(name);
+    if (value === undefined) continue;
+    if (!AMOUNT_REGEX.test(value)) return `Invalid ${name}`;
+    filter[key] = BigInt(value);
+  }
+
+  const error = str("error");
+  if (error !== undefined) {
+    filter.errorContains = error;
+  }
+
+  const integrator = str("integrator");
+  if (integrator !== undefined) {
+    filter.integratorId = integrator;
+  }
+
+  return filter;
+}
@@ -0,0 +1,311 @@
+import type { Config } from "./config.js";
+import { irisRateLimiter } from "./ratelimit.js";
+import {
+  irisBackoff,
+  irisCircuitOpen,
+  irisLimiterWait,
+  irisRequests,
+  irisRetries,
+} from "./metrics.js";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// One entry of GET /v2/messages/{domain}
+export interface IrisMessage {
+  message: string; // "0x" until Iris has decoded the burn
+  attestation: string; // "PENDING" until complete
+  eventNonce: string;
+  status: string; // "complete" or "pending_confirmations"
+}
+
+// Outcome of one lookup. "unavailable" is no answer about the
+// transaction (Iris down, rate limited, or the breaker open);
+// "invalid" is an answer that failed validation.
+export type IrisLookup =
+  | { kind: "found"; messages: IrisMessage[] }
+  | { kind: "not_found" }
+  | { kind: "invalid"; reason: string }
+  | { kind: "unavailable"; reason: string };
+
+export type IrisCircuit = "closed" | "open" | "half_open";
+
+export interface IrisStatus {
+  circuit: IrisCircuit;
+  consecutiveFailures: number;
+  lastError: string | null;
+  unavailableSince: string | null; // when the breaker opened
+  retryAt: string | null; // no calls before this (breaker or Retry-After)
+}
+
+// Result of a single HTTP call, before retries
+type IrisAttempt =
+  | { kind: "answer"; lookup: IrisLookup }
+  | { kind: "rate_limited"; retryAfterMs: number }
+  | { kind: "failure"; reason: string; retryAfterMs: number | null };
+
+// First jittered retry waits up to this, doubling per retry
+const RETRY_BASE_MS = 500;
+// Wait after a 429 without Retry-After
+const RATE_LIMIT_BACKOFF_MS = 60_000;
+// A bogus Retry-After must not stop polling for hours
+const MAX_RETRY_AFTER_MS = 10 * 60_000;
+
+const HEX = /^0x([0-9a-fA-F]{2})*$/;
+
+// Breaker state is shared by every caller, like the token bucket
+let circuit: IrisCircuit = "closed";
+let consecutiveFailures = 0;
+let lastError: string | null = null;
+let openedAt: number | null = null;
+let blockedUntil = 0;
+let probing = false;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Seconds or an HTTP date; null when absent or unparseable
+function parseRetryAfter(header: string | null): number | null {
+  if (header === null || header.trim() === "") return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(header) - Date.now();
+  if (Number.isNaN(ms)) return null;
+  return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+// Check the /v2/messages body; returns an error message on bad input.
+// Pending entries may lack a decoded message or nonce, complete ones
+// must carry both with the attestation.
+function parseMessages(body: unknown): IrisMessage[] | string {
+  if (typeof body !== "object" || body === null) {
+    return "body is not an object";
+  }
+  const { messages } = body as { messages?: unknown };
+  if (messages === undefined) return [];
+  if (!Array.isArray(messages)) return "messages is not an array";
+
+  const parsed: IrisMessage[] = [];
+  for (const [i, entry] of messages.entries()) {
+    if (typeof entry !== "object" || entry === null) {
+      return `messages[${i}] is not an object`;
+    }
+    const { message, attestation, eventNonce, status } = entry as Record<
+      string,
+      unknown
+    >;
+    if (typeof status !== "string") return `messages[${i}].status is missing`;
+    if (typeof attestation !== "string") {
+      return `messages[${i}].attestation is missing`;
+    }
+    if (status === "complete") {
+      if (typeof message !== "string" || !HEX.test(message)) {
+        return `messages[${i}].message is not hex`;
+      }
+      if (attestation !== "PENDING" && !HEX.test(attestation)) {
+        return `messages[${i}].attestation is not hex`;
+      }
+      if (typeof eventNonce !== "string" || eventNonce === "") {
+        return `messages[${i}].eventNonce is missing`;
+      }
+    }
+    parsed.push({
+      message: typeof message === "string" ? message : "0x",
+      attestation,
+      eventNonce: typeof eventNonce === "string" ? eventNonce : "",
+      status,
+    });
+  }
+  return parsed;
+}
+
+async function send(config: Config, url: string): Promise<IrisAttempt> {
+  const waitStart = Date.now();
+  await irisRateLimiter.acquire();
+  irisLimiterWait.observe((Date.now() - waitStart) / 1000);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      signal: AbortSignal.timeout(config.irisTimeoutMs),
+    });
+  } catch (err) {
+    irisRequests.inc({ status: "error" });
+    return { kind: "failure", reason: errorMessage(err), retryAfterMs: null };
+  }
+  irisRequests.inc({ status: String(response.status) });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    if (response.status === 429) {
+      return {
+        kind: "rate_limited",
+        retryAfterMs: retryAfterMs ?? RATE_LIMIT_BACKOFF_MS,
+      };
+    }
+    if (response.status >= 500) {
+      return {
+        kind: "failure",
+        reason: `HTTP ${response.status}`,
+        retryAfterMs,
+      };
+    }
+    // 404 until Iris has indexed the transaction
+    return {
+      kind: "answer",
+      lookup:
+        response.status === 404
+          ? { kind: "not_found" }
+          : { kind: "invalid", reason: `HTTP ${response.status}` },
+    };
+  }
+
+  // A timeout while reading, or a proxy's error page, is no answer
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (err) {
+    return {
+      kind: "failure",
+      reason: `unreadable response: ${errorMessage(err)}`,
+      retryAfterMs: null,
+    };
+  }
+
+  const messages = parseMessages(body);
+  if (typeof messages === "string") {
+    return { kind: "answer", lookup: { kind: "invalid", reason: messages } };
+  }
+  return {
+    kind: "answer",
+    lookup:
+      messages.length === 0
+        ? { kind: "not_found" }
+        : { kind: "found", messages },
+  };
+}
+
+function recordSuccess(): void {
+  if (circuit !== "closed" && openedAt !== null) {
+    console.log(
+      `Iris recovered after ${Math.round((Date.now() - openedAt) / 1000)}s unavailable`,
+    );
+  }
+  circuit = "closed";
+  consecutiveFailures = 0;
+  lastError = null;
+  openedAt = null;
+  irisCircuitOpen.set(0);
+}
+
+// Opens the breaker after irisBreakerThreshold failures in a row, or
+// when the half-open probe fails. Only the first opening is logged.
+function recordFailure(
+  config: Config,
+  reason: string,
+  retryAfterMs: number | null,
+): void {
+  consecutiveFailures++;
+  lastError = reason;
+
+  if (
+    circuit === "half_open" ||
+    consecutiveFailures >= config.irisBreakerThreshold
+  ) {
+    if (circuit === "closed") {
+      console.warn(
+        `Iris unavailable after ${consecutiveFailures} failed calls (${reason}); pausing polls`,
+      );
+      openedAt = Date.now();
+    }
+    circuit = "open";
+    blockedUntil =
+      Date.now() + Math.max(config.irisBreakerCooldownMs, retryAfterMs ?? 0);
+    irisCircuitOpen.set(1);
+  } else if (retryAfterMs !== null) {
+    blockedUntil = Date.now() + retryAfterMs;
+  }
+}
+
+// 429 means Iris is up but we are over its limit: wait, without
+// counting a failure
+function recordRateLimit(retryAfterMs: number): void {
+  console.warn(
+    `Rate limited by Iris, backing off ${Math.round(retryAfterMs / 1000)}s`,
+  );
+  irisBackoff.inc(retryAfterMs / 1000);
+  blockedUntil = Date.now() + retryAfterMs;
+}
+
+// Whether a lookup would be sent now
+export function irisAvailable(): boolean {
+  return Date.now() >= blockedUntil && !probing;
+}
+
+export function irisStatus(): IrisStatus {
+  return {
+    circuit,
+    consecutiveFailures,
+    lastError,
+    unavailableSince:
+      openedAt === null ? null : new Date(openedAt).toISOString(),
+    retryAt:
+      blockedUntil > Date.now() ? new Date(blockedUntil).toISOString() : null,
+  };
+}
+
+// Every message Iris reports for the transaction, complete or not.
+// Network errors, timeouts and 5xx are retried with jitter up to
+// irisMaxRetries times; a Retry-After stops the retries and holds every
+// lookup until it passes. Once the breaker is open, lookups return
+// "unavailable" without calling Iris until the cooldown ends, then a
+// single probe decides whether it closes again.
+export async function fetchIrisMessages(
+  config: Config,
+  sourceDomain: number,
+  txHash: string,
+): Promise<IrisLookup> {
+  if (!irisAvailable()) {
+    return {
+      kind: "unavailable",
+      reason: circuit === "closed" ? "backing off" : "circuit open",
+    };
+  }
+  if (circuit === "open") {
+    circuit = "half_open";
+  }
+  probing = circuit === "half_open";
+
+  const url = `${config.irisApiBaseUrl}/v2/messages/${sourceDomain}?transactionHash=${txHash}`;
+  try {
+    for (let retry = 0; ; retry++) {
+      const attempt = await send(config, url);
+
+      if (attempt.kind === "answer") {
+        recordSuccess();
+        return attempt.lookup;
+      }
+      if (attempt.kind === "rate_limited") {
+        recordRateLimit(attempt.retryAfterMs);
+        return { kind: "unavailable", reason: "rate limited" };
+      }
+      if (
+        attempt.retryAfterMs !== null ||
+        retry >= config.irisMaxRetries ||
+        circuit === "half_open"
+      ) {
+        recordFailure(config, attempt.reason, attempt.retryAfterMs);
+        return { kind: "unavailable", reason: attempt.reason };
+      }
+
+      irisRetries.inc();
+      await sleep(Math.random() * RETRY_BASE_MS * 2 ** retry);
+    }
+  } finally {
+    probing = false;
+  }
+}
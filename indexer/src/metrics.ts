@@ -0,0 +1,193 @@
+import { ethers } from "ethers";
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { jsonRpc } from "./rpc.js";
+
+// Scrapes come every 15-60s; the balance need not be fresher
+const BALANCE_CACHE_MS = 30_000;
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// Filled in by the Iris client
+
+export const irisRequests = new Counter({
+  name: "iris_requests_total",
+  help: "Iris API requests by HTTP status (\"error\" when no response)",
+  labelNames: ["status"],
+  registers: [registry],
+});
+
+export const irisLimiterWait = new Histogram({
+  name: "iris_rate_limiter_wait_seconds",
+  help: "Time spent waiting for an Iris rate limiter token",
+  buckets: [0.001, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 5],
+  registers: [registry],
+});
+
+export const irisBackoff = new Counter({
+  name: "iris_rate_limited_backoff_seconds_total",
+  help: "Time the poller spent backing off after Iris 429 responses",
+  registers: [registry],
+});
+
+export const irisRetries = new Counter({
+  name: "iris_retries_total",
+  help: "Iris calls retried after a network error, timeout or 5xx",
+  registers: [registry],
+});
+
+export const irisCircuitOpen = new Gauge({
+  name: "iris_circuit_open",
+  help: "1 while the Iris circuit breaker is open or probing, 0 when closed",
+  registers: [registry],
+});
+
+// Filled in by the submitter and reconciler
+
+export const gasUsed = new Histogram({
+  name: "relay_gas_used",
+  help: "Gas used per relay transaction",
+  buckets: [100_000, 150_000, 200_000, 250_000, 300_000, 400_000, 500_000, 750_000, 1_000_000],
+  registers: [registry],
+});
+
+export const gasPrice = new Histogram({
+  name: "relay_gas_price_gwei",
+  help: "Effective gas price per relay transaction",
+  buckets: [0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500],
+  registers: [registry],
+});
+
+export const submissionFailures = new Counter({
+  name: "relay_submission_failures_total",
+  help: "Failed submission attempts by revert reason",
+  labelNames: ["reason"],
+  registers: [registry],
+});
+
+const stageDuration = new Histogram({
+  name: "relay_stage_duration_seconds",
+  help: "Time spent in each relay stage (attestation: created→attested, submission: attested→submitted, confirmation: submitted→confirmed)",
+  labelNames: ["stage"],
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600],
+  registers: [registry],
+});
+
+const MAX_REASON_LENGTH = 64;
+
+// Low-cardinality label for a submission error: the router's revert
+// string when there is one, otherwise a coarse category.
+export function failureReason(message: string): string {
+  const revert =
+    message.match(/execution reverted: "([^"]+)"/) ??
+    message.match(/reverted with reason string '([^']+)'/);
+  if (revert) {
+    return revert[1].slice(0, MAX_REASON_LENGTH);
+  }
+  if (message.startsWith("Tx reverted")) return "tx_reverted";
+  if (message.startsWith("Tx dropped")) return "tx_dropped";
+  if (message.startsWith("Tx replaced")) return "tx_replaced";
+  if (message.includes("insufficient funds")) return "insufficient_funds";
+  if (message.includes("timeout")) return "timeout";
+  if (message.startsWith("Gas estimation failed")) return "estimate_gas";
+  return "other";
+}
+
+export function recordReceiptGas(receipt: ethers.TransactionReceipt): void {
+  gasUsed.observe(Number(receipt.gasUsed));
+  gasPrice.observe(Number(ethers.formatUnits(receipt.gasPrice, "gwei")));
+}
+
+export function observeStage(
+  stage: "attestation" | "submission" | "confirmation",
+  from: string | null,
+  to: string,
+): void {
+  if (from) {
+    stageDuration.observe(
+      { stage },
+      (new Date(to).getTime() - new Date(from).getTime()) / 1000,
+    );
+  }
+}
+
+// Gauges read from the store and the chain at scrape time
+export function initMetrics(config: Config, store: Store): void {
+  const walletAddress = new ethers.Wallet(config.relayerPrivateKey).address;
+  let balanceCheckedAt = 0;
+
+  new Gauge({
+    name: "relay_requests",
+    help: "Relay requests by status",
+    labelNames: ["status"],
+    registers: [registry],
+    collect() {
+      this.reset();
+      for (const [status, count] of Object.entries(store.countRequestsByStatus())) {
+        this.set({ status }, count);
+      }
+    },
+  });
+
+  new Gauge({
+    name: "relay_jobs",
+    help: "Relay jobs by status",
+    labelNames: ["status"],
+    registers: [registry],
+    collect() {
+      this.reset();
+      for (const [status, count] of Object.entries(store.countByStatus())) {
+        this.set({ status }, count);
+      }
+    },
+  });
+
+  new Gauge({
+    name: "relay_jobs_by_outcome",
+    help: "Settled relay jobs by outcome",
+    labelNames: ["outcome"],
+    registers: [registry],
+    collect() {
+      this.reset();
+      for (const [outcome, count] of Object.entries(store.countByOutcome())) {
+        this.set({ outcome }, count);
+      }
+    },
+  });
+
+  // One bounded eth_getBalance per BALANCE_CACHE_MS, so a down RPC
+  // cannot hold up the scrape. Keeps the last known balance if the call
+  // fails.
+  new Gauge({
+    name: "relay_wallet_balance_eth",
+    help: "Relayer wallet ETH balance",
+    registers: [registry],
+    async collect() {
+      if (Date.now() - balanceCheckedAt < BALANCE_CACHE_MS) {
+        return;
+      }
+      balanceCheckedAt = Date.now();
+      try {
+        const balance = await jsonRpc<string>(
+          config.ethereumRpcUrl,
+          "eth_getBalance",
+          [walletAddress, "latest"],
+          config.healthCheckTimeoutMs,
+        );
+        this.set(Number(ethers.formatEther(BigInt(balance))));
+      } catch (err) {
+        console.error(
+          `Metrics: wallet balance lookup failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    },
+  });
+}
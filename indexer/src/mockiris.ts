@@ -0,0 +1,583 @@
+import express, { type Request, type Response } from "express";
+import { ethers } from "ethers";
+import {
+  encodeMessage,
+  nonceOfMessage,
+  MIN_FINALITY_OFFSET,
+} from "./cctp.js";
+import { BYTES32_REGEX, HEX_REGEX } from "./hex.js";
+import { encodeForwardParams } from "./hookdata.js";
+import { jsonRpc } from "./rpc.js";
+
+// Stand-in for Circle's Iris API, for offline development: serves
+// GET /v2/messages/:domain?transactionHash= from fixtures or from
+// MessageSent events on local chains, with scripted responses per
+// transaction. Controlled over /mock (see RUNNING.md).
+
+export type MockResponseKind =
+  | "not_found"
+  | "pending"
+  | "complete"
+  | "rate_limited"
+  | "error"
+  | "malformed";
+
+// One scripted response. A step lasts `times` lookups or `forMs` from
+// its first lookup (one lookup when neither is set); a transaction's
+// last step repeats.
+export interface MockStep {
+  respond: MockResponseKind;
+  times?: number;
+  forMs?: number;
+  delayMs?: number; // hold the response, e.g. to trip client timeouts
+  status?: number; // error: HTTP status, default 503
+  retryAfter?: number; // rate_limited, error: Retry-After seconds
+  messages?: number; // complete: only the first n attested, rest pending
+  body?: unknown; // malformed: JSON body sent with 200
+  raw?: string; // malformed: raw text sent with 200 instead
+}
+
+// ForwardParams with amounts as decimal strings, as in fixture files
+export interface MockForwardParams {
+  fallbackRecipient: string;
+  remoteDomain: number;
+  remoteRecipient: string;
+  maxFee: string;
+  relayMaxFee: string;
+  hookData?: string;
+}
+
+// A burn to build the message from; unset fields take the defaults in
+// burnMessage
+export interface MockBurn {
+  amount: string;
+  mintRecipient?: string; // default: the router
+  destinationCaller?: string; // default: the router
+  messageSender?: string;
+  minFinalityThreshold?: number;
+  maxFee?: string;
+  feeExecuted?: string;
+  hookData?: string | MockForwardParams;
+}
+
+export interface MockTransactionSpec {
+  sourceDomain: number;
+  txHash: string;
+  // Messages as emitted on the source chain (hex) or burns to encode;
+  // omitted to read them from the domain's chain
+  messages?: (string | MockBurn)[];
+  steps?: MockStep[];
+}
+
+export interface MockIrisOptions {
+  fixtures: MockTransactionSpec[];
+  rpcUrls: Map<number, string>; // source chains to read MessageSent from
+  attestAfterMs: number; // chain transactions stay pending this long
+  attesterKey: string; // signs attestations
+  routerAddress: string | null; // default burn recipient and caller
+}
+
+interface MockTransaction {
+  spec: MockTransactionSpec;
+  messages: string[] | null; // as emitted, null until read from the chain
+  stepIndex: number;
+  stepServed: number;
+  stepStartedAt: number | null;
+  lookups: number;
+}
+
+const BYTES32_ZERO = ethers.ZeroHash;
+const RPC_TIMEOUT_MS = 5_000;
+
+const RESPONSE_KINDS: MockResponseKind[] = [
+  "not_found",
+  "pending",
+  "complete",
+  "rate_limited",
+  "error",
+  "malformed",
+];
+
+// TokenMessengerV2, the sender and recipient of every burn message
+const TOKEN_MESSENGER_BYTES32 = ethers.zeroPadValue(
+  "0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d",
+  32,
+);
+const USDC_BYTES32 = ethers.zeroPadValue(
+  "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  32,
+);
+
+// Highest minFinalityThreshold attested as fast, and what Iris reports
+// as executed for fast and standard burns
+const FAST_FINALITY_THRESHOLD = 1000;
+const FINALITY_EXECUTED_OFFSET = 144;
+
+const MESSAGE_SENT_TOPIC0 = ethers.id("MessageSent(bytes)");
+
+interface RpcReceipt {
+  logs: { topics: string[]; data: string }[];
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+// Validate one step; returns an error message on bad input
+function checkStep(step: unknown, at: string): string | null {
+  if (typeof step !== "object" || step === null) {
+    return `${at} must be an object`;
+  }
+  const s = step as Record<string, unknown>;
+  if (!RESPONSE_KINDS.includes(s.respond as MockResponseKind)) {
+    return `${at}.respond must be one of ${RESPONSE_KINDS.join(", ")}`;
+  }
+  for (const field of ["times", "forMs", "delayMs", "retryAfter", "messages"]) {
+    if (s[field] !== undefined && !isNonNegativeInteger(s[field])) {
+      return `${at}.${field} must be a non-negative integer`;
+    }
+  }
+  if (
+    s.status !== undefined &&
+    !(isNonNegativeInteger(s.status) && (s.status as number) >= 400)
+  ) {
+    return `${at}.status must be an HTTP error status`;
+  }
+  if (s.raw !== undefined && typeof s.raw !== "string") {
+    return `${at}.raw must be a string`;
+  }
+  return null;
+}
+
+function checkBurn(burn: unknown, at: string): string | null {
+  if (typeof burn === "string") {
+    return HEX_REGEX.test(burn) ? null : `${at} must be hex`;
+  }
+  if (typeof burn !== "object" || burn === null) {
+    return `${at} must be a hex message or a burn`;
+  }
+  const b = burn as Record<string, unknown>;
+  if (typeof b.amount !== "string" || !/^\d+$/.test(b.amount)) {
+    return `${at}.amount must be a decimal string`;
+  }
+  for (const field of ["mintRecipient", "destinationCaller", "messageSender"]) {
+    if (b[field] !== undefined && !ethers.isAddress(b[field])) {
+      return `${at}.${field} must be an address`;
+    }
+  }
+  if (
+    b.minFinalityThreshold !== undefined &&
+    !isNonNegativeInteger(b.minFinalityThreshold)
+  ) {
+    return `${at}.minFinalityThreshold must be a non-negative integer`;
+  }
+  if (
+    b.hookData !== undefined &&
+    typeof b.hookData !== "object" &&
+    !(typeof b.hookData === "string" && HEX_REGEX.test(b.hookData))
+  ) {
+    return `${at}.hookData must be hex or ForwardParams`;
+  }
+  return null;
+}
+
+// Validate a transaction spec (fixture entry or PUT body); returns an
+// error message on bad input
+export function checkTransactionSpec(spec: unknown, at: string): string | null {
+  if (typeof spec !== "object" || spec === null) {
+    return `${at} must be an object`;
+  }
+  const s = spec as Record<string, unknown>;
+  if (!isNonNegativeInteger(s.sourceDomain)) {
+    return `${at}.sourceDomain must be a non-negative integer`;
+  }
+  if (typeof s.txHash !== "string" || !BYTES32_REGEX.test(s.txHash)) {
+    return `${at}.txHash must be a 32-byte hex string`;
+  }
+  if (s.messages !== undefined) {
+    if (!Array.isArray(s.messages)) return `${at}.messages must be an array`;
+    for (const [i, burn] of s.messages.entries()) {
+      const error = checkBurn(burn, `${at}.messages[${i}]`);
+      if (error) return error;
+    }
+  }
+  if (s.steps !== undefined) {
+    if (!Array.isArray(s.steps) || s.steps.length === 0) {
+      return `${at}.steps must be a non-empty array`;
+    }
+    for (const [i, step] of s.steps.entries()) {
+      const error = checkStep(step, `${at}.steps[${i}]`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+// Fixture file: { "transactions": [MockTransactionSpec, ...] }
+export function parseFixtures(json: unknown): MockTransactionSpec[] | string {
+  const transactions = (json as { transactions?: unknown } | null)
+    ?.transactions;
+  if (!Array.isArray(transactions)) {
+    return "fixtures must have a transactions array";
+  }
+  for (const [i, spec] of transactions.entries()) {
+    const error = checkTransactionSpec(spec, `transactions[${i}]`);
+    if (error) return error;
+  }
+  return transactions as MockTransactionSpec[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function key(sourceDomain: number, txHash: string): string {
+  return `${sourceDomain}:${txHash.toLowerCase()}`;
+}
+
+export function createMockIris(options: MockIrisOptions): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  const attester = new ethers.SigningKey(options.attesterKey);
+  const transactions = new Map<string, MockTransaction>();
+  let global: { step: MockStep; served: number; startedAt: number } | null =
+    null;
+
+  // Burns default to a standard transfer of USDC to the router
+  function burnMessage(sourceDomain: number, burn: MockBurn): string {
+    const router = options.routerAddress ?? ethers.ZeroAddress;
+    const hookData =
+      burn.hookData === undefined || typeof burn.hookData === "string"
+        ? (burn.hookData ?? "0x")
+        : encodeForwardParams({
+            ...burn.hookData,
+            maxFee: BigInt(burn.hookData.maxFee),
+            relayMaxFee: BigInt(burn.hookData.relayMaxFee),
+            hookData: burn.hookData.hookData ?? "0x",
+          });
+
+    return encodeMessage({
+      version: 1,
+      sourceDomain,
+      destinationDomain: 0,
+      nonce: BYTES32_ZERO,
+      sender: TOKEN_MESSENGER_BYTES32,
+      recipient: TOKEN_MESSENGER_BYTES32,
+      destinationCaller: ethers.zeroPadValue(
+        burn.destinationCaller ?? router,
+        32,
+      ),
+      minFinalityThreshold: burn.minFinalityThreshold ?? 2000,
+      finalityThresholdExecuted: 0,
+      burn: {
+        version: 1,
+        burnToken: USDC_BYTES32,
+        mintRecipient: ethers.zeroPadValue(burn.mintRecipient ?? router, 32),
+        amount: burn.amount,
+        messageSender: ethers.zeroPadValue(
+          burn.messageSender ?? ethers.ZeroAddress,
+          32,
+        ),
+        maxFee: burn.maxFee ?? "0",
+        feeExecuted: burn.feeExecuted ?? "0",
+        expirationBlock: "0",
+        hookData,
+      },
+    });
+  }
+
+  function addTransaction(spec: MockTransactionSpec): void {
+    transactions.set(key(spec.sourceDomain, spec.txHash), {
+      spec,
+      messages:
+        spec.messages?.map((m) =>
+          typeof m === "string" ? m : burnMessage(spec.sourceDomain, m),
+        ) ?? null,
+      stepIndex: 0,
+      stepServed: 0,
+      stepStartedAt: null,
+      lookups: 0,
+    });
+  }
+
+  function reset(): void {
+    transactions.clear();
+    global = null;
+    for (const spec of options.fixtures) addTransaction(spec);
+  }
+  reset();
+
+  // MessageSent events of a source transaction; null when the chain
+  // has no such transaction (yet)
+  async function chainMessages(
+    sourceDomain: number,
+    txHash: string,
+  ): Promise<string[] | null> {
+    const url = options.rpcUrls.get(sourceDomain);
+    if (!url) return null;
+    const receipt = await jsonRpc<RpcReceipt | null>(
+      url,
+      "eth_getTransactionReceipt",
+      [txHash],
+      RPC_TIMEOUT_MS,
+    );
+    if (!receipt) return null;
+    return receipt.logs
+      .filter((log) => log.topics[0] === MESSAGE_SENT_TOPIC0)
+      .map((log) =>
+        ethers.AbiCoder.defaultAbiCoder()
+          .decode(["bytes"], log.data)[0]
+          .toString(),
+      );
+  }
+
+  // A transaction seen on the chain waits attestAfterMs, then attests
+  async function lookup(
+    sourceDomain: number,
+    txHash: string,
+  ): Promise<MockTransaction | null> {
+    let tx = transactions.get(key(sourceDomain, txHash));
+    if (!tx) {
+      const messages = await chainMessages(sourceDomain, txHash);
+      if (!messages || messages.length === 0) return null;
+      addTransaction({
+        sourceDomain,
+        txHash,
+        steps: [
+          { respond: "pending", forMs: options.attestAfterMs },
+          { respond: "complete" },
+        ],
+      });
+      tx = transactions.get(key(sourceDomain, txHash))!;
+      tx.messages = messages;
+    } else if (tx.messages === null) {
+      tx.messages = await chainMessages(sourceDomain, txHash);
+    }
+    return tx;
+  }
+
+  function currentStep(tx: MockTransaction, now: number): MockStep {
+    const steps = tx.spec.steps ?? [{ respond: "complete" }];
+    while (tx.stepIndex < steps.length - 1) {
+      const step = steps[tx.stepIndex];
+      const done =
+        step.times !== undefined
+          ? tx.stepServed >= step.times
+          : step.forMs !== undefined
+            ? tx.stepStartedAt !== null && now - tx.stepStartedAt >= step.forMs
+            : tx.stepServed >= 1;
+      if (!done) break;
+      tx.stepIndex++;
+      tx.stepServed = 0;
+      tx.stepStartedAt = null;
+    }
+    tx.stepServed++;
+    tx.stepStartedAt ??= now;
+    return steps[tx.stepIndex];
+  }
+
+  // A global step overrides every lookup until it runs out
+  function globalStep(now: number): MockStep | null {
+    if (!global) return null;
+    const { step } = global;
+    if (
+      (step.times !== undefined && global.served >= step.times) ||
+      (step.forMs !== undefined && now - global.startedAt >= step.forMs)
+    ) {
+      global = null;
+      return null;
+    }
+    global.served++;
+    return step;
+  }
+
+  // What Iris adds when it attests: a nonce (v2 burns are emitted
+  // without one) and the finality reached, then its signature
+  function attest(
+    sourceDomain: number,
+    txHash: string,
+    index: number,
+    emitted: string,
+  ): { message: string; attestation: string; eventNonce: string } {
+    const message = ethers.getBytes(emitted);
+    let nonce = nonceOfMessage(emitted) ?? BYTES32_ZERO;
+    if (message.length >= FINALITY_EXECUTED_OFFSET + 4) {
+      if (nonce === BYTES32_ZERO) {
+        nonce = ethers.solidityPackedKeccak256(
+          ["uint32", "bytes32", "uint32"],
+          [sourceDomain, txHash, index],
+        );
+        message.set(ethers.getBytes(nonce), 12);
+      }
+      const view = new DataView(message.buffer, message.byteOffset);
+      const threshold = view.getUint32(MIN_FINALITY_OFFSET);
+      view.setUint32(
+        FINALITY_EXECUTED_OFFSET,
+        threshold <= FAST_FINALITY_THRESHOLD ? FAST_FINALITY_THRESHOLD : 2000,
+      );
+    }
+    const attested = ethers.hexlify(message);
+    return {
+      message: attested,
+      attestation: attester.sign(ethers.keccak256(attested)).serialized,
+      eventNonce: nonce,
+    };
+  }
+
+  function respond(
+    res: Response,
+    step: MockStep,
+    sourceDomain: number,
+    tx: MockTransaction | null,
+  ): void {
+    if (step.retryAfter !== undefined) {
+      res.set("Retry-After", String(step.retryAfter));
+    }
+    const messages = tx?.messages ?? [];
+
+    switch (step.respond) {
+      case "rate_limited":
+        res.status(429).json({ error: "Too many requests" });
+        return;
+      case "error":
+        res.status(step.status ?? 503).json({ error: "Service unavailable" });
+        return;
+      case "malformed":
+        if (step.raw !== undefined) {
+          res.status(200).type("application/json").send(step.raw);
+        } else {
+          res
+            .status(200)
+            .json(step.body ?? { messages: [{ status: "complete" }] });
+        }
+        return;
+      case "not_found":
+        res.status(404).json({ error: "Message not found" });
+        return;
+    }
+
+    if (!tx || messages.length === 0) {
+      res.status(404).json({ error: "Message not found" });
+      return;
+    }
+    const attested =
+      step.respond === "complete" ? (step.messages ?? messages.length) : 0;
+    res.status(200).json({
+      messages: messages.map((emitted, i) =>
+        i < attested
+          ? {
+              ...attest(sourceDomain, tx.spec.txHash, i, emitted),
+              cctpVersion: 2,
+              status: "complete",
+            }
+          : {
+              message: emitted,
+              attestation: "PENDING",
+              cctpVersion: 2,
+              status: "pending_confirmations",
+            },
+      ),
+    });
+  }
+
+  app.get("/v2/messages/:sourceDomain", async (req: Request, res: Response) => {
+    try {
+      const sourceDomain = Number(req.params.sourceDomain);
+      const txHash = req.query.transactionHash;
+      if (
+        !Number.isInteger(sourceDomain) ||
+        typeof txHash !== "string" ||
+        !BYTES32_REGEX.test(txHash)
+      ) {
+        res
+          .status(400)
+          .json({ error: "Invalid sourceDomain or transactionHash" });
+        return;
+      }
+
+      const now = Date.now();
+      const tx = await lookup(sourceDomain, txHash);
+      if (tx) tx.lookups++;
+      const step =
+        globalStep(now) ??
+        (tx ? currentStep(tx, now) : { respond: "not_found" as const });
+
+      if (step.delayMs) await sleep(step.delayMs);
+      respond(res, step, sourceDomain, tx);
+    } catch (err) {
+      console.error("GET /v2/messages error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ── Control API ──
+
+  app.get("/mock/transactions", (_req: Request, res: Response) => {
+    res.status(200).json({
+      global: global?.step ?? null,
+      transactions: [...transactions.values()].map((tx) => ({
+        sourceDomain: tx.spec.sourceDomain,
+        txHash: tx.spec.txHash,
+        messageCount: tx.messages?.length ?? null,
+        lookups: tx.lookups,
+        step: tx.stepIndex,
+        steps: tx.spec.steps ?? [{ respond: "complete" }],
+      })),
+    });
+  });
+
+  // Add or replace a transaction; its script starts over
+  app.put(
+    "/mock/transactions/:sourceDomain/:txHash",
+    (req: Request, res: Response) => {
+      const spec = {
+        ...req.body,
+        sourceDomain: Number(req.params.sourceDomain),
+        txHash: req.params.txHash,
+      };
+      const error = checkTransactionSpec(spec, "body");
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+      addTransaction(spec as MockTransactionSpec);
+      res.status(200).json({ ok: true });
+    },
+  );
+
+  app.delete(
+    "/mock/transactions/:sourceDomain/:txHash",
+    (req: Request, res: Response) => {
+      const deleted = transactions.delete(
+        key(Number(req.params.sourceDomain), String(req.params.txHash)),
+      );
+      res.status(deleted ? 200 : 404).json({ ok: deleted });
+    },
+  );
+
+  // Apply one step to every lookup, e.g. an outage: it lasts `times`
+  // lookups, `forMs`, or until DELETE
+  app.put("/mock/global", (req: Request, res: Response) => {
+    const error = checkStep(req.body, "body");
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    global = { step: req.body as MockStep, served: 0, startedAt: Date.now() };
+    res.status(200).json({ ok: true });
+  });
+
+  app.delete("/mock/global", (_req: Request, res: Response) => {
+    global = null;
+    res.status(200).json({ ok: true });
+  });
+
+  // Back to the fixtures as loaded
+  app.post("/mock/reset", (_req: Request, res: Response) => {
+    reset();
+    res.status(200).json({ ok: true });
+  });
+
+  return app;
+}
@@ -1,217 +1,284 @@
 import { ethers } from "ethers";
 import type { Config } from "./config.js";
 import type { Store } from "./store.js";
-import { irisRateLimiter } from "./ratelimit.js";
+import type { FinalityProfile, RelayRequest } from "./types.js";
+import {
+  fetchIrisMessages,
+  irisAvailable,
+  type IrisMessage,
+} from "./iris.js";
+import {
+  computeTransferId,
+  identityOfMessage,
+  minFinalityOfMessage,
+  transferIdOfMessage,
+} from "./cctp.js";
+import {
+  finalityProfile,
+  notFoundBudget,
+  pollBudget,
+  pollDelayMs,
+} from "./finality.js";
+import { observeStage } from "./metrics.js";
+import { heartbeat } from "./health.js";
+import { validateAttestedMessage } from "./validate.js";
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-interface AttestationResult {
-  message: string;
-  attestation: string;
-  nonce: string;
+function isComplete(msg: IrisMessage): boolean {
+  return msg.status === "complete" && msg.attestation !== "PENDING";
 }
 
-interface Validation {
-  valid: boolean;
-  reason?: string;
-  mintRecipient?: string;
-  destinationDomain?: number;
-  amount?: string;
-}
-
-const BYTES32_ZERO =
-  "0x0000000000000000000000000000000000000000000000000000000000000000";
-
-function validateAttestedMessage(
-  messageHex: string,
-  routerAddress: string,
-  routerBytes32: string,
-): Validation {
-  const message = ethers.getBytes(messageHex);
-
-  // MessageV2 header (148 bytes) + BurnMessageV2 body must be long enough
-  // to include at least through the amount field (header 148 + 100 bytes body = 248)
-  if (message.length < 248) {
-    return { valid: false, reason: "message too short" };
-  }
-
-  // Destination domain at header offset 8 (uint32, big-endian)
-  const destinationDomain = new DataView(
-    message.buffer,
-    message.byteOffset + 8,
-    4,
-  ).getUint32(0);
-  if (destinationDomain !== 0) {
-    return {
-      valid: false,
-      reason: `destination domain ${destinationDomain} != 0 (Ethereum)`,
-    };
-  }
-
-  // destinationCaller at header offset 108 (bytes32)
-  // Patch 8: production burns should set destinationCaller = router.
-  // Open caller (zero) is accepted but logged as a warning — a third
-  // party could front-run receiveMessage and consume the nonce.
-  const destinationCaller = ethers.hexlify(message.slice(108, 140));
-  if (
-    destinationCaller !== BYTES32_ZERO &&
-    destinationCaller.toLowerCase() !== routerBytes32.toLowerCase()
-  ) {
-    return {
-      valid: false,
-      reason: `destinationCaller ${destinationCaller} != router or zero`,
-    };
-  }
-  if (destinationCaller === BYTES32_ZERO) {
-    console.warn(
-      "destinationCaller is zero (open) — nonce front-run risk",
-    );
-  }
-
-  // mintRecipient: BurnMessageV2 body offset 36 (bytes32), absolute offset 184
-  const mintRecipientBytes32 = ethers.hexlify(message.slice(184, 216));
-  const mintRecipient = ethers.getAddress("0x" + mintRecipientBytes32.slice(-40));
-
-  if (mintRecipient.toLowerCase() !== routerAddress.toLowerCase()) {
-    return {
-      valid: false,
-      reason: `mintRecipient ${mintRecipient} != router ${routerAddress}`,
-    };
-  }
-
-  // Amount: BurnMessageV2 body offset 68 (uint256), absolute offset 216
-  const amount = ethers.toBigInt(message.slice(216, 248)).toString();
-
-  return { valid: true, mintRecipient, destinationDomain, amount };
-}
-
-async function pollForAttestation(
-  config: Config,
-  sourceDomain: number,
-  txHash: string,
-): Promise<AttestationResult | null> {
-  const url = `${config.irisApiBaseUrl}/v2/messages/${sourceDomain}?transactionHash=${txHash}`;
+// One poll cycle over the requests due now; startPoller runs it every
+// pollCycleIntervalMs
+export function createPoller(config: Config, store: Store) {
+  // Create a job for each complete message not seen yet in this attempt.
+  // Returns true once every message of the transaction is attested.
+  function recordMessages(
+    request: RelayRequest,
+    messages: IrisMessage[],
+  ): boolean {
+    const now = new Date().toISOString();
+    let complete = 0;
+
+    // A request created from a quote keeps the quoted fee
+    const relayFee = request.relayFee
+      ? BigInt(request.relayFee)
+      : config.relayFee;
+
+    messages.forEach((msg, messageIndex) => {
+      if (!isComplete(msg)) return;
+      complete++;
+
+      const transferId =
+        transferIdOfMessage(msg.message) ??
+        computeTransferId(
+          request.sourceDomain,
+          ethers.zeroPadValue(msg.eventNonce, 32),
+        );
+
+      const existing = store.getJob(transferId);
+      if (
+        existing &&
+        !(existing.status === "failed" && existing.attempt < request.attempt)
+      ) {
+        return;
+      }
 
-  await irisRateLimiter.acquire();
-  const response = await fetch(url);
+      const validation = validateAttestedMessage(
+        msg.message,
+        {
+          sourceDomain: request.sourceDomain,
+          eventNonce: msg.eventNonce,
+          relayFee,
+        },
+        config.routerAddress,
+        config.routerBytes32,
+        {
+          message: config.messageVersions,
+          burnMessage: config.burnMessageVersions,
+        },
+      );
+
+      store.upsertJob({
+        transferId,
+        sourceDomain: request.sourceDomain,
+        txHash: request.txHash,
+        messageIndex,
+        attempt: request.attempt,
+        attestedMessage: msg.message,
+        attestation: msg.attestation,
+        irisNonce: msg.eventNonce,
+        mintRecipient: validation.mintRecipient ?? null,
+        destinationDomain: validation.destinationDomain ?? null,
+        amount: validation.amount ?? null,
+        ...identityOfMessage(msg.message),
+        ethTxHash: null,
+        ethTxNonce: null,
+        ethBlockNumber: null,
+        status: validation.valid ? "attested" : "failed",
+        outcome: null,
+        settledAmount: null,
+        settledRelayFee: null,
+        operatorRouteReason: null,
+        predictedRoute: validation.predictedRoute ?? null,
+        predictedRouteReason: validation.operatorRouteReason ?? null,
+        error: validation.valid ? null : (validation.reason ?? "invalid message"),
+        resolutionNote: null,
+        retryCount: 0,
+        createdAt: now,
+        attestedAt: now,
+        submittedAt: null,
+        confirmedAt: null,
+        updatedAt: now,
+      });
+
+      if (validation.valid) {
+        observeStage("attestation", request.createdAt, now);
+        console.log(
+          `Attestation received for ${request.txHash} message ${messageIndex} (domain ${request.sourceDomain})`,
+        );
+        if (validation.warning) {
+          console.warn(
+            `Message ${messageIndex} in ${request.txHash}: ${validation.warning}`,
+          );
+        }
+      } else {
+        console.warn(
+          `Invalid message ${messageIndex} in ${request.txHash}: ${validation.reason}`,
+        );
+      }
+    });
 
-  if (response.status === 404) {
-    return null; // Not yet indexed
+    return complete === messages.length;
   }
 
-  if (response.status === 429) {
-    throw new Error("RATE_LIMITED");
+  // Once Iris knows the burn, polling before the profile's expected
+  // latency only spends Iris budget
+  function nextPollAt(
+    request: RelayRequest,
+    profile: FinalityProfile,
+    attempts: number,
+    seen: boolean,
+  ): string {
+    const next = Date.now() + pollDelayMs(config, profile, attempts);
+    const expected =
+      new Date(request.createdAt).getTime() + profile.expectedLatencyMs;
+    return new Date(seen ? Math.max(next, expected) : next).toISOString();
   }
 
-  if (!response.ok) {
-    console.error(`Iris API error: ${response.status}`);
+  // Threshold from the first message that carries a header
+  function minFinalityOf(messages: IrisMessage[]): number | null {
+    for (const msg of messages) {
+      if (!ethers.isHexString(msg.message)) continue;
+      const threshold = minFinalityOfMessage(msg.message);
+      if (threshold !== null) return threshold;
+    }
     return null;
   }
 
-  const data = (await response.json()) as {
-    messages?: {
-      message: string;
-      attestation: string;
-      eventNonce: string;
-      status: string;
-    }[];
-  };
-
-  if (!data.messages || data.messages.length === 0) {
-    return null;
-  }
+  return async function pollDue(): Promise<void> {
+    // Skip domains an operator paused through the admin API
+    const pauses = store.getPauses().filter((p) => p.loop === "poller");
+    // While Iris is down or rate limiting us, polling would only
+    // pile up errors: wait for the client to allow calls again
+    const requests =
+      pauses.some((p) => p.sourceDomain === null) || !irisAvailable()
+        ? []
+        : store.getDueRequests(
+            new Date().toISOString(),
+            20,
+            pauses.map((p) => p.sourceDomain as number),
+          );
+
+    for (const request of requests) {
+      const profile = finalityProfile(
+        config,
+        request.sourceDomain,
+        request.minFinalityThreshold,
+      );
+
+      // Time out on answered polls, not wall-clock age, so a backlog
+      // or a pause doesn't fail requests that were never asked about.
+      // A transaction Iris never reported is not a burn it will attest.
+      const timeout =
+        request.pollAttempts >= pollBudget(config, profile)
+          ? "attestation_timeout"
+          : request.messageCount === 0 &&
+              request.pollAttempts >= notFoundBudget(config, profile)
+            ? "not_found_by_iris"
+            : null;
+      if (timeout) {
+        store.updateRequest(request.sourceDomain, request.txHash, {
+          status: "failed",
+          error: timeout,
+          nextPollAt: null,
+        });
+        continue;
+      }
 
-  const msg = data.messages[0];
+      // Move pending → polling
+      if (request.status === "pending") {
+        store.updateRequest(request.sourceDomain, request.txHash, {
+          status: "polling",
+        });
+      }
 
-  if (msg.status === "complete" && msg.attestation !== "PENDING") {
-    return {
-      message: msg.message,
-      attestation: msg.attestation,
-      nonce: msg.eventNonce,
-    };
-  }
+      try {
+        const lookup = await fetchIrisMessages(
+          config,
+          request.sourceDomain,
+          request.txHash,
+        );
+        // No answer about the transaction, so no attempt used. The
+        // client reports the outage; the rest of the batch stays due.
+        if (lookup.kind === "unavailable") break;
+        if (lookup.kind === "invalid") {
+          console.warn(
+            `Unexpected Iris response for ${request.txHash}: ${lookup.reason}`,
+          );
+        }
 
-  return null; // Still pending
+        const messages = lookup.kind === "found" ? lookup.messages : null;
+        const pollAttempts = request.pollAttempts + 1;
+
+        if (messages && recordMessages(request, messages)) {
+          store.updateRequest(request.sourceDomain, request.txHash, {
+            status: "attested",
+            messageCount: messages.length,
+            attestedAt: new Date().toISOString(),
+            pollAttempts,
+            nextPollAt: null,
+          });
+        } else {
+          // Learn the finality from Iris when the source receipt
+          // wasn't checked at submission
+          const minFinalityThreshold =
+            request.minFinalityThreshold ??
+            (messages ? minFinalityOf(messages) : null);
+          const scheduled = finalityProfile(
+            config,
+            request.sourceDomain,
+            minFinalityThreshold,
+          );
+          store.updateRequest(request.sourceDomain, request.txHash, {
+            messageCount: messages?.length ?? 0,
+            pollAttempts,
+            minFinalityThreshold,
+            nextPollAt: nextPollAt(
+              request,
+              scheduled,
+              pollAttempts,
+              messages !== null,
+            ),
+          });
+        }
+      } catch (err) {
+        console.error(`Poller error for ${request.txHash}:`, err);
+        // No answer, so no attempt used; still wait before retrying
+        store.updateRequest(request.sourceDomain, request.txHash, {
+          nextPollAt: nextPollAt(
+            request,
+            profile,
+            Math.max(request.pollAttempts, 1),
+            false,
+          ),
+        });
+      }
+    }
+  };
 }
 
 export function startPoller(config: Config, store: Store): void {
+  const pollDue = createPoller(config, store);
+
   async function loop(): Promise<void> {
     while (true) {
+      heartbeat("poller");
       try {
-        const jobs = store.getJobsByStatus(["pending", "polling"], 20);
-
-        for (const job of jobs) {
-          // Check attestation timeout
-          const elapsed =
-            Date.now() - new Date(job.createdAt).getTime();
-          if (elapsed > config.attestationTimeoutMs) {
-            store.updateJob(job.txHash, {
-              status: "failed",
-              error: "attestation_timeout",
-            });
-            continue;
-          }
-
-          // Move pending → polling
-          if (job.status === "pending") {
-            store.updateJob(job.txHash, { status: "polling" });
-          }
-
-          try {
-            const result = await pollForAttestation(
-              config,
-              job.sourceDomain,
-              job.txHash,
-            );
-
-            if (result) {
-              const validation = validateAttestedMessage(
-                result.message,
-                config.routerAddress,
-                config.routerBytes32,
-              );
-
-              if (!validation.valid) {
-                store.updateJob(job.txHash, {
-                  status: "failed",
-                  error: validation.reason ?? "invalid message",
-                });
-                continue;
-              }
-
-              store.updateJob(job.txHash, {
-                status: "attested",
-                attestedMessage: result.message,
-                attestation: result.attestation,
-                irisNonce: result.nonce,
-                mintRecipient: validation.mintRecipient ?? null,
-                destinationDomain: validation.destinationDomain ?? null,
-                amount: validation.amount ?? null,
-                attestedAt: new Date().toISOString(),
-                pollAttempts: job.pollAttempts + 1,
-              });
-
-              console.log(
-                `Attestation received for ${job.txHash} (domain ${job.sourceDomain})`,
-              );
-            } else {
-              store.updateJob(job.txHash, {
-                pollAttempts: job.pollAttempts + 1,
-              });
-            }
-          } catch (err) {
-            if (err instanceof Error && err.message === "RATE_LIMITED") {
-              console.warn(
-                "Rate limited by Circle API, backing off 60s",
-              );
-              await sleep(60_000);
-              break; // Exit inner loop
-            }
-            console.error(`Poller error for ${job.txHash}:`, err);
-          }
-        }
+        await pollDue();
       } catch (err) {
         console.error("Poller loop error:", err);
       }
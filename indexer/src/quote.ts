@@ -0,0 +1,103 @@
+import { randomUUID } from "node:crypto";
+import type { Request } from "express";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import type { Integrator, RelayQuote } from "./types.js";
+import { relayFeeFor } from "./integrators.js";
+import { VALID_SOURCE_DOMAINS } from "./cctp.js";
+import { jsonRpc } from "./rpc.js";
+
+// Recommended relayMaxFee leaves this much room above the current fee,
+// so a burn signed now still relays if the fee is raised moderately
+const RELAY_MAX_FEE_HEADROOM_PCT = 20n;
+
+// Gas price is refreshed at most once per block
+const GAS_PRICE_TTL_MS = 12_000;
+
+const AMOUNT_REGEX = /^\d{1,18}$/;
+
+export interface QuoteQuery {
+  sourceDomain: number;
+  amount: bigint;
+  maxFee: bigint; // CCTP fee budget the burn will set
+}
+
+// Parse GET /quote query parameters; returns an error message on bad input
+export function parseQuoteQuery(query: Request["query"]): QuoteQuery | string {
+  const sourceDomain = Number(query.sourceDomain);
+  if (!VALID_SOURCE_DOMAINS.has(sourceDomain)) {
+    return "Invalid sourceDomain";
+  }
+  const { amount, maxFee = "0" } = query;
+  if (typeof amount !== "string" || !AMOUNT_REGEX.test(amount)) {
+    return "Invalid amount";
+  }
+  if (typeof maxFee !== "string" || !AMOUNT_REGEX.test(maxFee)) {
+    return "Invalid maxFee";
+  }
+  return { sourceDomain, amount: BigInt(amount), maxFee: BigInt(maxFee) };
+}
+
+// Builds and stores quotes for GET /quote. The relay fee is what the
+// submitter will charge the caller; the forward amount assumes the CCTP fee budget
+// is spent in full, so it is a lower bound. Returns an error message
+// when the amount cannot cover the fees, and throws when the Ethereum
+// RPC cannot give a gas price.
+export function createQuoter(config: Config, store: Store) {
+  let cachedGasPrice: { value: bigint; fetchedAt: number } | null = null;
+
+  // Bounded by healthCheckTimeoutMs: this runs in the GET /quote handler
+  async function gasPrice(): Promise<bigint> {
+    if (cachedGasPrice && Date.now() - cachedGasPrice.fetchedAt < GAS_PRICE_TTL_MS) {
+      return cachedGasPrice.value;
+    }
+    const result = await jsonRpc<string | null>(
+      config.ethereumRpcUrl,
+      "eth_gasPrice",
+      [],
+      config.healthCheckTimeoutMs,
+    );
+    if (!result) {
+      throw new Error("RPC returned no gas price");
+    }
+    const value = BigInt(result);
+    cachedGasPrice = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  return async function quote(
+    sourceDomain: number,
+    amount: bigint,
+    cctpMaxFee: bigint,
+    integrator: Integrator | null,
+  ): Promise<RelayQuote | string> {
+    const relayFee = relayFeeFor(config, integrator);
+    const forwardAmount = amount - cctpMaxFee - relayFee;
+    if (forwardAmount <= 0n) {
+      return "Amount does not cover the CCTP and relay fees";
+    }
+
+    const price = await gasPrice();
+    const now = Date.now();
+    const result: RelayQuote = {
+      id: randomUUID(),
+      integratorId: integrator?.id ?? null,
+      sourceDomain,
+      amount: amount.toString(),
+      cctpMaxFee: cctpMaxFee.toString(),
+      relayFee: relayFee.toString(),
+      relayMaxFee: (
+        (relayFee * (100n + RELAY_MAX_FEE_HEADROOM_PCT)) /
+        100n
+      ).toString(),
+      forwardAmount: forwardAmount.toString(),
+      gasLimit: config.quoteGasLimit.toString(),
+      gasPrice: price.toString(),
+      gasCost: (config.quoteGasLimit * price).toString(),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + config.quoteValidityMs).toISOString(),
+    };
+    store.createQuote(result);
+    return result;
+  };
+}
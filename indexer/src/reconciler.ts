@@ -0,0 +1,171 @@
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import type { RelayJob } from "./types.js";
+import { ROUTER_ABI } from "./abis.js";
+import {
+  findSettlement,
+  parseOutcome,
+  transactionOfReceipt,
+} from "./settlement.js";
+import {
+  failureReason,
+  observeStage,
+  recordReceiptGas,
+  submissionFailures,
+} from "./metrics.js";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Resolves jobs left in `submitted`: after a crash between broadcasting and
+// recording the receipt, or when the submitter gave up waiting for it.
+// One sweep covers the submitted jobs at least minAgeMs old.
+export function createReconciler(config: Config, store: Store) {
+  const provider = new ethers.JsonRpcProvider(config.ethereumRpcUrl);
+  const wallet = new ethers.Wallet(config.relayerPrivateKey, provider);
+  const router = new ethers.Contract(
+    config.routerAddress,
+    ROUTER_ABI,
+    provider,
+  );
+
+  // Put a job back in the submission queue, counting the lost attempt
+  function requeue(job: RelayJob, reason: string): void {
+    const retryCount = job.retryCount + 1;
+    submissionFailures.inc({ reason: failureReason(reason) });
+    store.updateJob(job.transferId, {
+      status: retryCount >= config.maxRetries ? "failed" : "attested",
+      error: reason,
+      retryCount,
+      ethTxHash: null,
+      ethTxNonce: null,
+      submittedAt: null,
+    });
+    console.warn(`Reconciler: ${reason} for ${job.txHash}#${job.messageIndex}`);
+  }
+
+  async function reconcileJob(job: RelayJob): Promise<void> {
+    const label = `${job.txHash}#${job.messageIndex}`;
+
+    const receipt = job.ethTxHash
+      ? await provider.getTransactionReceipt(job.ethTxHash)
+      : null;
+
+    if (receipt) {
+      recordReceiptGas(receipt);
+      store.recordTransaction(transactionOfReceipt(job.transferId, receipt));
+    }
+
+    if (receipt && receipt.status === 1) {
+      const { outcome, settledAmount, settledRelayFee, operatorRouteReason } =
+        parseOutcome(config, receipt);
+      const confirmedAt = new Date().toISOString();
+      store.updateJob(job.transferId, {
+        status: "confirmed",
+        outcome,
+        settledAmount,
+        settledRelayFee,
+        operatorRouteReason,
+        ethBlockNumber: receipt.blockNumber,
+        error: null,
+        confirmedAt,
+      });
+      observeStage("confirmation", job.submittedAt, confirmedAt);
+      console.log(`Reconciler: confirmed ${label} → ${outcome ?? "unknown"}`);
+      return;
+    }
+
+    if (!receipt && job.ethTxHash) {
+      const tx = await provider.getTransaction(job.ethTxHash);
+      if (tx) {
+        return; // Still in the mempool
+      }
+    }
+
+    // Our tx reverted, was dropped, or was replaced. Whether the transfer
+    // is done is decided by the router, not by our tx.
+    if (await router.settledTransfers(job.transferId)) {
+      const settlement = await findSettlement(config, provider, job);
+      store.updateJob(job.transferId, {
+        status: "confirmed",
+        outcome: settlement?.outcome ?? null,
+        settledAmount: settlement?.settledAmount ?? null,
+        settledRelayFee: settlement?.settledRelayFee ?? null,
+        operatorRouteReason: settlement?.operatorRouteReason ?? null,
+        ethTxHash: settlement?.ethTxHash ?? job.ethTxHash,
+        ethBlockNumber: settlement?.ethBlockNumber ?? null,
+        error: settlement ? null : "settled by an unknown transaction",
+        confirmedAt: new Date().toISOString(),
+      });
+      console.log(
+        `Reconciler: ${label} settled by ${settlement?.ethTxHash ?? "unknown tx"}`,
+      );
+      return;
+    }
+
+    if (receipt) {
+      requeue(job, `Tx reverted: ${job.ethTxHash}`);
+      return;
+    }
+
+    // A dropped tx can be re-sent as is; a replaced one had its wallet
+    // nonce consumed by another tx. Either way, re-queue so the submitter
+    // rebroadcasts with fresh gas pricing.
+    const walletNonce = await provider.getTransactionCount(
+      wallet.address,
+      "latest",
+    );
+    const replaced = job.ethTxNonce !== null && walletNonce > job.ethTxNonce;
+    requeue(
+      job,
+      `Tx ${replaced ? "replaced" : "dropped"}: ${job.ethTxHash ?? "unknown"}`,
+    );
+  }
+
+  return async function sweep(minAgeMs: number): Promise<void> {
+    const jobs = store.getJobsByStatus(["submitted"], 100);
+    for (const job of jobs) {
+      const age = Date.now() - new Date(job.submittedAt ?? job.updatedAt).getTime();
+      if (age < minAgeMs) continue;
+
+      try {
+        await reconcileJob(job);
+      } catch (err) {
+        console.error(
+          `Reconciler error for ${job.txHash}#${job.messageIndex}:`,
+          err,
+        );
+      }
+    }
+  };
+}
+
+// Sweeps once on startup over every submitted job, then periodically over
+// jobs submitted longer than confirmationTimeoutMs ago (younger ones are
+// still being awaited by the submitter).
+export function startReconciler(config: Config, store: Store): void {
+  const sweep = createReconciler(config, store);
+
+  async function loop(): Promise<void> {
+    // On startup nothing is awaiting any submitted tx. A failed startup
+    // sweep is retried at the next interval.
+    let minAgeMs = 0;
+
+    while (true) {
+      try {
+        await sweep(minAgeMs);
+        minAgeMs = config.confirmationTimeoutMs;
+      } catch (err) {
+        console.error("Reconciler loop error:", err);
+      }
+      await sleep(config.reconcileIntervalMs);
+    }
+  }
+
+  loop().catch((err) => {
+    console.error("Reconciler fatal error:", err);
+    process.exit(1);
+  });
+}
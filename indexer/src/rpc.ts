@@ -0,0 +1,27 @@
+// One JSON-RPC call over plain fetch, bounded by a timeout. Used where a
+// hung call must not block a request handler: an ethers provider retries
+// network detection forever while its RPC is down.
+export async function jsonRpc<T>(
+  url: string,
+  method: string,
+  params: unknown[],
+  timeoutMs: number,
+): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) {
+    throw new Error(`RPC returned HTTP ${res.status}`);
+  }
+  const body = (await res.json()) as {
+    result?: T;
+    error?: { message?: string };
+  };
+  if (body.error) {
+    throw new Error(`RPC error: ${body.error.message ?? "unknown"}`);
+  }
+  return body.result as T;
+}
@@ -0,0 +1,140 @@
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import type { RelayJob, RelayOutcome, RelayTransaction } from "./types.js";
+import { nonceOfMessage } from "./cctp.js";
+import {
+  ROUTER_ABI,
+  RELAYED_TOPIC0,
+  FALLBACK_TRIGGERED_TOPIC0,
+  RECOVERED_FROM_CONSUMED_NONCE_TOPIC0,
+  OPERATOR_ROUTED_TOPIC0,
+  MESSAGE_RECEIVED_TOPIC0,
+} from "./abis.js";
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+export interface ReceiptOutcome {
+  outcome: RelayOutcome | null;
+  recovered: boolean;
+  // From the outcome event: USDC forwarded, sent to the fallback or to the
+  // operator, and the relay fee kept (zero when operator-routed)
+  settledAmount: string | null;
+  settledRelayFee: string | null;
+  operatorRouteReason: number | null;
+}
+
+export interface Settlement extends ReceiptOutcome {
+  ethTxHash: string;
+  ethBlockNumber: number;
+}
+
+// Determine the relay outcome from router events in a receipt
+export function parseOutcome(
+  config: Config,
+  receipt: ethers.TransactionReceipt,
+): ReceiptOutcome {
+  const routerLogs = receipt.logs.filter(
+    (log) => log.address.toLowerCase() === config.routerAddress.toLowerCase(),
+  );
+  const find = (topic0: string) => {
+    const log = routerLogs.find((l) => l.topics[0] === topic0);
+    return log ? routerInterface.parseLog(log) : null;
+  };
+  const recovered = find(RECOVERED_FROM_CONSUMED_NONCE_TOPIC0) !== null;
+
+  const relayed = find(RELAYED_TOPIC0) ?? find(FALLBACK_TRIGGERED_TOPIC0);
+  if (relayed) {
+    return {
+      outcome: relayed.name === "Relayed" ? "forwarded" : "fallback",
+      recovered,
+      settledAmount: relayed.args.amount.toString(),
+      settledRelayFee: relayed.args.relayFee.toString(),
+      operatorRouteReason: null,
+    };
+  }
+
+  const operatorRouted = find(OPERATOR_ROUTED_TOPIC0);
+  if (operatorRouted) {
+    return {
+      outcome: "operator_routed",
+      recovered,
+      settledAmount: operatorRouted.args.amount.toString(),
+      settledRelayFee: "0",
+      operatorRouteReason: Number(operatorRouted.args.reason),
+    };
+  }
+
+  return {
+    outcome: null,
+    recovered,
+    settledAmount: null,
+    settledRelayFee: null,
+    operatorRouteReason: null,
+  };
+}
+
+// Gas record for one of our own relay transactions
+export function transactionOfReceipt(
+  transferId: string,
+  receipt: ethers.TransactionReceipt,
+): RelayTransaction {
+  return {
+    ethTxHash: receipt.hash,
+    transferId,
+    status: receipt.status === 1 ? "success" : "reverted",
+    gasUsed: receipt.gasUsed.toString(),
+    gasPrice: receipt.gasPrice.toString(),
+    blockNumber: receipt.blockNumber,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+// Locate the transaction that settled a job's transfer when we don't have
+// its hash (e.g. another relayer got there first, or we crashed before
+// recording it). A settlement either consumes the nonce through the
+// transmitter (MessageReceived) or recovers it (RecoveredFromConsumedNonce);
+// both index the nonce, so the settling receipt is among those logs.
+export async function findSettlement(
+  config: Config,
+  provider: ethers.Provider,
+  job: RelayJob,
+): Promise<Settlement | null> {
+  const nonce = job.attestedMessage ? nonceOfMessage(job.attestedMessage) : null;
+  if (!nonce) {
+    return null;
+  }
+
+  const latest = await provider.getBlockNumber();
+  const fromBlock = Math.max(0, latest - config.reconcileLookbackBlocks);
+
+  const logs = [
+    ...(await provider.getLogs({
+      address: config.transmitterAddress,
+      topics: [MESSAGE_RECEIVED_TOPIC0, null, nonce],
+      fromBlock,
+      toBlock: latest,
+    })),
+    ...(await provider.getLogs({
+      address: config.routerAddress,
+      topics: [RECOVERED_FROM_CONSUMED_NONCE_TOPIC0, nonce],
+      fromBlock,
+      toBlock: latest,
+    })),
+  ];
+
+  for (const txHash of new Set(logs.map((log) => log.transactionHash))) {
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 1) continue;
+
+    const parsed = parseOutcome(config, receipt);
+    if (parsed.outcome) {
+      return {
+        ...parsed,
+        ethTxHash: receipt.hash,
+        ethBlockNumber: receipt.blockNumber,
+      };
+    }
+  }
+
+  return null;
+}
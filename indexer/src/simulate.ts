@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import type { Config } from "./config.js";
+import type { RelayOutcome } from "./types.js";
+import { ROUTER_ABI } from "./abis.js";
+
+export interface SimulatedEvent {
+  name: string;
+  args: Record<string, string | number>;
+}
+
+export interface Simulation {
+  outcome: RelayOutcome | "reverted" | null; // null: succeeded, logs unavailable
+  revertReason: string | null;
+  operatorRouteReason: number | null; // 1 empty hookData, 2 malformed
+  recovered: boolean; // nonce-consumed recovery path taken
+  events: SimulatedEvent[];
+  estimatedGas: string | null;
+  method: "eth_simulateV1" | "eth_call";
+}
+
+interface SimulatedCall {
+  status: string;
+  gasUsed: string;
+  logs?: { address: string; topics: string[]; data: string }[];
+  error?: { message?: string; data?: string };
+}
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Human-readable reason from revert data
+function decodeRevert(data: string | null | undefined): string | null {
+  if (!data || data === "0x") {
+    return null;
+  }
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (data.startsWith(ERROR_STRING_SELECTOR)) {
+      return coder.decode(["string"], ethers.dataSlice(data, 4))[0];
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      return `panic ${coder.decode(["uint256"], ethers.dataSlice(data, 4))[0]}`;
+    }
+  } catch {
+    // fall through to the raw data
+  }
+  return data;
+}
+
+function toEvent(log: ethers.LogDescription): SimulatedEvent {
+  const args: Record<string, string | number> = {};
+  log.fragment.inputs.forEach((input, i) => {
+    const value = log.args[i];
+    args[input.name] = typeof value === "bigint" ? value.toString() : value;
+  });
+  return { name: log.name, args };
+}
+
+// Codes ethers gives failures of the RPC itself, rather than of the call
+const RPC_ERROR_CODES = [
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "UNKNOWN_ERROR",
+  "BAD_DATA",
+] as const;
+
+// Whether a simulation failed because the Ethereum RPC did
+export function isRpcError(err: unknown): boolean {
+  return RPC_ERROR_CODES.some((code) => ethers.isError(err, code));
+}
+
+// Runs receiveAndForward from the relayer wallet without sending it.
+// Events are only visible through eth_simulateV1; on RPCs without it the
+// result falls back to eth_call, which can tell success from revert but
+// not which outcome a success would have.
+export function createSimulator(config: Config) {
+  const provider = new ethers.JsonRpcProvider(config.ethereumRpcUrl);
+  const from = new ethers.Wallet(config.relayerPrivateKey).address;
+
+  async function estimate(data: string): Promise<string | null> {
+    try {
+      return (
+        await provider.estimateGas({ from, to: config.routerAddress, data })
+      ).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  async function viaSimulateV1(data: string): Promise<SimulatedCall | null> {
+    try {
+      const [block] = (await provider.send("eth_simulateV1", [
+        {
+          blockStateCalls: [
+            { calls: [{ from, to: config.routerAddress, data }] },
+          ],
+        },
+        "latest",
+      ])) as { calls: SimulatedCall[] }[];
+      return block.calls[0];
+    } catch {
+      return null; // Not supported by this RPC
+    }
+  }
+
+  return async function simulate(
+    message: string,
+    attestation: string,
+    relayFee: bigint,
+  ): Promise<Simulation> {
+    const data = routerInterface.encodeFunctionData("receiveAndForward", [
+      message,
+      attestation,
+      relayFee,
+    ]);
+
+    const call = await viaSimulateV1(data);
+    if (!call) {
+      try {
+        await provider.call({ from, to: config.routerAddress, data });
+      } catch (err) {
+        if (!ethers.isError(err, "CALL_EXCEPTION")) throw err;
+        return {
+          outcome: "reverted",
+          revertReason: err.reason ?? decodeRevert(err.data) ?? err.shortMessage,
+          operatorRouteReason: null,
+          recovered: false,
+          events: [],
+          estimatedGas: null,
+          method: "eth_call",
+        };
+      }
+      return {
+        outcome: null,
+        revertReason: null,
+        operatorRouteReason: null,
+        recovered: false,
+        events: [],
+        estimatedGas: await estimate(data),
+        method: "eth_call",
+      };
+    }
+
+    if (call.status !== "0x1") {
+      return {
+        outcome: "reverted",
+        revertReason:
+          decodeRevert(call.error?.data) ?? call.error?.message ?? null,
+        operatorRouteReason: null,
+        recovered: false,
+        events: [],
+        estimatedGas: null,
+        method: "eth_simulateV1",
+      };
+    }
+
+    const events: SimulatedEvent[] = [];
+    for (const log of call.logs ?? []) {
+      if (log.address.toLowerCase() !== config.routerAddress.toLowerCase()) {
+        continue;
+      }
+      const parsed = routerInterface.parseLog(log);
+      if (parsed) events.push(toEvent(parsed));
+    }
+
+    const find = (name: string) => events.find((e) => e.name === name);
+    const operatorRouted = find("OperatorRouted");
+    let outcome: RelayOutcome | null = null;
+    if (find("Relayed")) {
+      outcome = "forwarded";
+    } else if (find("FallbackTriggered")) {
+      outcome = "fallback";
+    } else if (operatorRouted) {
+      outcome = "operator_routed";
+    }
+
+    return {
+      outcome,
+      revertReason: null,
+      operatorRouteReason: operatorRouted
+        ? Number(operatorRouted.args.reason)
+        : null,
+      recovered: !!find("RecoveredFromConsumedNonce"),
+      events,
+      estimatedGas: (await estimate(data)) ?? BigInt(call.gasUsed).toString(),
+      method: "eth_simulateV1",
+    };
+  };
+}
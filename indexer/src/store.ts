@@ -1,64 +1,833 @@
+import { EventEmitter } from "node:events";
 import Database from "better-sqlite3";
-import type { RelayJob, RelayStatus } from "./types.js";
+import { ethers } from "ethers";
+import type {
+  AdminAction,
+  DomainQueueDepth,
+  GasSpend,
+  Integrator,
+  LoopName,
+  LoopPause,
+  PredictedRoute,
+  RelayAttempt,
+  RelayJobEvent,
+  RelayChange,
+  RelayJob,
+  RelayListCursor,
+  RelayListEntry,
+  RelayListFilter,
+  RelayOutcome,
+  RelayQuote,
+  RelayRequest,
+  RelayRequestStatus,
+  RelayStatus,
+  RelayTransaction,
+  SettledRelay,
+  SettledRelayCursor,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "./types.js";
 
 export interface Store {
-  createJob(job: RelayJob): void;
-  getJob(txHash: string): RelayJob | undefined;
-  updateJob(txHash: string, updates: Partial<RelayJob>): void;
+  createRequest(request: RelayRequest): void;
+  getRequest(sourceDomain: number, txHash: string): RelayRequest | undefined;
+  getRequestsByTxHash(txHash: string): RelayRequest[];
+  updateRequest(
+    sourceDomain: number,
+    txHash: string,
+    updates: Partial<RelayRequest>,
+  ): void;
+  resubmitRequest(sourceDomain: number, txHash: string): RelayRequest;
+  getAttempts(sourceDomain: number, txHash: string): RelayAttempt[];
+  getJobEvents(sourceDomain: number, txHash: string): RelayJobEvent[];
+  // Pending and polling requests whose next poll is due, taken in turns
+  // across (source domain, integrator) with never-polled requests first
+  getDueRequests(
+    now: string,
+    limit: number,
+    excludeDomains?: number[],
+  ): RelayRequest[];
+  countRequestsByStatus(): Record<string, number>;
+
+  upsertJob(job: RelayJob): void;
+  getJob(transferId: string): RelayJob | undefined;
+  getJobsForRequest(sourceDomain: number, txHash: string): RelayJob[];
+  getJobByNonce(sourceDomain: number, nonce: string): RelayJob | undefined;
+  getJobsForAccount(
+    account: string,
+    limit: number,
+    after?: RelayListCursor,
+  ): RelayJob[];
+  updateJob(transferId: string, updates: Partial<RelayJob>): void;
   getJobsByStatus(statuses: RelayStatus[], limit: number): RelayJob[];
-  getOldestByStatus(status: RelayStatus): RelayJob | undefined;
+  getOldestByStatus(
+    status: RelayStatus,
+    excludeDomains?: number[],
+  ): RelayJob | undefined;
   countByStatus(): Record<string, number>;
+  countByOutcome(): Record<string, number>;
+  countByDomain(): DomainQueueDepth[];
+
+  listRelays(
+    filter: RelayListFilter,
+    limit: number,
+    after?: RelayListCursor,
+  ): RelayListEntry[];
+  // Confirmed jobs oldest first, by confirmedAt in [from, to)
+  getSettledRelays(
+    range: { from?: string; to?: string },
+    limit: number,
+    after?: SettledRelayCursor,
+  ): SettledRelay[];
+
+  pauseLoop(pause: LoopPause): void;
+  resumeLoop(loop: LoopName, sourceDomain: number | null): boolean;
+  getPauses(): LoopPause[];
+
+  recordAdminAction(action: Omit<AdminAction, "id" | "createdAt">): void;
+  getAdminActions(limit: number): AdminAction[];
+
+  enqueueWebhook(delivery: WebhookDelivery): boolean;
+  getWebhookDelivery(id: string): WebhookDelivery | undefined;
+  getDueWebhooks(limit: number): WebhookDelivery[];
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): void;
+  recordWebhookAttempt(attempt: WebhookAttempt): void;
+  getWebhookDeliveries(
+    filter: { txHash?: string; status?: WebhookDeliveryStatus },
+    limit: number,
+  ): WebhookDelivery[];
+  getWebhookAttempts(deliveryId: string): WebhookAttempt[];
+
+  createIntegrator(integrator: Integrator, keyHash: string): void;
+  getIntegrator(id: string): Integrator | undefined;
+  getIntegratorByKeyHash(keyHash: string): Integrator | undefined;
+  listIntegrators(): Integrator[];
+  updateIntegrator(id: string, updates: Partial<Integrator>): void;
+  // Requests still polling plus jobs still in flight
+  countPendingJobs(integratorId: string | null): number;
+
+  createQuote(quote: RelayQuote): void;
+  getQuote(id: string): RelayQuote | undefined;
+
+  // Idempotent per eth_tx_hash: the submitter and reconciler may both
+  // see the same receipt
+  recordTransaction(tx: RelayTransaction): void;
+  getGasSpend(since: string | null): GasSpend;
+
+  // Subscribe to status transitions; returns an unsubscribe function
+  onChange(listener: (change: RelayChange) => void): () => void;
 }
 
-const CREATE_TABLE = `
-CREATE TABLE IF NOT EXISTS relay_jobs (
-  tx_hash             TEXT PRIMARY KEY,
-  source_domain       INTEGER NOT NULL,
+// Fields whose change is worth telling subscribers about
+const NOTIFY_FIELDS = ["status", "outcome", "error", "ethTxHash"];
 
-  attested_message    TEXT,
-  attestation         TEXT,
-  iris_nonce          TEXT,
+// Updates to these append a relay_job_events entry when they change a
+// value; pollAttempts adds one entry per answered Iris poll
+const EVENT_FIELDS = ["status", "error", "retryCount", "pollAttempts"];
 
-  mint_recipient      TEXT,
-  destination_domain  INTEGER,
-  amount              TEXT,
+type Migration = string | ((db: Database.Database) => void);
 
-  eth_tx_hash         TEXT,
-  eth_block_number    INTEGER,
+// Schema migrations, applied in order and tracked via PRAGMA user_version.
+// Never edit an entry once released — append a new one instead.
+const MIGRATIONS: Migration[] = [
+  // 1: initial schema (txHash-only primary key)
+  `
+  CREATE TABLE IF NOT EXISTS relay_jobs (
+    tx_hash             TEXT PRIMARY KEY,
+    source_domain       INTEGER NOT NULL,
 
-  status              TEXT NOT NULL DEFAULT 'pending',
-  outcome             TEXT,
-  error               TEXT,
-  poll_attempts       INTEGER NOT NULL DEFAULT 0,
-  retry_count         INTEGER NOT NULL DEFAULT 0,
+    attested_message    TEXT,
+    attestation         TEXT,
+    iris_nonce          TEXT,
 
-  created_at          TEXT NOT NULL,
-  attested_at         TEXT,
-  submitted_at        TEXT,
-  confirmed_at        TEXT,
-  updated_at          TEXT NOT NULL
-);
+    mint_recipient      TEXT,
+    destination_domain  INTEGER,
+    amount              TEXT,
 
-CREATE INDEX IF NOT EXISTS idx_status ON relay_jobs(status);
-CREATE INDEX IF NOT EXISTS idx_created_at ON relay_jobs(created_at);
-`;
+    eth_tx_hash         TEXT,
+    eth_block_number    INTEGER,
 
-function rowToJob(row: Record<string, unknown>): RelayJob {
+    status              TEXT NOT NULL DEFAULT 'pending',
+    outcome             TEXT,
+    error               TEXT,
+    poll_attempts       INTEGER NOT NULL DEFAULT 0,
+    retry_count         INTEGER NOT NULL DEFAULT 0,
+
+    created_at          TEXT NOT NULL,
+    attested_at         TEXT,
+    submitted_at        TEXT,
+    confirmed_at        TEXT,
+    updated_at          TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_status ON relay_jobs(status);
+  CREATE INDEX IF NOT EXISTS idx_created_at ON relay_jobs(created_at);
+  `,
+
+  // 2: key jobs by (source_domain, tx_hash) so a txHash claimed with the
+  // wrong sourceDomain cannot block the real job, and
+  // keep a history of failed attempts that were resubmitted.
+  `
+  CREATE TABLE relay_jobs_v2 (
+    tx_hash             TEXT NOT NULL,
+    source_domain       INTEGER NOT NULL,
+    attempt             INTEGER NOT NULL DEFAULT 1,
+
+    attested_message    TEXT,
+    attestation         TEXT,
+    iris_nonce          TEXT,
+
+    mint_recipient      TEXT,
+    destination_domain  INTEGER,
+    amount              TEXT,
+
+    eth_tx_hash         TEXT,
+    eth_block_number    INTEGER,
+
+    status              TEXT NOT NULL DEFAULT 'pending',
+    outcome             TEXT,
+    error               TEXT,
+    poll_attempts       INTEGER NOT NULL DEFAULT 0,
+    retry_count         INTEGER NOT NULL DEFAULT 0,
+
+    created_at          TEXT NOT NULL,
+    attested_at         TEXT,
+    submitted_at        TEXT,
+    confirmed_at        TEXT,
+    updated_at          TEXT NOT NULL,
+
+    PRIMARY KEY (source_domain, tx_hash)
+  );
+
+  INSERT INTO relay_jobs_v2 (
+    tx_hash, source_domain, attempt,
+    attested_message, attestation, iris_nonce,
+    mint_recipient, destination_domain, amount,
+    eth_tx_hash, eth_block_number,
+    status, outcome, error, poll_attempts, retry_count,
+    created_at, attested_at, submitted_at, confirmed_at, updated_at
+  )
+  SELECT
+    tx_hash, source_domain, 1,
+    attested_message, attestation, iris_nonce,
+    mint_recipient, destination_domain, amount,
+    eth_tx_hash, eth_block_number,
+    status, outcome, error, poll_attempts, retry_count,
+    created_at, attested_at, submitted_at, confirmed_at, updated_at
+  FROM relay_jobs;
+
+  DROP TABLE relay_jobs;
+  ALTER TABLE relay_jobs_v2 RENAME TO relay_jobs;
+
+  CREATE INDEX idx_status ON relay_jobs(status);
+  CREATE INDEX idx_created_at ON relay_jobs(created_at);
+  CREATE INDEX idx_tx_hash ON relay_jobs(tx_hash);
+
+  CREATE TABLE relay_job_attempts (
+    source_domain       INTEGER NOT NULL,
+    tx_hash             TEXT NOT NULL,
+    attempt             INTEGER NOT NULL,
+
+    status              TEXT NOT NULL,
+    outcome             TEXT,
+    error               TEXT,
+    eth_tx_hash         TEXT,
+    poll_attempts       INTEGER NOT NULL,
+    retry_count         INTEGER NOT NULL,
+
+    started_at          TEXT NOT NULL,
+    ended_at            TEXT NOT NULL,
+
+    PRIMARY KEY (source_domain, tx_hash, attempt)
+  );
+  `,
+
+  // 3: split into relay_requests (one per source tx) and relay_jobs (one
+  // per attested CCTP message, keyed by the router's transferId) so
+  // transactions with several burns are fully relayed.
+  (db) => {
+    // Frozen copy of the transferId derivation as of this migration, so a
+    // replay writes the same ids whatever cctp.ts becomes:
+    // keccak256(abi.encodePacked(uint32 sourceDomain, bytes32 nonce)),
+    // read from the message header (domain at 4, nonce at 12), or from
+    // the row when the message is too short
+    const transferIdOf = (
+      message: string,
+      sourceDomain: number,
+      irisNonce: string | null,
+    ): string => {
+      const bytes = ethers.getBytes(message);
+      const [domain, nonce] =
+        bytes.length >= 44
+          ? [
+              new DataView(bytes.buffer, bytes.byteOffset + 4, 4).getUint32(0),
+              ethers.hexlify(bytes.slice(12, 44)),
+            ]
+          : [sourceDomain, ethers.zeroPadValue(irisNonce ?? "0x", 32)];
+      return ethers.solidityPackedKeccak256(
+        ["uint32", "bytes32"],
+        [domain, nonce],
+      );
+    };
+
+    db.exec(`
+    CREATE TABLE relay_requests (
+      tx_hash             TEXT NOT NULL,
+      source_domain       INTEGER NOT NULL,
+      attempt             INTEGER NOT NULL DEFAULT 1,
+
+      status              TEXT NOT NULL DEFAULT 'pending',
+      error               TEXT,
+      poll_attempts       INTEGER NOT NULL DEFAULT 0,
+      message_count       INTEGER NOT NULL DEFAULT 0,
+
+      created_at          TEXT NOT NULL,
+      attested_at         TEXT,
+      updated_at          TEXT NOT NULL,
+
+      PRIMARY KEY (source_domain, tx_hash)
+    );
+
+    CREATE TABLE relay_messages (
+      transfer_id         TEXT PRIMARY KEY,
+      source_domain       INTEGER NOT NULL,
+      tx_hash             TEXT NOT NULL,
+      message_index       INTEGER NOT NULL,
+      attempt             INTEGER NOT NULL,
+
+      attested_message    TEXT,
+      attestation         TEXT,
+      iris_nonce          TEXT,
+
+      mint_recipient      TEXT,
+      destination_domain  INTEGER,
+      amount              TEXT,
+
+      eth_tx_hash         TEXT,
+      eth_block_number    INTEGER,
+
+      status              TEXT NOT NULL,
+      outcome             TEXT,
+      error               TEXT,
+      retry_count         INTEGER NOT NULL DEFAULT 0,
+
+      created_at          TEXT NOT NULL,
+      attested_at         TEXT,
+      submitted_at        TEXT,
+      confirmed_at        TEXT,
+      updated_at          TEXT NOT NULL
+    );
+
+    CREATE TABLE relay_request_attempts (
+      source_domain       INTEGER NOT NULL,
+      tx_hash             TEXT NOT NULL,
+      attempt             INTEGER NOT NULL,
+
+      status              TEXT NOT NULL,
+      error               TEXT,
+      poll_attempts       INTEGER NOT NULL,
+
+      started_at          TEXT NOT NULL,
+      ended_at            TEXT NOT NULL,
+
+      PRIMARY KEY (source_domain, tx_hash, attempt)
+    );
+
+    INSERT INTO relay_request_attempts
+    SELECT source_domain, tx_hash, attempt, status, error, poll_attempts,
+           started_at, ended_at
+    FROM relay_job_attempts;
+    `);
+
+    // Existing rows hold at most one message; jobs that never got an
+    // attestation only carry over as requests.
+    const insertRequest = db.prepare(`
+      INSERT INTO relay_requests (
+        tx_hash, source_domain, attempt, status, error, poll_attempts,
+        message_count, created_at, attested_at, updated_at
+      ) VALUES (
+        @tx_hash, @source_domain, @attempt, @request_status, @request_error,
+        @poll_attempts, @message_count, @created_at, @attested_at, @updated_at
+      )
+    `);
+    const insertMessage = db.prepare(`
+      INSERT INTO relay_messages (
+        transfer_id, source_domain, tx_hash, message_index, attempt,
+        attested_message, attestation, iris_nonce,
+        mint_recipient, destination_domain, amount,
+        eth_tx_hash, eth_block_number,
+        status, outcome, error, retry_count,
+        created_at, attested_at, submitted_at, confirmed_at, updated_at
+      ) VALUES (
+        @transfer_id, @source_domain, @tx_hash, 0, @attempt,
+        @attested_message, @attestation, @iris_nonce,
+        @mint_recipient, @destination_domain, @amount,
+        @eth_tx_hash, @eth_block_number,
+        @status, @outcome, @error, @retry_count,
+        @attested_at, @attested_at, @submitted_at, @confirmed_at, @updated_at
+      )
+    `);
+
+    const rows = db.prepare("SELECT * FROM relay_jobs").all() as Record<
+      string,
+      unknown
+    >[];
+    for (const row of rows) {
+      const message = row.attested_message as string | null;
+      const transferId = message
+        ? transferIdOf(
+            message,
+            row.source_domain as number,
+            row.iris_nonce as string | null,
+          )
+        : null;
+
+      insertRequest.run({
+        ...row,
+        request_status: transferId ? "attested" : row.status,
+        request_error: transferId ? null : row.error,
+        message_count: transferId ? 1 : 0,
+      });
+      if (transferId) {
+        insertMessage.run({ ...row, transfer_id: transferId });
+      }
+    }
+
+    db.exec(`
+    DROP TABLE relay_jobs;
+    DROP TABLE relay_job_attempts;
+    ALTER TABLE relay_messages RENAME TO relay_jobs;
+
+    CREATE INDEX idx_status ON relay_jobs(status);
+    CREATE INDEX idx_created_at ON relay_jobs(created_at);
+    CREATE INDEX idx_request ON relay_jobs(source_domain, tx_hash);
+
+    CREATE INDEX idx_requests_status ON relay_requests(status);
+    CREATE INDEX idx_requests_created_at ON relay_requests(created_at);
+    CREATE INDEX idx_requests_tx_hash ON relay_requests(tx_hash);
+    `);
+  },
+
+  // 4: wallet nonce of the submitted tx, to tell replaced from dropped
+  `
+  ALTER TABLE relay_jobs ADD COLUMN eth_tx_nonce INTEGER;
+  `,
+
+  // 5: admin API — manual resolution, loop pauses and the audit log
+  `
+  ALTER TABLE relay_requests ADD COLUMN resolution_note TEXT;
+  ALTER TABLE relay_jobs ADD COLUMN resolution_note TEXT;
+
+  CREATE TABLE loop_pauses (
+    loop                TEXT NOT NULL,
+    source_domain       INTEGER,
+    paused_by           TEXT NOT NULL,
+    reason              TEXT NOT NULL,
+    paused_at           TEXT NOT NULL
+  );
+
+  CREATE UNIQUE INDEX idx_loop_pauses
+    ON loop_pauses(loop, IFNULL(source_domain, -1));
+
+  CREATE TABLE admin_actions (
+    id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+    actor               TEXT NOT NULL,
+    action              TEXT NOT NULL,
+    target              TEXT NOT NULL,
+    reason              TEXT NOT NULL,
+    details             TEXT,
+    created_at          TEXT NOT NULL
+  );
+  `,
+
+  // 6: GET /relays — one row per job, or per request with no jobs yet,
+  // plus indexes for its filters and keyset pagination
+  `
+  CREATE VIEW relay_entries AS
+  SELECT
+    COALESCE(j.transfer_id, r.source_domain || ':' || r.tx_hash) AS key,
+    r.source_domain AS source_domain,
+    r.tx_hash AS tx_hash,
+    j.transfer_id AS transfer_id,
+    j.message_index AS message_index,
+    COALESCE(j.status, r.status) AS status,
+    j.outcome AS outcome,
+    j.amount AS amount,
+    COALESCE(j.error, r.error) AS error,
+    j.eth_tx_hash AS eth_tx_hash,
+    r.created_at AS created_at,
+    j.confirmed_at AS confirmed_at
+  FROM relay_requests r
+  LEFT JOIN relay_jobs j
+    ON j.source_domain = r.source_domain AND j.tx_hash = r.tx_hash;
+
+  CREATE INDEX idx_requests_domain_created
+    ON relay_requests(source_domain, created_at);
+  CREATE INDEX idx_outcome ON relay_jobs(outcome);
+  CREATE INDEX idx_confirmed_at ON relay_jobs(confirmed_at);
+  CREATE INDEX idx_amount ON relay_jobs(CAST(amount AS INTEGER));
+  `,
+
+  // 7: webhook callbacks — per-request target, delivery queue and log
+  `
+  ALTER TABLE relay_requests ADD COLUMN callback_url TEXT;
+
+  CREATE TABLE webhook_deliveries (
+    id                  TEXT PRIMARY KEY,
+    source_domain       INTEGER NOT NULL,
+    tx_hash             TEXT NOT NULL,
+    transfer_id         TEXT,
+    event               TEXT NOT NULL,
+    dedupe_key          TEXT NOT NULL UNIQUE,
+    url                 TEXT NOT NULL,
+    payload             TEXT NOT NULL,
+
+    status              TEXT NOT NULL DEFAULT 'pending',
+    attempts            INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at     TEXT NOT NULL,
+    last_status_code    INTEGER,
+    last_error          TEXT,
+
+    created_at          TEXT NOT NULL,
+    delivered_at        TEXT,
+    updated_at          TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_webhooks_due ON webhook_deliveries(status, next_attempt_at);
+  CREATE INDEX idx_webhooks_tx_hash ON webhook_deliveries(tx_hash);
+
+  CREATE TABLE webhook_attempts (
+    delivery_id         TEXT NOT NULL,
+    attempt             INTEGER NOT NULL,
+    status_code         INTEGER,
+    error               TEXT,
+    duration_ms         INTEGER NOT NULL,
+    attempted_at        TEXT NOT NULL,
+
+    PRIMARY KEY (delivery_id, attempt)
+  );
+  `,
+
+  // 8: relay quotes, and the quote/fee locked in by a request
+  `
+  ALTER TABLE relay_requests ADD COLUMN quote_id TEXT;
+  ALTER TABLE relay_requests ADD COLUMN relay_fee TEXT;
+
+  CREATE TABLE relay_quotes (
+    id                  TEXT PRIMARY KEY,
+    source_domain       INTEGER NOT NULL,
+    amount              TEXT NOT NULL,
+    cctp_max_fee        TEXT NOT NULL,
+    relay_fee           TEXT NOT NULL,
+    relay_max_fee       TEXT NOT NULL,
+    forward_amount      TEXT NOT NULL,
+    gas_limit           TEXT NOT NULL,
+    gas_price           TEXT NOT NULL,
+    gas_cost            TEXT NOT NULL,
+    created_at          TEXT NOT NULL,
+    expires_at          TEXT NOT NULL
+  );
+  `,
+
+  // 9: integrator API keys; requests record the key that created them
+  `
+  CREATE TABLE integrators (
+    id                  TEXT PRIMARY KEY,
+    key_hash            TEXT NOT NULL UNIQUE,
+    key_prefix          TEXT NOT NULL,
+    requests_per_second INTEGER NOT NULL,
+    max_pending_jobs    INTEGER NOT NULL,
+    relay_fee           TEXT,
+    callback_url        TEXT,
+    created_at          TEXT NOT NULL,
+    revoked_at          TEXT,
+    updated_at          TEXT NOT NULL
+  );
+
+  ALTER TABLE relay_requests ADD COLUMN integrator_id TEXT;
+  ALTER TABLE relay_quotes ADD COLUMN integrator_id TEXT;
+  CREATE INDEX idx_requests_integrator
+    ON relay_requests(integrator_id, status);
+
+  DROP VIEW relay_entries;
+  CREATE VIEW relay_entries AS
+  SELECT
+    COALESCE(j.transfer_id, r.source_domain || ':' || r.tx_hash) AS key,
+    r.source_domain AS source_domain,
+    r.tx_hash AS tx_hash,
+    j.transfer_id AS transfer_id,
+    j.message_index AS message_index,
+    COALESCE(j.status, r.status) AS status,
+    j.outcome AS outcome,
+    j.amount AS amount,
+    COALESCE(j.error, r.error) AS error,
+    j.eth_tx_hash AS eth_tx_hash,
+    r.integrator_id AS integrator_id,
+    r.created_at AS created_at,
+    j.confirmed_at AS confirmed_at
+  FROM relay_requests r
+  LEFT JOIN relay_jobs j
+    ON j.source_domain = r.source_domain AND j.tx_hash = r.tx_hash;
+  `,
+
+  // 10: CCTP nonce, burn sender and ForwardParams recipients for lookups,
+  // backfilled from the attested messages already stored
+  (db) => {
+    // Frozen copy of the message decoding as of this migration, so a
+    // replay backfills the same values whatever cctp.ts and hookdata.ts
+    // become. Header nonce at 12, BurnMessageV2 messageSender at 248
+    // (as an address when left-padded), and the recipients of
+    // ABI-encoded ForwardParams in the hookData at 376; fields the
+    // message is too short for, or hookData the router could not
+    // decode, stay null.
+    const forwardParamsType =
+      "tuple(address fallbackRecipient, uint32 remoteDomain, bytes32 remoteRecipient, uint256 maxFee, uint256 relayMaxFee, bytes hookData)";
+    const identityOf = (message: string) => {
+      const bytes = ethers.getBytes(message);
+      const identity = {
+        nonce: bytes.length >= 44 ? ethers.hexlify(bytes.slice(12, 44)) : null,
+        messageSender: null as string | null,
+        fallbackRecipient: null as string | null,
+        remoteRecipient: null as string | null,
+      };
+      if (bytes.length >= 280) {
+        const sender = ethers.hexlify(bytes.slice(248, 280));
+        identity.messageSender = sender.startsWith(
+          "0x000000000000000000000000",
+        )
+          ? "0x" + sender.slice(-40)
+          : sender;
+      }
+      const hookData = bytes.slice(376);
+      if (bytes.length > 376) {
+        try {
+          const params = ethers.AbiCoder.defaultAbiCoder().decode(
+            [forwardParamsType],
+            hookData,
+          )[0];
+          // Solidity reverts on dirty high-order bits, ethers masks them
+          const base = Number(ethers.toBigInt(hookData.slice(0, 32)));
+          const clean = (from: number, to: number) =>
+            hookData.slice(base + from, base + to).every((b) => b === 0);
+          if (clean(0, 12) && clean(32, 60)) {
+            identity.fallbackRecipient = (
+              params.fallbackRecipient as string
+            ).toLowerCase();
+            identity.remoteRecipient = (
+              params.remoteRecipient as string
+            ).toLowerCase();
+          }
+        } catch {
+          // Not ForwardParams: the recipients stay null
+        }
+      }
+      return identity;
+    };
+
+    db.exec(`
+    ALTER TABLE relay_jobs ADD COLUMN nonce TEXT;
+    ALTER TABLE relay_jobs ADD COLUMN message_sender TEXT;
+    ALTER TABLE relay_jobs ADD COLUMN fallback_recipient TEXT;
+    ALTER TABLE relay_jobs ADD COLUMN remote_recipient TEXT;
+
+    CREATE INDEX idx_jobs_nonce ON relay_jobs(source_domain, nonce);
+    CREATE INDEX idx_jobs_message_sender ON relay_jobs(message_sender);
+    CREATE INDEX idx_jobs_fallback_recipient ON relay_jobs(fallback_recipient);
+    CREATE INDEX idx_jobs_remote_recipient ON relay_jobs(remote_recipient);
+    `);
+
+    const update = db.prepare(`
+      UPDATE relay_jobs SET
+        nonce = @nonce,
+        message_sender = @messageSender,
+        fallback_recipient = @fallbackRecipient,
+        remote_recipient = @remoteRecipient
+      WHERE transfer_id = @transferId
+    `);
+    const rows = db
+      .prepare(
+        "SELECT transfer_id, attested_message FROM relay_jobs WHERE attested_message IS NOT NULL",
+      )
+      .all() as { transfer_id: string; attested_message: string }[];
+    for (const row of rows) {
+      update.run({
+        transferId: row.transfer_id,
+        ...identityOf(row.attested_message),
+      });
+    }
+  },
+
+  // 11: per-request and per-job transition history, seeded with the
+  // archived attempts and the current state of every request and job
+  `
+  CREATE TABLE relay_job_events (
+    id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_domain       INTEGER NOT NULL,
+    tx_hash             TEXT NOT NULL,
+    attempt             INTEGER NOT NULL,
+    transfer_id         TEXT,
+    message_index       INTEGER,
+
+    status              TEXT NOT NULL,
+    error               TEXT,
+    retry_count         INTEGER,
+    poll_attempts       INTEGER,
+    eth_tx_hash         TEXT,
+
+    created_at          TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_job_events_request
+    ON relay_job_events(source_domain, tx_hash, created_at);
+
+  INSERT INTO relay_job_events (
+    source_domain, tx_hash, attempt, status, error, poll_attempts, created_at
+  )
+  SELECT source_domain, tx_hash, attempt, status, error, poll_attempts, ended_at
+  FROM relay_request_attempts;
+
+  INSERT INTO relay_job_events (
+    source_domain, tx_hash, attempt, status, error, poll_attempts, created_at
+  )
+  SELECT source_domain, tx_hash, attempt, status, error, poll_attempts, updated_at
+  FROM relay_requests;
+
+  INSERT INTO relay_job_events (
+    source_domain, tx_hash, attempt, transfer_id, message_index,
+    status, error, retry_count, eth_tx_hash, created_at
+  )
+  SELECT source_domain, tx_hash, attempt, transfer_id, message_index,
+    status, error, retry_count, eth_tx_hash, updated_at
+  FROM relay_jobs;
+  `,
+
+  // 12: amounts the router actually settled, from its outcome event
+  `
+  ALTER TABLE relay_jobs ADD COLUMN settled_amount TEXT;
+  ALTER TABLE relay_jobs ADD COLUMN settled_relay_fee TEXT;
+  ALTER TABLE relay_jobs ADD COLUMN operator_route_reason INTEGER;
+  `,
+
+  // 13: every relay transaction whose receipt was seen, for gas spend
+  `
+  CREATE TABLE relay_transactions (
+    eth_tx_hash         TEXT PRIMARY KEY,
+    transfer_id         TEXT NOT NULL,
+    status              TEXT NOT NULL,
+    gas_used            TEXT NOT NULL,
+    gas_price           TEXT NOT NULL,
+    block_number        INTEGER NOT NULL,
+    recorded_at         TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_transactions_recorded ON relay_transactions(recorded_at);
+  `,
+
+  // 14: gas per job for accounting exports
+  `
+  CREATE INDEX idx_transactions_transfer ON relay_transactions(transfer_id);
+  `,
+
+  // 15: per-request poll schedule; requests in flight are due right away
+  `
+  ALTER TABLE relay_requests ADD COLUMN next_poll_at TEXT;
+
+  UPDATE relay_requests SET next_poll_at = updated_at
+  WHERE status IN ('pending', 'polling');
+
+  CREATE INDEX idx_requests_next_poll ON relay_requests(status, next_poll_at);
+  `,
+
+  // 16: burn finality, which selects the request's poll profile
+  `
+  ALTER TABLE relay_requests ADD COLUMN min_finality_threshold INTEGER;
+  `,
+
+  // 17: route predicted from the attested message
+  `
+  ALTER TABLE relay_jobs ADD COLUMN predicted_route TEXT;
+  ALTER TABLE relay_jobs ADD COLUMN predicted_route_reason INTEGER;
+  `,
+
+  // 18: when a request's next poll was scheduled, per timeline entry
+  `
+  ALTER TABLE relay_job_events ADD COLUMN next_poll_at TEXT;
+  `,
+];
+
+// Applies pending migrations up to `target` (all by default; a lower
+// target builds an old schema to replay from)
+export function migrate(
+  db: Database.Database,
+  target: number = MIGRATIONS.length,
+): void {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let version = current; version < target; version++) {
+    db.transaction(() => {
+      const migration = MIGRATIONS[version];
+      if (typeof migration === "string") {
+        db.exec(migration);
+      } else {
+        migration(db);
+      }
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+function rowToRequest(row: Record<string, unknown>): RelayRequest {
   return {
     txHash: row.tx_hash as string,
     sourceDomain: row.source_domain as number,
+    attempt: row.attempt as number,
+    status: row.status as RelayRequestStatus,
+    error: row.error as string | null,
+    resolutionNote: row.resolution_note as string | null,
+    pollAttempts: row.poll_attempts as number,
+    nextPollAt: row.next_poll_at as string | null,
+    minFinalityThreshold: row.min_finality_threshold as number | null,
+    messageCount: row.message_count as number,
+    callbackUrl: row.callback_url as string | null,
+    quoteId: row.quote_id as string | null,
+    relayFee: row.relay_fee as string | null,
+    integratorId: row.integrator_id as string | null,
+    createdAt: row.created_at as string,
+    attestedAt: row.attested_at as string | null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToJob(row: Record<string, unknown>): RelayJob {
+  return {
+    transferId: row.transfer_id as string,
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    messageIndex: row.message_index as number,
+    attempt: row.attempt as number,
     attestedMessage: row.attested_message as string | null,
     attestation: row.attestation as string | null,
     irisNonce: row.iris_nonce as string | null,
     mintRecipient: row.mint_recipient as string | null,
     destinationDomain: row.destination_domain as number | null,
     amount: row.amount as string | null,
+    settledAmount: row.settled_amount as string | null,
+    settledRelayFee: row.settled_relay_fee as string | null,
+    operatorRouteReason: row.operator_route_reason as number | null,
+    predictedRoute: row.predicted_route as PredictedRoute | null,
+    predictedRouteReason: row.predicted_route_reason as number | null,
+    nonce: row.nonce as string | null,
+    messageSender: row.message_sender as string | null,
+    fallbackRecipient: row.fallback_recipient as string | null,
+    remoteRecipient: row.remote_recipient as string | null,
     ethTxHash: row.eth_tx_hash as string | null,
+    ethTxNonce: row.eth_tx_nonce as number | null,
     ethBlockNumber: row.eth_block_number as number | null,
     status: row.status as RelayStatus,
-    outcome: row.outcome as "forwarded" | "fallback" | "operator_routed" | null,
+    outcome: row.outcome as RelayOutcome | null,
     error: row.error as string | null,
-    pollAttempts: row.poll_attempts as number,
+    resolutionNote: row.resolution_note as string | null,
     retryCount: row.retry_count as number,
     createdAt: row.created_at as string,
     attestedAt: row.attested_at as string | null,
@@ -68,52 +837,715 @@ function rowToJob(row: Record<string, unknown>): RelayJob {
   };
 }
 
+function rowToJobEvent(row: Record<string, unknown>): RelayJobEvent {
+  return {
+    id: row.id as number,
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    attempt: row.attempt as number,
+    transferId: row.transfer_id as string | null,
+    messageIndex: row.message_index as number | null,
+    status: row.status as RelayStatus,
+    error: row.error as string | null,
+    retryCount: row.retry_count as number | null,
+    pollAttempts: row.poll_attempts as number | null,
+    nextPollAt: row.next_poll_at as string | null,
+    ethTxHash: row.eth_tx_hash as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function rowToListEntry(row: Record<string, unknown>): RelayListEntry {
+  return {
+    key: row.key as string,
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    transferId: row.transfer_id as string | null,
+    messageIndex: row.message_index as number | null,
+    status: row.status as RelayStatus,
+    outcome: row.outcome as RelayOutcome | null,
+    amount: row.amount as string | null,
+    error: row.error as string | null,
+    ethTxHash: row.eth_tx_hash as string | null,
+    integratorId: row.integrator_id as string | null,
+    createdAt: row.created_at as string,
+    confirmedAt: row.confirmed_at as string | null,
+  };
+}
+
+function rowToSettledRelay(row: Record<string, unknown>): SettledRelay {
+  return {
+    transferId: row.transfer_id as string,
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    messageIndex: row.message_index as number,
+    outcome: row.outcome as RelayOutcome | null,
+    ethTxHash: row.eth_tx_hash as string | null,
+    ethBlockNumber: row.eth_block_number as number | null,
+    confirmedAt: row.confirmed_at as string,
+    settledAmount: row.settled_amount as string | null,
+    settledRelayFee: row.settled_relay_fee as string | null,
+    operatorRouteReason: row.operator_route_reason as number | null,
+    gasCostWei:
+      row.gas_costs === null
+        ? null
+        : sumGasCost(row.gas_costs as string).toString(),
+    integratorId: row.integrator_id as string | null,
+  };
+}
+
+// Wei overflows SQLite integers and loses precision as a float, so the
+// page query concatenates "gas_used*gas_price" pairs (decimal strings,
+// comma separated) and they are multiplied and summed here
+function sumGasCost(gasCosts: string): bigint {
+  let total = 0n;
+  for (const pair of gasCosts.split(",")) {
+    const [gasUsed, gasPrice] = pair.split("*");
+    total += BigInt(gasUsed) * BigInt(gasPrice);
+  }
+  return total;
+}
+
+function rowToIntegrator(row: Record<string, unknown>): Integrator {
+  return {
+    id: row.id as string,
+    keyPrefix: row.key_prefix as string,
+    requestsPerSecond: row.requests_per_second as number,
+    maxPendingJobs: row.max_pending_jobs as number,
+    relayFee: row.relay_fee as string | null,
+    callbackUrl: row.callback_url as string | null,
+    createdAt: row.created_at as string,
+    revokedAt: row.revoked_at as string | null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToQuote(row: Record<string, unknown>): RelayQuote {
+  return {
+    id: row.id as string,
+    integratorId: row.integrator_id as string | null,
+    sourceDomain: row.source_domain as number,
+    amount: row.amount as string,
+    cctpMaxFee: row.cctp_max_fee as string,
+    relayFee: row.relay_fee as string,
+    relayMaxFee: row.relay_max_fee as string,
+    forwardAmount: row.forward_amount as string,
+    gasLimit: row.gas_limit as string,
+    gasPrice: row.gas_price as string,
+    gasCost: row.gas_cost as string,
+    createdAt: row.created_at as string,
+    expiresAt: row.expires_at as string,
+  };
+}
+
+function rowToWebhookDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    transferId: row.transfer_id as string | null,
+    event: row.event as WebhookEvent,
+    dedupeKey: row.dedupe_key as string,
+    url: row.url as string,
+    payload: row.payload as string,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    nextAttemptAt: row.next_attempt_at as string,
+    lastStatusCode: row.last_status_code as number | null,
+    lastError: row.last_error as string | null,
+    createdAt: row.created_at as string,
+    deliveredAt: row.delivered_at as string | null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToWebhookAttempt(row: Record<string, unknown>): WebhookAttempt {
+  return {
+    deliveryId: row.delivery_id as string,
+    attempt: row.attempt as number,
+    statusCode: row.status_code as number | null,
+    error: row.error as string | null,
+    durationMs: row.duration_ms as number,
+    attemptedAt: row.attempted_at as string,
+  };
+}
+
+function rowToPause(row: Record<string, unknown>): LoopPause {
+  return {
+    loop: row.loop as LoopName,
+    sourceDomain: row.source_domain as number | null,
+    pausedBy: row.paused_by as string,
+    reason: row.reason as string,
+    pausedAt: row.paused_at as string,
+  };
+}
+
+function rowToAdminAction(row: Record<string, unknown>): AdminAction {
+  return {
+    id: row.id as number,
+    actor: row.actor as string,
+    action: row.action as string,
+    target: row.target as string,
+    reason: row.reason as string,
+    details: row.details
+      ? (JSON.parse(row.details as string) as Record<string, unknown>)
+      : null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function rowToAttempt(row: Record<string, unknown>): RelayAttempt {
+  return {
+    sourceDomain: row.source_domain as number,
+    txHash: row.tx_hash as string,
+    attempt: row.attempt as number,
+    status: row.status as RelayStatus,
+    error: row.error as string | null,
+    pollAttempts: row.poll_attempts as number,
+    startedAt: row.started_at as string,
+    endedAt: row.ended_at as string,
+  };
+}
+
+// Build an UPDATE from the provided fields only
+function buildUpdate(
+  table: string,
+  columnMap: Record<string, string>,
+  where: string,
+  keyParams: Record<string, unknown>,
+  updates: Record<string, unknown>,
+): { sql: string; params: Record<string, unknown> } {
+  const sets: string[] = ["updated_at = @updated_at"];
+  const params: Record<string, unknown> = {
+    ...keyParams,
+    updated_at: new Date().toISOString(),
+  };
+
+  for (const [key, col] of Object.entries(columnMap)) {
+    if (key in updates) {
+      sets.push(`${col} = @${key}`);
+      params[key] = updates[key];
+    }
+  }
+
+  return {
+    sql: `UPDATE ${table} SET ${sets.join(", ")} WHERE ${where}`,
+    params,
+  };
+}
+
+const REQUEST_COLUMNS: Record<string, string> = {
+  status: "status",
+  error: "error",
+  resolutionNote: "resolution_note",
+  pollAttempts: "poll_attempts",
+  nextPollAt: "next_poll_at",
+  minFinalityThreshold: "min_finality_threshold",
+  messageCount: "message_count",
+  callbackUrl: "callback_url",
+  attestedAt: "attested_at",
+};
+
+const INTEGRATOR_COLUMNS: Record<string, string> = {
+  requestsPerSecond: "requests_per_second",
+  maxPendingJobs: "max_pending_jobs",
+  relayFee: "relay_fee",
+  callbackUrl: "callback_url",
+  revokedAt: "revoked_at",
+};
+
+const WEBHOOK_COLUMNS: Record<string, string> = {
+  status: "status",
+  attempts: "attempts",
+  nextAttemptAt: "next_attempt_at",
+  lastStatusCode: "last_status_code",
+  lastError: "last_error",
+  deliveredAt: "delivered_at",
+};
+
+const JOB_COLUMNS: Record<string, string> = {
+  attestedMessage: "attested_message",
+  attestation: "attestation",
+  irisNonce: "iris_nonce",
+  mintRecipient: "mint_recipient",
+  destinationDomain: "destination_domain",
+  amount: "amount",
+  ethTxHash: "eth_tx_hash",
+  ethTxNonce: "eth_tx_nonce",
+  ethBlockNumber: "eth_block_number",
+  status: "status",
+  outcome: "outcome",
+  settledAmount: "settled_amount",
+  settledRelayFee: "settled_relay_fee",
+  operatorRouteReason: "operator_route_reason",
+  predictedRoute: "predicted_route",
+  predictedRouteReason: "predicted_route_reason",
+  error: "error",
+  resolutionNote: "resolution_note",
+  retryCount: "retry_count",
+  attestedAt: "attested_at",
+  submittedAt: "submitted_at",
+  confirmedAt: "confirmed_at",
+};
+
 export function createStore(dbPath: string): Store {
   const db = new Database(dbPath);
   db.pragma("journal_mode = WAL");
-  db.exec(CREATE_TABLE);
+  migrate(db);
+
+  const insertRequestStmt = db.prepare(`
+    INSERT INTO relay_requests (
+      tx_hash, source_domain, attempt,
+      status, error, resolution_note, poll_attempts, next_poll_at,
+      min_finality_threshold, message_count,
+      callback_url, quote_id, relay_fee, integrator_id,
+      created_at, attested_at, updated_at
+    ) VALUES (
+      @txHash, @sourceDomain, @attempt,
+      @status, @error, @resolutionNote, @pollAttempts, @nextPollAt,
+      @minFinalityThreshold, @messageCount,
+      @callbackUrl, @quoteId, @relayFee, @integratorId,
+      @createdAt, @attestedAt, @updatedAt
+    )
+  `);
 
-  const insertStmt = db.prepare(`
+  const getRequestStmt = db.prepare(
+    "SELECT * FROM relay_requests WHERE source_domain = ? AND tx_hash = ?",
+  );
+
+  const getRequestsByTxHashStmt = db.prepare(
+    "SELECT * FROM relay_requests WHERE tx_hash = ? ORDER BY created_at ASC",
+  );
+
+  const countRequestsStmt = db.prepare(
+    "SELECT status, COUNT(*) as cnt FROM relay_requests GROUP BY status",
+  );
+
+  // A job is only replaced when it failed in an earlier request attempt;
+  // otherwise re-polling the same transaction leaves it untouched.
+  const upsertJobStmt = db.prepare(`
     INSERT INTO relay_jobs (
-      tx_hash, source_domain,
+      transfer_id, source_domain, tx_hash, message_index, attempt,
       attested_message, attestation, iris_nonce,
       mint_recipient, destination_domain, amount,
-      eth_tx_hash, eth_block_number,
-      status, outcome, error, poll_attempts, retry_count,
+      nonce, message_sender, fallback_recipient, remote_recipient,
+      eth_tx_hash, eth_tx_nonce, eth_block_number,
+      status, outcome, error, resolution_note, retry_count,
+      settled_amount, settled_relay_fee, operator_route_reason,
+      predicted_route, predicted_route_reason,
       created_at, attested_at, submitted_at, confirmed_at, updated_at
     ) VALUES (
-      @txHash, @sourceDomain,
+      @transferId, @sourceDomain, @txHash, @messageIndex, @attempt,
       @attestedMessage, @attestation, @irisNonce,
       @mintRecipient, @destinationDomain, @amount,
-      @ethTxHash, @ethBlockNumber,
-      @status, @outcome, @error, @pollAttempts, @retryCount,
+      @nonce, @messageSender, @fallbackRecipient, @remoteRecipient,
+      @ethTxHash, @ethTxNonce, @ethBlockNumber,
+      @status, @outcome, @error, @resolutionNote, @retryCount,
+      @settledAmount, @settledRelayFee, @operatorRouteReason,
+      @predictedRoute, @predictedRouteReason,
       @createdAt, @attestedAt, @submittedAt, @confirmedAt, @updatedAt
     )
+    ON CONFLICT (transfer_id) DO UPDATE SET
+      message_index = excluded.message_index,
+      attempt = excluded.attempt,
+      attested_message = excluded.attested_message,
+      attestation = excluded.attestation,
+      iris_nonce = excluded.iris_nonce,
+      mint_recipient = excluded.mint_recipient,
+      destination_domain = excluded.destination_domain,
+      amount = excluded.amount,
+      nonce = excluded.nonce,
+      message_sender = excluded.message_sender,
+      fallback_recipient = excluded.fallback_recipient,
+      remote_recipient = excluded.remote_recipient,
+      eth_tx_hash = excluded.eth_tx_hash,
+      eth_tx_nonce = excluded.eth_tx_nonce,
+      eth_block_number = excluded.eth_block_number,
+      status = excluded.status,
+      outcome = excluded.outcome,
+      settled_amount = excluded.settled_amount,
+      settled_relay_fee = excluded.settled_relay_fee,
+      operator_route_reason = excluded.operator_route_reason,
+      predicted_route = excluded.predicted_route,
+      predicted_route_reason = excluded.predicted_route_reason,
+      error = excluded.error,
+      resolution_note = excluded.resolution_note,
+      retry_count = excluded.retry_count,
+      created_at = excluded.created_at,
+      attested_at = excluded.attested_at,
+      submitted_at = excluded.submitted_at,
+      confirmed_at = excluded.confirmed_at,
+      updated_at = excluded.updated_at
+    WHERE relay_jobs.status = 'failed'
+      AND relay_jobs.attempt < excluded.attempt
   `);
 
-  const getStmt = db.prepare("SELECT * FROM relay_jobs WHERE tx_hash = ?");
+  const getJobStmt = db.prepare(
+    "SELECT * FROM relay_jobs WHERE transfer_id = ?",
+  );
+
+  const getJobsForRequestStmt = db.prepare(
+    "SELECT * FROM relay_jobs WHERE source_domain = ? AND tx_hash = ? ORDER BY message_index ASC",
+  );
+
+  const getJobByNonceStmt = db.prepare(
+    "SELECT * FROM relay_jobs WHERE source_domain = ? AND nonce = ?",
+  );
 
   const countStmt = db.prepare(
     "SELECT status, COUNT(*) as cnt FROM relay_jobs GROUP BY status",
   );
 
+  const getIntegratorByKeyStmt = db.prepare(
+    "SELECT * FROM integrators WHERE key_hash = ? AND revoked_at IS NULL",
+  );
+
+  const countPendingStmt = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM relay_requests
+        WHERE integrator_id IS @integratorId
+          AND status IN ('pending', 'polling'))
+      +
+      (SELECT COUNT(*) FROM relay_jobs j
+        JOIN relay_requests r
+          ON r.source_domain = j.source_domain AND r.tx_hash = j.tx_hash
+        WHERE r.integrator_id IS @integratorId
+          AND j.status IN ('attested', 'submitted'))
+      AS cnt
+  `);
+
+  const countRequestsByDomainStmt = db.prepare(
+    "SELECT source_domain, status, COUNT(*) as cnt FROM relay_requests GROUP BY source_domain, status",
+  );
+
+  const countJobsByDomainStmt = db.prepare(
+    "SELECT source_domain, status, COUNT(*) as cnt FROM relay_jobs GROUP BY source_domain, status",
+  );
+
+  const countOutcomeStmt = db.prepare(
+    "SELECT outcome, COUNT(*) as cnt FROM relay_jobs WHERE outcome IS NOT NULL GROUP BY outcome",
+  );
+
+  const insertAttemptStmt = db.prepare(`
+    INSERT INTO relay_request_attempts (
+      source_domain, tx_hash, attempt,
+      status, error, poll_attempts,
+      started_at, ended_at
+    ) VALUES (
+      @sourceDomain, @txHash, @attempt,
+      @status, @error, @pollAttempts,
+      @startedAt, @endedAt
+    )
+  `);
+
+  const getAttemptsStmt = db.prepare(
+    "SELECT * FROM relay_request_attempts WHERE source_domain = ? AND tx_hash = ? ORDER BY attempt ASC",
+  );
+
+  const changes = new EventEmitter();
+  changes.setMaxListeners(0);
+
+  // Listener errors must never fail the write that triggered them
+  function emitChange(change: RelayChange): void {
+    try {
+      changes.emit("change", change);
+    } catch (err) {
+      console.error("Change listener error:", err);
+    }
+  }
+
+  function notifyRequest(sourceDomain: number, txHash: string): void {
+    if (changes.listenerCount("change") === 0) return;
+    const row = getRequestStmt.get(sourceDomain, txHash) as
+      | Record<string, unknown>
+      | undefined;
+    if (row) {
+      emitChange({ kind: "request", request: rowToRequest(row) });
+    }
+  }
+
+  function notifyJob(transferId: string): void {
+    if (changes.listenerCount("change") === 0) return;
+    const row = getJobStmt.get(transferId) as
+      | Record<string, unknown>
+      | undefined;
+    if (row) {
+      emitChange({ kind: "job", job: rowToJob(row) });
+    }
+  }
+
+  const insertJobEventStmt = db.prepare(`
+    INSERT INTO relay_job_events (
+      source_domain, tx_hash, attempt, transfer_id, message_index,
+      status, error, retry_count, poll_attempts, next_poll_at, eth_tx_hash,
+      created_at
+    ) VALUES (
+      @sourceDomain, @txHash, @attempt, @transferId, @messageIndex,
+      @status, @error, @retryCount, @pollAttempts, @nextPollAt, @ethTxHash,
+      @createdAt
+    )
+  `);
+
+  const getJobEventsStmt = db.prepare(
+    "SELECT * FROM relay_job_events WHERE source_domain = ? AND tx_hash = ? ORDER BY created_at ASC, id ASC",
+  );
+
+  // Append the current state of a request or job to its timeline
+  function recordRequestEvent(request: RelayRequest): void {
+    insertJobEventStmt.run({
+      sourceDomain: request.sourceDomain,
+      txHash: request.txHash,
+      attempt: request.attempt,
+      transferId: null,
+      messageIndex: null,
+      status: request.status,
+      error: request.error,
+      retryCount: null,
+      pollAttempts: request.pollAttempts,
+      nextPollAt: request.nextPollAt,
+      ethTxHash: null,
+      createdAt: request.updatedAt,
+    });
+  }
+
+  function recordJobEvent(job: RelayJob): void {
+    insertJobEventStmt.run({
+      sourceDomain: job.sourceDomain,
+      txHash: job.txHash,
+      attempt: job.attempt,
+      transferId: job.transferId,
+      messageIndex: job.messageIndex,
+      status: job.status,
+      error: job.error,
+      retryCount: job.retryCount,
+      pollAttempts: null,
+      nextPollAt: null,
+      ethTxHash: job.ethTxHash,
+      createdAt: job.updatedAt,
+    });
+  }
+
+  // Archive the failed attempt and reset the request to a fresh `pending`
+  // state. poll_attempts restarts at 0, which gives the new attempt the
+  // full poll budget before it times out; failed jobs are re-validated
+  // when the poller sees their message again.
+  const resubmitTx = db.transaction(
+    (sourceDomain: number, txHash: string): RelayRequest => {
+      const row = getRequestStmt.get(sourceDomain, txHash) as
+        | Record<string, unknown>
+        | undefined;
+      if (!row) {
+        throw new Error(`Request not found: ${sourceDomain}/${txHash}`);
+      }
+      const request = rowToRequest(row);
+      const failedJobs = (
+        getJobsForRequestStmt.all(sourceDomain, txHash) as Record<
+          string,
+          unknown
+        >[]
+      )
+        .map(rowToJob)
+        .filter((j) => j.status === "failed");
+      if (request.status !== "failed" && failedJobs.length === 0) {
+        throw new Error(
+          `Only failed requests can be resubmitted (status: ${request.status})`,
+        );
+      }
+
+      const errors = [
+        request.error,
+        ...failedJobs.map((j) => `message ${j.messageIndex}: ${j.error}`),
+      ].filter((e): e is string => e !== null);
+
+      insertAttemptStmt.run({
+        sourceDomain: request.sourceDomain,
+        txHash: request.txHash,
+        attempt: request.attempt,
+        status: "failed",
+        error: errors.length > 0 ? errors.join("; ") : null,
+        pollAttempts: request.pollAttempts,
+        startedAt: request.createdAt,
+        endedAt: request.updatedAt,
+      });
+
+      const now = new Date().toISOString();
+      db.prepare(
+        `UPDATE relay_requests SET
+          attempt = attempt + 1,
+          status = 'pending', error = NULL, poll_attempts = 0,
+          next_poll_at = @now, created_at = @now, attested_at = NULL, updated_at = @now
+        WHERE source_domain = @sourceDomain AND tx_hash = @txHash`,
+      ).run({ now, sourceDomain, txHash });
+
+      const resubmitted = rowToRequest(
+        getRequestStmt.get(sourceDomain, txHash) as Record<string, unknown>,
+      );
+      recordRequestEvent(resubmitted);
+      notifyRequest(sourceDomain, txHash);
+      return resubmitted;
+    },
+  );
+
   return {
-    createJob(job: RelayJob): void {
-      insertStmt.run({
-        txHash: job.txHash,
+    createRequest(request: RelayRequest): void {
+      insertRequestStmt.run({
+        txHash: request.txHash,
+        sourceDomain: request.sourceDomain,
+        attempt: request.attempt,
+        status: request.status,
+        error: request.error,
+        resolutionNote: request.resolutionNote,
+        pollAttempts: request.pollAttempts,
+        nextPollAt: request.nextPollAt,
+        minFinalityThreshold: request.minFinalityThreshold,
+        messageCount: request.messageCount,
+        callbackUrl: request.callbackUrl,
+        quoteId: request.quoteId,
+        relayFee: request.relayFee,
+        integratorId: request.integratorId,
+        createdAt: request.createdAt,
+        attestedAt: request.attestedAt,
+        updatedAt: request.updatedAt,
+      });
+      recordRequestEvent(request);
+      notifyRequest(request.sourceDomain, request.txHash);
+    },
+
+    getRequest(sourceDomain: number, txHash: string): RelayRequest | undefined {
+      const row = getRequestStmt.get(sourceDomain, txHash) as
+        | Record<string, unknown>
+        | undefined;
+      return row ? rowToRequest(row) : undefined;
+    },
+
+    getRequestsByTxHash(txHash: string): RelayRequest[] {
+      const rows = getRequestsByTxHashStmt.all(txHash) as Record<
+        string,
+        unknown
+      >[];
+      return rows.map(rowToRequest);
+    },
+
+    updateRequest(
+      sourceDomain: number,
+      txHash: string,
+      updates: Partial<RelayRequest>,
+    ): void {
+      const { sql, params } = buildUpdate(
+        "relay_requests",
+        REQUEST_COLUMNS,
+        "source_domain = @source_domain AND tx_hash = @tx_hash",
+        { source_domain: sourceDomain, tx_hash: txHash },
+        updates as Record<string, unknown>,
+      );
+      const before = EVENT_FIELDS.some((f) => f in updates)
+        ? (getRequestStmt.get(sourceDomain, txHash) as
+            | Record<string, unknown>
+            | undefined)
+        : undefined;
+      db.prepare(sql).run(params);
+      if (before) {
+        const after = rowToRequest(
+          getRequestStmt.get(sourceDomain, txHash) as Record<string, unknown>,
+        );
+        if (
+          before.status !== after.status ||
+          before.error !== after.error ||
+          before.poll_attempts !== after.pollAttempts
+        ) {
+          recordRequestEvent(after);
+        }
+      }
+      if (NOTIFY_FIELDS.some((f) => f in updates)) {
+        notifyRequest(sourceDomain, txHash);
+      }
+    },
+
+    resubmitRequest(sourceDomain: number, txHash: string): RelayRequest {
+      return resubmitTx(sourceDomain, txHash);
+    },
+
+    getJobEvents(sourceDomain: number, txHash: string): RelayJobEvent[] {
+      const rows = getJobEventsStmt.all(sourceDomain, txHash) as Record<
+        string,
+        unknown
+      >[];
+      return rows.map(rowToJobEvent);
+    },
+
+    getAttempts(sourceDomain: number, txHash: string): RelayAttempt[] {
+      const rows = getAttemptsStmt.all(sourceDomain, txHash) as Record<
+        string,
+        unknown
+      >[];
+      return rows.map(rowToAttempt);
+    },
+
+    // `turn` numbers each group's due requests, so one integrator or
+    // domain with a backlog only gets one slot per round
+    getDueRequests(
+      now: string,
+      limit: number,
+      excludeDomains: number[] = [],
+    ): RelayRequest[] {
+      const excluded = excludeDomains.map(() => "?").join(", ");
+      const sql = `
+        SELECT * FROM (
+          SELECT *, ROW_NUMBER() OVER (
+            PARTITION BY source_domain, integrator_id
+            ORDER BY poll_attempts > 0, next_poll_at
+          ) AS turn
+          FROM relay_requests
+          WHERE status IN ('pending', 'polling')
+            AND next_poll_at <= ?
+            AND source_domain NOT IN (${excluded})
+        )
+        ORDER BY turn, poll_attempts > 0, next_poll_at
+        LIMIT ?`;
+      const rows = db
+        .prepare(sql)
+        .all(now, ...excludeDomains, limit) as Record<string, unknown>[];
+      return rows.map(rowToRequest);
+    },
+
+    countRequestsByStatus(): Record<string, number> {
+      const rows = countRequestsStmt.all() as { status: string; cnt: number }[];
+      const result: Record<string, number> = {};
+      for (const row of rows) {
+        result[row.status] = row.cnt;
+      }
+      return result;
+    },
+
+    upsertJob(job: RelayJob): void {
+      const result = upsertJobStmt.run({
+        transferId: job.transferId,
         sourceDomain: job.sourceDomain,
+        txHash: job.txHash,
+        messageIndex: job.messageIndex,
+        attempt: job.attempt,
         attestedMessage: job.attestedMessage,
         attestation: job.attestation,
         irisNonce: job.irisNonce,
         mintRecipient: job.mintRecipient,
         destinationDomain: job.destinationDomain,
         amount: job.amount,
+        nonce: job.nonce,
+        messageSender: job.messageSender,
+        fallbackRecipient: job.fallbackRecipient,
+        remoteRecipient: job.remoteRecipient,
         ethTxHash: job.ethTxHash,
+        ethTxNonce: job.ethTxNonce,
         ethBlockNumber: job.ethBlockNumber,
         status: job.status,
         outcome: job.outcome,
+        settledAmount: job.settledAmount,
+        settledRelayFee: job.settledRelayFee,
+        operatorRouteReason: job.operatorRouteReason,
+        predictedRoute: job.predictedRoute,
+        predictedRouteReason: job.predictedRouteReason,
         error: job.error,
-        pollAttempts: job.pollAttempts,
+        resolutionNote: job.resolutionNote,
         retryCount: job.retryCount,
         createdAt: job.createdAt,
         attestedAt: job.attestedAt,
@@ -121,50 +1553,88 @@ export function createStore(dbPath: string): Store {
         confirmedAt: job.confirmedAt,
         updatedAt: job.updatedAt,
       });
+      if (result.changes > 0) {
+        recordJobEvent(job);
+        notifyJob(job.transferId);
+      }
     },
 
-    getJob(txHash: string): RelayJob | undefined {
-      const row = getStmt.get(txHash) as Record<string, unknown> | undefined;
+    getJob(transferId: string): RelayJob | undefined {
+      const row = getJobStmt.get(transferId) as
+        | Record<string, unknown>
+        | undefined;
       return row ? rowToJob(row) : undefined;
     },
 
-    updateJob(txHash: string, updates: Partial<RelayJob>): void {
-      // Build SET clause dynamically from provided fields
-      const columnMap: Record<string, string> = {
-        sourceDomain: "source_domain",
-        attestedMessage: "attested_message",
-        attestation: "attestation",
-        irisNonce: "iris_nonce",
-        mintRecipient: "mint_recipient",
-        destinationDomain: "destination_domain",
-        amount: "amount",
-        ethTxHash: "eth_tx_hash",
-        ethBlockNumber: "eth_block_number",
-        status: "status",
-        outcome: "outcome",
-        error: "error",
-        pollAttempts: "poll_attempts",
-        retryCount: "retry_count",
-        attestedAt: "attested_at",
-        submittedAt: "submitted_at",
-        confirmedAt: "confirmed_at",
-      };
+    getJobsForRequest(sourceDomain: number, txHash: string): RelayJob[] {
+      const rows = getJobsForRequestStmt.all(sourceDomain, txHash) as Record<
+        string,
+        unknown
+      >[];
+      return rows.map(rowToJob);
+    },
 
-      const sets: string[] = ["updated_at = @updated_at"];
-      const params: Record<string, unknown> = {
-        updated_at: new Date().toISOString(),
-        tx_hash: txHash,
-      };
+    getJobByNonce(sourceDomain: number, nonce: string): RelayJob | undefined {
+      const row = getJobByNonceStmt.get(sourceDomain, nonce.toLowerCase()) as
+        | Record<string, unknown>
+        | undefined;
+      return row ? rowToJob(row) : undefined;
+    },
 
-      for (const [key, col] of Object.entries(columnMap)) {
-        if (key in updates) {
-          sets.push(`${col} = @${key}`);
-          params[key] = (updates as Record<string, unknown>)[key];
-        }
+    // Jobs where the account burned the USDC or is a ForwardParams
+    // recipient, newest first. `account` is in the stored form: a
+    // lowercase address, or a lowercase bytes32 that is not one.
+    getJobsForAccount(
+      account: string,
+      limit: number,
+      after?: RelayListCursor,
+    ): RelayJob[] {
+      const recipient =
+        account.length === 42 ? ethers.zeroPadValue(account, 32) : account;
+      const params: unknown[] = [account, account, recipient];
+      let cursor = "";
+      if (after) {
+        cursor = "AND (created_at < ? OR (created_at = ? AND transfer_id < ?))";
+        params.push(after.createdAt, after.createdAt, after.key);
       }
+      const rows = db
+        .prepare(
+          `SELECT * FROM relay_jobs
+          WHERE (message_sender = ? OR fallback_recipient = ? OR remote_recipient = ?)
+          ${cursor}
+          ORDER BY created_at DESC, transfer_id DESC LIMIT ?`,
+        )
+        .all(...params, limit) as Record<string, unknown>[];
+      return rows.map(rowToJob);
+    },
 
-      const sql = `UPDATE relay_jobs SET ${sets.join(", ")} WHERE tx_hash = @tx_hash`;
+    updateJob(transferId: string, updates: Partial<RelayJob>): void {
+      const { sql, params } = buildUpdate(
+        "relay_jobs",
+        JOB_COLUMNS,
+        "transfer_id = @transfer_id",
+        { transfer_id: transferId },
+        updates as Record<string, unknown>,
+      );
+      const before = EVENT_FIELDS.some((f) => f in updates)
+        ? (getJobStmt.get(transferId) as Record<string, unknown> | undefined)
+        : undefined;
       db.prepare(sql).run(params);
+      if (before) {
+        const after = rowToJob(
+          getJobStmt.get(transferId) as Record<string, unknown>,
+        );
+        if (
+          before.status !== after.status ||
+          before.error !== after.error ||
+          before.retry_count !== after.retryCount
+        ) {
+          recordJobEvent(after);
+        }
+      }
+      if (NOTIFY_FIELDS.some((f) => f in updates)) {
+        notifyJob(transferId);
+      }
     },
 
     getJobsByStatus(statuses: RelayStatus[], limit: number): RelayJob[] {
@@ -177,12 +1647,16 @@ export function createStore(dbPath: string): Store {
       return rows.map(rowToJob);
     },
 
-    getOldestByStatus(status: RelayStatus): RelayJob | undefined {
+    getOldestByStatus(
+      status: RelayStatus,
+      excludeDomains: number[] = [],
+    ): RelayJob | undefined {
+      const excluded = excludeDomains.map(() => "?").join(", ");
       const row = db
         .prepare(
-          "SELECT * FROM relay_jobs WHERE status = ? ORDER BY created_at ASC LIMIT 1",
+          `SELECT * FROM relay_jobs WHERE status = ? AND source_domain NOT IN (${excluded}) ORDER BY created_at ASC LIMIT 1`,
         )
-        .get(status) as Record<string, unknown> | undefined;
+        .get(status, ...excludeDomains) as Record<string, unknown> | undefined;
       return row ? rowToJob(row) : undefined;
     },
 
@@ -194,5 +1668,396 @@ export function createStore(dbPath: string): Store {
       }
       return result;
     },
+
+    countByOutcome(): Record<string, number> {
+      const rows = countOutcomeStmt.all() as { outcome: string; cnt: number }[];
+      const result: Record<string, number> = {};
+      for (const row of rows) {
+        result[row.outcome] = row.cnt;
+      }
+      return result;
+    },
+
+    countByDomain(): DomainQueueDepth[] {
+      const byDomain = new Map<number, DomainQueueDepth>();
+      const depthOf = (sourceDomain: number): DomainQueueDepth => {
+        let depth = byDomain.get(sourceDomain);
+        if (!depth) {
+          depth = { sourceDomain, requests: {}, jobs: {} };
+          byDomain.set(sourceDomain, depth);
+        }
+        return depth;
+      };
+
+      type Row = { source_domain: number; status: string; cnt: number };
+      for (const row of countRequestsByDomainStmt.all() as Row[]) {
+        depthOf(row.source_domain).requests[row.status] = row.cnt;
+      }
+      for (const row of countJobsByDomainStmt.all() as Row[]) {
+        depthOf(row.source_domain).jobs[row.status] = row.cnt;
+      }
+      return [...byDomain.values()].sort(
+        (a, b) => a.sourceDomain - b.sourceDomain,
+      );
+    },
+
+    listRelays(
+      filter: RelayListFilter,
+      limit: number,
+      after?: RelayListCursor,
+    ): RelayListEntry[] {
+      const where: string[] = [];
+      const params: unknown[] = [];
+
+      if (filter.statuses && filter.statuses.length > 0) {
+        where.push(`status IN (${filter.statuses.map(() => "?").join(", ")})`);
+        params.push(...filter.statuses);
+      }
+      if (filter.outcomes && filter.outcomes.length > 0) {
+        where.push(`outcome IN (${filter.outcomes.map(() => "?").join(", ")})`);
+        params.push(...filter.outcomes);
+      }
+      if (filter.sourceDomain !== undefined) {
+        where.push("source_domain = ?");
+        params.push(filter.sourceDomain);
+      }
+      if (filter.createdFrom !== undefined) {
+        where.push("created_at >= ?");
+        params.push(filter.createdFrom);
+      }
+      if (filter.createdTo !== undefined) {
+        where.push("created_at < ?");
+        params.push(filter.createdTo);
+      }
+      if (filter.confirmedFrom !== undefined) {
+        where.push("confirmed_at >= ?");
+        params.push(filter.confirmedFrom);
+      }
+      if (filter.confirmedTo !== undefined) {
+        where.push("confirmed_at < ?");
+        params.push(filter.confirmedTo);
+      }
+      if (filter.minAmount !== undefined) {
+        where.push("CAST(amount AS INTEGER) >= ?");
+        params.push(filter.minAmount);
+      }
+      if (filter.maxAmount !== undefined) {
+        where.push("CAST(amount AS INTEGER) <= ?");
+        params.push(filter.maxAmount);
+      }
+      if (filter.errorContains !== undefined) {
+        where.push("instr(lower(error), lower(?)) > 0");
+        params.push(filter.errorContains);
+      }
+      if (filter.integratorId !== undefined) {
+        where.push("integrator_id = ?");
+        params.push(filter.integratorId);
+      }
+      if (after) {
+        where.push("(created_at < ? OR (created_at = ? AND key < ?))");
+        params.push(after.createdAt, after.createdAt, after.key);
+      }
+
+      const sql = `SELECT * FROM relay_entries ${
+        where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""
+      } ORDER BY created_at DESC, key DESC LIMIT ?`;
+      const rows = db.prepare(sql).all(...params, limit) as Record<
+        string,
+        unknown
+      >[];
+      return rows.map(rowToListEntry);
+    },
+
+    getSettledRelays(
+      range: { from?: string; to?: string },
+      limit: number,
+      after?: SettledRelayCursor,
+    ): SettledRelay[] {
+      const where = ["j.status = 'confirmed'", "j.confirmed_at IS NOT NULL"];
+      const params: unknown[] = [];
+      if (range.from !== undefined) {
+        where.push("j.confirmed_at >= ?");
+        params.push(range.from);
+      }
+      if (range.to !== undefined) {
+        where.push("j.confirmed_at < ?");
+        params.push(range.to);
+      }
+      if (after) {
+        where.push(
+          "(j.confirmed_at > ? OR (j.confirmed_at = ? AND j.transfer_id > ?))",
+        );
+        params.push(after.confirmedAt, after.confirmedAt, after.transferId);
+      }
+
+      const rows = db
+        .prepare(
+          `SELECT j.*, r.integrator_id AS integrator_id,
+            (SELECT GROUP_CONCAT(t.gas_used || '*' || t.gas_price)
+              FROM relay_transactions t
+              WHERE t.transfer_id = j.transfer_id) AS gas_costs
+          FROM relay_jobs j
+          LEFT JOIN relay_requests r
+            ON r.source_domain = j.source_domain AND r.tx_hash = j.tx_hash
+          WHERE ${where.join(" AND ")}
+          ORDER BY j.confirmed_at ASC, j.transfer_id ASC
+          LIMIT ?`,
+        )
+        .all(...params, limit) as Record<string, unknown>[];
+      return rows.map(rowToSettledRelay);
+    },
+
+    pauseLoop(pause: LoopPause): void {
+      db.prepare(
+        `INSERT OR REPLACE INTO loop_pauses (
+          loop, source_domain, paused_by, reason, paused_at
+        ) VALUES (
+          @loop, @sourceDomain, @pausedBy, @reason, @pausedAt
+        )`,
+      ).run(pause);
+    },
+
+    resumeLoop(loop: LoopName, sourceDomain: number | null): boolean {
+      const result = db
+        .prepare("DELETE FROM loop_pauses WHERE loop = ? AND source_domain IS ?")
+        .run(loop, sourceDomain);
+      return result.changes > 0;
+    },
+
+    getPauses(): LoopPause[] {
+      const rows = db
+        .prepare("SELECT * FROM loop_pauses ORDER BY paused_at ASC")
+        .all() as Record<string, unknown>[];
+      return rows.map(rowToPause);
+    },
+
+    recordAdminAction(action: Omit<AdminAction, "id" | "createdAt">): void {
+      db.prepare(
+        `INSERT INTO admin_actions (
+          actor, action, target, reason, details, created_at
+        ) VALUES (
+          @actor, @action, @target, @reason, @details, @createdAt
+        )`,
+      ).run({
+        actor: action.actor,
+        action: action.action,
+        target: action.target,
+        reason: action.reason,
+        details: action.details ? JSON.stringify(action.details) : null,
+        createdAt: new Date().toISOString(),
+      });
+    },
+
+    getAdminActions(limit: number): AdminAction[] {
+      const rows = db
+        .prepare("SELECT * FROM admin_actions ORDER BY id DESC LIMIT ?")
+        .all(limit) as Record<string, unknown>[];
+      return rows.map(rowToAdminAction);
+    },
+
+    enqueueWebhook(delivery: WebhookDelivery): boolean {
+      const result = db
+        .prepare(
+          `INSERT OR IGNORE INTO webhook_deliveries (
+            id, source_domain, tx_hash, transfer_id, event, dedupe_key,
+            url, payload, status, attempts, next_attempt_at,
+            last_status_code, last_error, created_at, delivered_at, updated_at
+          ) VALUES (
+            @id, @sourceDomain, @txHash, @transferId, @event, @dedupeKey,
+            @url, @payload, @status, @attempts, @nextAttemptAt,
+            @lastStatusCode, @lastError, @createdAt, @deliveredAt, @updatedAt
+          )`,
+        )
+        .run(delivery);
+      return result.changes > 0;
+    },
+
+    getWebhookDelivery(id: string): WebhookDelivery | undefined {
+      const row = db
+        .prepare("SELECT * FROM webhook_deliveries WHERE id = ?")
+        .get(id) as Record<string, unknown> | undefined;
+      return row ? rowToWebhookDelivery(row) : undefined;
+    },
+
+    getDueWebhooks(limit: number): WebhookDelivery[] {
+      const rows = db
+        .prepare(
+          "SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?",
+        )
+        .all(new Date().toISOString(), limit) as Record<string, unknown>[];
+      return rows.map(rowToWebhookDelivery);
+    },
+
+    updateWebhookDelivery(
+      id: string,
+      updates: Partial<WebhookDelivery>,
+    ): void {
+      const { sql, params } = buildUpdate(
+        "webhook_deliveries",
+        WEBHOOK_COLUMNS,
+        "id = @id",
+        { id },
+        updates as Record<string, unknown>,
+      );
+      db.prepare(sql).run(params);
+    },
+
+    recordWebhookAttempt(attempt: WebhookAttempt): void {
+      db.prepare(
+        `INSERT INTO webhook_attempts (
+          delivery_id, attempt, status_code, error, duration_ms, attempted_at
+        ) VALUES (
+          @deliveryId, @attempt, @statusCode, @error, @durationMs, @attemptedAt
+        )`,
+      ).run(attempt);
+    },
+
+    getWebhookDeliveries(
+      filter: { txHash?: string; status?: WebhookDeliveryStatus },
+      limit: number,
+    ): WebhookDelivery[] {
+      const rows = db
+        .prepare(
+          `SELECT * FROM webhook_deliveries
+          WHERE (@txHash IS NULL OR tx_hash = @txHash)
+            AND (@status IS NULL OR status = @status)
+          ORDER BY created_at DESC LIMIT @limit`,
+        )
+        .all({
+          txHash: filter.txHash ?? null,
+          status: filter.status ?? null,
+          limit,
+        }) as Record<string, unknown>[];
+      return rows.map(rowToWebhookDelivery);
+    },
+
+    getWebhookAttempts(deliveryId: string): WebhookAttempt[] {
+      const rows = db
+        .prepare(
+          "SELECT * FROM webhook_attempts WHERE delivery_id = ? ORDER BY attempt ASC",
+        )
+        .all(deliveryId) as Record<string, unknown>[];
+      return rows.map(rowToWebhookAttempt);
+    },
+
+    createIntegrator(integrator: Integrator, keyHash: string): void {
+      db.prepare(
+        `INSERT INTO integrators (
+          id, key_hash, key_prefix, requests_per_second, max_pending_jobs,
+          relay_fee, callback_url, created_at, revoked_at, updated_at
+        ) VALUES (
+          @id, @keyHash, @keyPrefix, @requestsPerSecond, @maxPendingJobs,
+          @relayFee, @callbackUrl, @createdAt, @revokedAt, @updatedAt
+        )`,
+      ).run({ ...integrator, keyHash });
+    },
+
+    getIntegrator(id: string): Integrator | undefined {
+      const row = db
+        .prepare("SELECT * FROM integrators WHERE id = ?")
+        .get(id) as Record<string, unknown> | undefined;
+      return row ? rowToIntegrator(row) : undefined;
+    },
+
+    getIntegratorByKeyHash(keyHash: string): Integrator | undefined {
+      const row = getIntegratorByKeyStmt.get(keyHash) as
+        | Record<string, unknown>
+        | undefined;
+      return row ? rowToIntegrator(row) : undefined;
+    },
+
+    listIntegrators(): Integrator[] {
+      const rows = db
+        .prepare("SELECT * FROM integrators ORDER BY id")
+        .all() as Record<string, unknown>[];
+      return rows.map(rowToIntegrator);
+    },
+
+    updateIntegrator(id: string, updates: Partial<Integrator>): void {
+      const { sql, params } = buildUpdate(
+        "integrators",
+        INTEGRATOR_COLUMNS,
+        "id = @id",
+        { id },
+        updates as Record<string, unknown>,
+      );
+      db.prepare(sql).run(params);
+    },
+
+    countPendingJobs(integratorId: string | null): number {
+      const row = countPendingStmt.get({ integratorId }) as { cnt: number };
+      return row.cnt;
+    },
+
+    createQuote(quote: RelayQuote): void {
+      db.prepare(
+        `INSERT INTO relay_quotes (
+          id, source_domain, amount, cctp_max_fee, relay_fee, relay_max_fee,
+          forward_amount, gas_limit, gas_price, gas_cost, created_at, expires_at,
+          integrator_id
+        ) VALUES (
+          @id, @sourceDomain, @amount, @cctpMaxFee, @relayFee, @relayMaxFee,
+          @forwardAmount, @gasLimit, @gasPrice, @gasCost, @createdAt, @expiresAt,
+          @integratorId
+        )`,
+      ).run(quote);
+    },
+
+    getQuote(id: string): RelayQuote | undefined {
+      const row = db
+        .prepare("SELECT * FROM relay_quotes WHERE id = ?")
+        .get(id) as Record<string, unknown> | undefined;
+      return row ? rowToQuote(row) : undefined;
+    },
+
+    recordTransaction(tx: RelayTransaction): void {
+      db.prepare(
+        `INSERT OR IGNORE INTO relay_transactions (
+          eth_tx_hash, transfer_id, status, gas_used, gas_price,
+          block_number, recorded_at
+        ) VALUES (
+          @ethTxHash, @transferId, @status, @gasUsed, @gasPrice,
+          @blockNumber, @recordedAt
+        )`,
+      ).run(tx);
+    },
+
+    // Summed as bigint, as in sumGasCost
+    getGasSpend(since: string | null): GasSpend {
+      const rows = db
+        .prepare(
+          `SELECT status, gas_used, gas_price FROM relay_transactions
+          WHERE ? IS NULL OR recorded_at >= ?`,
+        )
+        .iterate(since, since) as IterableIterator<{
+        status: string;
+        gas_used: string;
+        gas_price: string;
+      }>;
+      let transactions = 0;
+      let reverted = 0;
+      let gasUsed = 0n;
+      let costWei = 0n;
+      for (const row of rows) {
+        transactions++;
+        if (row.status === "reverted") reverted++;
+        const used = BigInt(row.gas_used);
+        gasUsed += used;
+        costWei += used * BigInt(row.gas_price);
+      }
+      return {
+        transactions,
+        reverted,
+        gasUsed: gasUsed.toString(),
+        costWei: costWei.toString(),
+      };
+    },
+
+    onChange(listener: (change: RelayChange) => void): () => void {
+      changes.on("change", listener);
+      return () => {
+        changes.off("change", listener);
+      };
+    },
   };
 }
@@ -0,0 +1,290 @@
+import {
+  ServerResponse,
+  type IncomingMessage,
+  type RequestListener,
+  type Server,
+} from "node:http";
+import type { Request, Response } from "express";
+import type { Socket } from "node:net";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import { BYTES32_REGEX } from "./hex.js";
+import { integratorOf } from "./integrators.js";
+import type { Integrator, RelayChange } from "./types.js";
+
+// Max txHashes a single connection may follow
+const MAX_SUBSCRIPTIONS = 100;
+
+const SSE_HEARTBEAT_MS = 15_000;
+const WS_PING_MS = 30_000;
+
+// Open SSE + WebSocket connections, capped by config.maxStreamClients
+let activeClients = 0;
+
+// Handshakes are completed by the /relays/ws route, once the API key
+// and rate limit middleware have passed
+const wss = new WebSocketServer({ noServer: true });
+
+// An upgrade request routed through the express app, with the bytes
+// that followed its headers
+interface UpgradeRequest extends IncomingMessage {
+  upgradeHead?: Buffer;
+}
+
+interface StatusEvent {
+  type: "request" | "job";
+  txHash: string;
+  sourceDomain: number;
+  transferId: string | null;
+  messageIndex: number | null;
+  status: string;
+  outcome: string | null;
+  error: string | null;
+  ethTxHash: string | null;
+  updatedAt: string;
+}
+
+function toEvent(change: RelayChange): StatusEvent {
+  if (change.kind === "request") {
+    const r = change.request;
+    return {
+      type: "request",
+      txHash: r.txHash,
+      sourceDomain: r.sourceDomain,
+      transferId: null,
+      messageIndex: null,
+      status: r.status,
+      outcome: null,
+      error: r.error,
+      ethTxHash: null,
+      updatedAt: r.updatedAt,
+    };
+  }
+  const j = change.job;
+  return {
+    type: "job",
+    txHash: j.txHash,
+    sourceDomain: j.sourceDomain,
+    transferId: j.transferId,
+    messageIndex: j.messageIndex,
+    status: j.status,
+    outcome: j.outcome,
+    error: j.error,
+    ethTxHash: j.ethTxHash,
+    updatedAt: j.updatedAt,
+  };
+}
+
+// Streams only carry relays the caller submitted: the integrator's own,
+// or anonymous ones for anonymous callers
+function ownedBy(
+  store: Store,
+  change: RelayChange,
+  integrator: Integrator | null,
+): boolean {
+  const request =
+    change.kind === "request"
+      ? change.request
+      : store.getRequest(change.job.sourceDomain, change.job.txHash);
+  return request?.integratorId === (integrator?.id ?? null);
+}
+
+// Current state of a txHash, sent on subscribe so nothing is missed
+// between the client's last poll and the subscription
+function snapshot(
+  store: Store,
+  txHash: string,
+  integrator: Integrator | null,
+): StatusEvent[] {
+  const events: StatusEvent[] = [];
+  for (const request of store.getRequestsByTxHash(txHash)) {
+    if (request.integratorId !== (integrator?.id ?? null)) continue;
+    events.push(toEvent({ kind: "request", request }));
+    for (const job of store.getJobsForRequest(
+      request.sourceDomain,
+      request.txHash,
+    )) {
+      events.push(toEvent({ kind: "job", job }));
+    }
+  }
+  return events;
+}
+
+function parseTxHashes(raw: unknown): string[] | null {
+  const list = typeof raw === "string" ? raw.split(",") : raw;
+  if (
+    !Array.isArray(list) ||
+    list.length === 0 ||
+    list.length > MAX_SUBSCRIPTIONS ||
+    !list.every((h) => typeof h === "string" && BYTES32_REGEX.test(h))
+  ) {
+    return null;
+  }
+  return list.map((h: string) => h.toLowerCase());
+}
+
+// GET /relays/stream?txHash=0x..,0x.. — Server-Sent Events
+export function createSseHandler(config: Config, store: Store) {
+  return (req: Request, res: Response): void => {
+    const txHashes = parseTxHashes(req.query.txHash);
+    if (!txHashes) {
+      res.status(400).json({
+        error: `txHash must list 1-${MAX_SUBSCRIPTIONS} transaction hashes`,
+      });
+      return;
+    }
+    if (activeClients >= config.maxStreamClients) {
+      res.status(503).json({ error: "Too many stream clients" });
+      return;
+    }
+    activeClients++;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: StatusEvent) => {
+      res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const integrator = integratorOf(res);
+    const subscribed = new Set(txHashes);
+    for (const txHash of subscribed) {
+      snapshot(store, txHash, integrator).forEach(send);
+    }
+
+    const unsubscribe = store.onChange((change) => {
+      const event = toEvent(change);
+      if (subscribed.has(event.txHash) && ownedBy(store, change, integrator)) {
+        send(event);
+      }
+    });
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      activeClients--;
+    });
+  };
+}
+
+// Upgrade requests go through the express app like any other request,
+// so API keys and rate limits apply before the handshake. A request the
+// middleware answers (401, 429, 404) gets that response and is closed.
+export function routeUpgrades(server: Server, app: RequestListener): void {
+  server.on("upgrade", (req: UpgradeRequest, socket, head: Buffer) => {
+    const res = new ServerResponse(req);
+    res.assignSocket(socket as Socket);
+    res.on("finish", () => socket.destroy());
+    req.upgradeHead = head;
+    app(req, res);
+  });
+}
+
+export function closeWebSockets(): void {
+  for (const client of wss.clients) {
+    client.terminate();
+  }
+}
+
+// GET /relays/ws. Clients send
+//   {"type": "subscribe" | "unsubscribe", "txHashes": ["0x..", ...]}
+// and receive {"type": "request" | "job", ...} status events, or
+// {"type": "error", "error": "..."} for bad input.
+export function createWebSocketHandler(config: Config, store: Store) {
+  return (req: Request, res: Response): void => {
+    const head = (req as UpgradeRequest).upgradeHead;
+    if (!head) {
+      res.status(426).json({ error: "Expected a WebSocket upgrade" });
+      return;
+    }
+    if (activeClients >= config.maxStreamClients) {
+      res.status(503).json({ error: "Too many stream clients" });
+      return;
+    }
+
+    const integrator = integratorOf(res);
+    res.detachSocket(req.socket);
+    wss.handleUpgrade(req, req.socket, head, (socket) =>
+      serveSocket(config, store, socket, integrator),
+    );
+  };
+}
+
+function serveSocket(
+  config: Config,
+  store: Store,
+  socket: WebSocket,
+  integrator: Integrator | null,
+): void {
+  if (activeClients >= config.maxStreamClients) {
+    socket.close(1013, "Too many stream clients");
+    return;
+  }
+  activeClients++;
+
+  const subscribed = new Set<string>();
+  const send = (payload: unknown) => socket.send(JSON.stringify(payload));
+
+  socket.on("message", (data) => {
+    let msg: { type?: unknown; txHashes?: unknown };
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      send({ type: "error", error: "Invalid JSON" });
+      return;
+    }
+
+    const txHashes = parseTxHashes(msg.txHashes);
+    if (!txHashes) {
+      send({ type: "error", error: "Invalid txHashes" });
+      return;
+    }
+
+    if (msg.type === "subscribe") {
+      if (new Set([...subscribed, ...txHashes]).size > MAX_SUBSCRIPTIONS) {
+        send({ type: "error", error: "Too many subscriptions" });
+        return;
+      }
+      for (const txHash of txHashes) {
+        subscribed.add(txHash);
+        snapshot(store, txHash, integrator).forEach(send);
+      }
+    } else if (msg.type === "unsubscribe") {
+      txHashes.forEach((h) => subscribed.delete(h));
+    } else {
+      send({ type: "error", error: "Unknown message type" });
+    }
+  });
+
+  const unsubscribe = store.onChange((change) => {
+    const event = toEvent(change);
+    if (subscribed.has(event.txHash) && ownedBy(store, change, integrator)) {
+      send(event);
+    }
+  });
+
+  // Drop connections that stop answering pings
+  let alive = true;
+  socket.on("pong", () => {
+    alive = true;
+  });
+  const ping = setInterval(() => {
+    if (!alive) {
+      socket.terminate();
+      return;
+    }
+    alive = false;
+    socket.ping();
+  }, WS_PING_MS);
+
+  socket.on("close", () => {
+    clearInterval(ping);
+    unsubscribe();
+    activeClients--;
+  });
+}
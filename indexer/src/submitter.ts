@@ -1,155 +1,218 @@
 import { ethers } from "ethers";
 import type { Config } from "./config.js";
 import type { Store } from "./store.js";
+import { ROUTER_ABI } from "./abis.js";
 import {
-  ROUTER_ABI,
-  RELAYED_TOPIC0,
-  FALLBACK_TRIGGERED_TOPIC0,
-  RECOVERED_FROM_CONSUMED_NONCE_TOPIC0,
-  OPERATOR_ROUTED_TOPIC0,
-} from "./abis.js";
+  findSettlement,
+  parseOutcome,
+  transactionOfReceipt,
+} from "./settlement.js";
+import {
+  failureReason,
+  observeStage,
+  recordReceiptGas,
+  submissionFailures,
+} from "./metrics.js";
+import { heartbeat } from "./health.js";
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export function startSubmitter(config: Config, store: Store): void {
+// Submits the oldest attested job of an unpaused domain and waits for
+// its receipt. Returns false when no job was due.
+export function createSubmitter(config: Config, store: Store) {
   const provider = new ethers.JsonRpcProvider(config.ethereumRpcUrl);
   const wallet = new ethers.Wallet(config.relayerPrivateKey, provider);
   const router = new ethers.Contract(config.routerAddress, ROUTER_ABI, wallet);
 
-  async function loop(): Promise<void> {
-    while (true) {
+  return async function submitNext(): Promise<boolean> {
+    // Skip domains an operator paused through the admin API
+    const pauses = store.getPauses().filter((p) => p.loop === "submitter");
+    const job = pauses.some((p) => p.sourceDomain === null)
+      ? undefined
+      : store.getOldestByStatus(
+          "attested",
+          pauses.map((p) => p.sourceDomain as number),
+        );
+
+    if (!job) {
+      return false;
+    }
+
+    const label = `${job.txHash}#${job.messageIndex}`;
+    let submitted = false;
+
+    try {
+      // The router is the authority on whether the transfer is done:
+      // if it was settled elsewhere (another relayer, or our own tx
+      // from before a crash), record that instead of submitting.
+      if (await router.settledTransfers(job.transferId)) {
+        const settlement = await findSettlement(config, provider, job);
+        store.updateJob(job.transferId, {
+          status: "confirmed",
+          outcome: settlement?.outcome ?? null,
+          settledAmount: settlement?.settledAmount ?? null,
+          settledRelayFee: settlement?.settledRelayFee ?? null,
+          operatorRouteReason: settlement?.operatorRouteReason ?? null,
+          ethTxHash: settlement?.ethTxHash ?? null,
+          ethBlockNumber: settlement?.ethBlockNumber ?? null,
+          error: settlement ? null : "settled by an unknown transaction",
+          confirmedAt: new Date().toISOString(),
+        });
+        console.log(
+          `Already settled: ${label} → ${settlement?.outcome ?? "unknown"}`,
+        );
+        return true;
+      }
+
+      // A request created from a quote keeps the quoted fee
+      const request = store.getRequest(job.sourceDomain, job.txHash);
+      const relayFee = request?.relayFee
+        ? BigInt(request.relayFee)
+        : config.relayFee;
+
+      // Estimate gas first to catch reverts cheaply
+      let gasEstimate: bigint;
       try {
-        const job = store.getOldestByStatus("attested");
+        gasEstimate = await router.receiveAndForward.estimateGas(
+          job.attestedMessage,
+          job.attestation,
+          relayFee,
+        );
+      } catch (err) {
+        throw new Error(
+          `Gas estimation failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
 
-        if (!job) {
-          await sleep(config.submitterPollIntervalMs);
-          continue;
-        }
+      // Submit with 20% gas buffer
+      const tx = await router.receiveAndForward(
+        job.attestedMessage,
+        job.attestation,
+        relayFee,
+        { gasLimit: (gasEstimate * 120n) / 100n },
+      );
+
+      const submittedAt = new Date().toISOString();
+      store.updateJob(job.transferId, {
+        ethTxHash: tx.hash,
+        ethTxNonce: tx.nonce,
+        status: "submitted",
+        submittedAt,
+      });
+      submitted = true;
+      observeStage("submission", job.attestedAt, submittedAt);
+
+      console.log(`Submitted tx ${tx.hash} for ${label}`);
+
+      // Wait for 1 confirmation. If it doesn't arrive in time the job
+      // stays `submitted` and the reconciler takes over.
+      const receipt = await tx.wait(1, config.confirmationTimeoutMs);
+
+      if (!receipt || receipt.status === 0) {
+        throw new Error(`Tx reverted: ${tx.hash}`);
+      }
 
-        try {
-          // Estimate gas first to catch reverts cheaply
-          let gasEstimate: bigint;
-          try {
-            gasEstimate = await router.receiveAndForward.estimateGas(
-              job.attestedMessage,
-              job.attestation,
-              config.relayFee,
-            );
-          } catch (err) {
-            throw new Error(
-              `Gas estimation failed: ${err instanceof Error ? err.message : String(err)}`,
-            );
-          }
-
-          // Submit with 20% gas buffer
-          const tx = await router.receiveAndForward(
-            job.attestedMessage,
-            job.attestation,
-            config.relayFee,
-            { gasLimit: (gasEstimate * 120n) / 100n },
-          );
-
-          store.updateJob(job.txHash, {
-            ethTxHash: tx.hash,
-            status: "submitted",
-            submittedAt: new Date().toISOString(),
-          });
+      recordReceiptGas(receipt);
+      store.recordTransaction(transactionOfReceipt(job.transferId, receipt));
+
+      // Determine outcome from events
+      const {
+        outcome,
+        recovered,
+        settledAmount,
+        settledRelayFee,
+        operatorRouteReason,
+      } = parseOutcome(config, receipt);
+
+      if (outcome === "operator_routed") {
+        console.warn(
+          `Operator-routed for ${label} (empty or malformed hookData)`,
+        );
+      }
 
-          console.log(`Submitted tx ${tx.hash} for ${job.txHash}`);
-
-          // Wait for 1 confirmation
-          const receipt = await tx.wait(1);
-
-          if (!receipt || receipt.status === 0) {
-            throw new Error(`Tx reverted: ${tx.hash}`);
-          }
-
-          // Determine outcome from events
-          let outcome: "forwarded" | "fallback" | "operator_routed" | null =
-            null;
-
-          const relayedLog = receipt.logs.find(
-            (log: ethers.Log) => log.topics[0] === RELAYED_TOPIC0,
-          );
-          const fallbackLog = receipt.logs.find(
-            (log: ethers.Log) =>
-              log.topics[0] === FALLBACK_TRIGGERED_TOPIC0,
-          );
-          const operatorRoutedLog = receipt.logs.find(
-            (log: ethers.Log) =>
-              log.topics[0] === OPERATOR_ROUTED_TOPIC0,
-          );
-          const recoveredLog = receipt.logs.find(
-            (log: ethers.Log) =>
-              log.topics[0] === RECOVERED_FROM_CONSUMED_NONCE_TOPIC0,
-          );
-
-          if (relayedLog) {
-            outcome = "forwarded";
-          } else if (fallbackLog) {
-            outcome = "fallback";
-          } else if (operatorRoutedLog) {
-            outcome = "operator_routed";
-            console.warn(
-              `Operator-routed for ${job.txHash} (empty or malformed hookData)`,
-            );
-          }
-
-          // Log if the nonce-consumed recovery path was used
-          if (recoveredLog) {
-            console.warn(
-              `Nonce-consumed recovery used for ${job.txHash}`,
-            );
-          }
-
-          store.updateJob(job.txHash, {
-            ethBlockNumber: receipt.blockNumber,
-            confirmedAt: new Date().toISOString(),
-            outcome,
-            status: "confirmed",
+      // Log if the nonce-consumed recovery path was used
+      if (recovered) {
+        console.warn(
+          `Nonce-consumed recovery used for ${label}`,
+        );
+      }
+
+      const confirmedAt = new Date().toISOString();
+      store.updateJob(job.transferId, {
+        ethBlockNumber: receipt.blockNumber,
+        confirmedAt,
+        outcome,
+        settledAmount,
+        settledRelayFee,
+        operatorRouteReason,
+        status: "confirmed",
+      });
+      observeStage("confirmation", submittedAt, confirmedAt);
+
+      console.log(
+        `Relay confirmed: ${label} → ${outcome ?? "unknown"}`,
+      );
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : String(err);
+      console.error(`Submission failed for ${label}:`, message);
+      submissionFailures.inc({ reason: failureReason(message) });
+
+      // Once a tx is out, only its receipt (or router state) can say
+      // what happened — leave the job `submitted` for the reconciler.
+      if (submitted) {
+        store.updateJob(job.transferId, { error: message });
+        return true;
+      }
+
+      // "transfer settled" means the replay guard fired — this
+      // transfer was already processed. No point retrying.
+      const terminal =
+        message.includes("transfer settled") ||
+        message.includes("Nonce already used") ||
+        message.includes("invalid destinationDomain") ||
+        message.includes("invalid destinationCaller") ||
+        message.includes("invalid mintRecipient");
+
+      if (terminal) {
+        store.updateJob(job.transferId, {
+          status: "failed",
+          error: message,
+          retryCount: job.retryCount + 1,
+        });
+      } else {
+        const newRetryCount = job.retryCount + 1;
+        if (newRetryCount >= config.maxRetries) {
+          store.updateJob(job.transferId, {
+            status: "failed",
+            error: message,
+            retryCount: newRetryCount,
           });
+        } else {
+          // Keep as attested for retry
+          store.updateJob(job.transferId, {
+            error: message,
+            retryCount: newRetryCount,
+          });
+        }
+      }
+    }
+    return true;
+  };
+}
+
+export function startSubmitter(config: Config, store: Store): void {
+  const submitNext = createSubmitter(config, store);
 
-          console.log(
-            `Relay confirmed: ${job.txHash} → ${outcome ?? "unknown"}`,
-          );
-        } catch (err) {
-          const message =
-            err instanceof Error ? err.message : String(err);
-          console.error(`Submission failed for ${job.txHash}:`, message);
-
-          // "transfer settled" means the replay guard fired — this
-          // transfer was already processed. No point retrying.
-          const terminal =
-            message.includes("transfer settled") ||
-            message.includes("Nonce already used") ||
-            message.includes("invalid destinationDomain") ||
-            message.includes("invalid destinationCaller") ||
-            message.includes("invalid mintRecipient");
-
-          if (terminal) {
-            store.updateJob(job.txHash, {
-              status: "failed",
-              error: message,
-              retryCount: job.retryCount + 1,
-            });
-          } else {
-            const newRetryCount = job.retryCount + 1;
-            if (newRetryCount >= config.maxRetries) {
-              store.updateJob(job.txHash, {
-                status: "failed",
-                error: message,
-                retryCount: newRetryCount,
-              });
-            } else {
-              // Keep as attested for retry
-              store.updateJob(job.txHash, {
-                error: message,
-                retryCount: newRetryCount,
-              });
-            }
-          }
+  async function loop(): Promise<void> {
+    while (true) {
+      heartbeat("submitter");
+      try {
+        if (!(await submitNext())) {
+          await sleep(config.submitterPollIntervalMs);
+          continue;
         }
       } catch (err) {
         console.error("Submitter loop error:", err);
@@ -4,13 +4,80 @@ export type RelayStatus =
   | "attested"
   | "submitted"
   | "confirmed"
-  | "failed";
+  | "failed"
+  | "resolved"; // closed manually by an operator
 
+// A request only tracks the Iris lookup; per-message progress lives on
+// its child jobs.
+export type RelayRequestStatus =
+  | "pending"
+  | "polling"
+  | "attested"
+  | "failed"
+  | "resolved";
+
+export type RelayOutcome = "forwarded" | "fallback" | "operator_routed";
+
+// Route the router will take, read from the attested message before
+// submitting: "forward" ends as forwarded or fallback
+export type PredictedRoute = "forward" | "operator";
+
+// One POST /relay submission: a source transaction that may contain
+// several CCTP burn messages.
+export interface RelayRequest {
+  // (sourceDomain, txHash) is the PRIMARY KEY
+  txHash: string; // 0x-prefixed lowercase
+  sourceDomain: number;
+
+  // 1 on creation, incremented each time a failed request is resubmitted
+  attempt: number;
+
+  status: RelayRequestStatus;
+  error: string | null;
+  resolutionNote: string | null; // set when an operator resolves it
+  // Iris polls that got an answer; timeouts are budgets of these (see
+  // pollBudget in finality.ts)
+  pollAttempts: number;
+  // Earliest time of the next poll (backs off per attempt); null once
+  // the request is no longer polled
+  nextPollAt: string | null;
+  // From the source burn (or the Iris message); null until known, which
+  // polls on the domain's standard profile
+  minFinalityThreshold: number | null;
+
+  // Number of messages Iris reported for the transaction (0 until seen)
+  messageCount: number;
+
+  // Webhook target for confirmed/failed notifications
+  callbackUrl: string | null;
+
+  // Quote attached at creation; relayFee (USDC base units) is the fee
+  // charged for this request's jobs, null for the configured default
+  quoteId: string | null;
+  relayFee: string | null;
+
+  // API key that created the request, null for anonymous callers
+  integratorId: string | null;
+
+  // Timestamps (ISO strings)
+  createdAt: string;
+  attestedAt: string | null;
+  updatedAt: string;
+}
+
+// One attested CCTP message from a request's source transaction.
 export interface RelayJob {
-  txHash: string; // 0x-prefixed lowercase, PRIMARY KEY
+  // keccak256(abi.encodePacked(sourceDomain, nonce)) — the router's
+  // settledTransfers key, PRIMARY KEY
+  transferId: string;
+
+  // Parent request
   sourceDomain: number;
+  txHash: string;
+  messageIndex: number; // position in the Iris response
+  attempt: number; // request attempt that produced this job
 
-  // From Circle API (populated when attested)
+  // From Circle API
   attestedMessage: string | null;
   attestation: string | null;
   irisNonce: string | null;
@@ -20,17 +87,35 @@ export interface RelayJob {
   destinationDomain: number | null;
   amount: string | null;
 
+  // From the router's outcome event (see ReceiptOutcome in settlement.ts)
+  settledAmount: string | null;
+  settledRelayFee: string | null;
+  operatorRouteReason: number | null; // 1 empty hookData, 2 malformed
+
+  // From validating the attested message (see validate.ts); null for
+  // invalid messages and jobs attested before it was recorded
+  predictedRoute: PredictedRoute | null;
+  predictedRouteReason: number | null; // operatorRouteReason to expect
+
+  // Lookup keys from the attested message, lowercase (see
+  // MessageIdentity in cctp.ts)
+  nonce: string | null;
+  messageSender: string | null;
+  fallbackRecipient: string | null;
+  remoteRecipient: string | null;
+
   // Ethereum submission
   ethTxHash: string | null;
+  ethTxNonce: number | null; // relayer wallet nonce of ethTxHash
   ethBlockNumber: number | null;
 
   // State
   status: RelayStatus;
-  outcome: "forwarded" | "fallback" | "operator_routed" | null;
+  outcome: RelayOutcome | null;
   error: string | null;
+  resolutionNote: string | null; // set when an operator resolves it
 
   // Operational
-  pollAttempts: number;
   retryCount: number;
 
   // Timestamps (ISO strings)
@@ -40,3 +125,233 @@ export interface RelayJob {
   confirmedAt: string | null;
   updatedAt: string;
 }
+
+// Timeline entry, appended whenever a request or one of its jobs
+// changes status, error or retry count. Job fields are null on
+// request-level entries and pollAttempts on job-level ones.
+export interface RelayJobEvent {
+  id: number;
+  sourceDomain: number;
+  txHash: string;
+  attempt: number;
+  transferId: string | null;
+  messageIndex: number | null;
+
+  status: RelayStatus;
+  error: string | null;
+  retryCount: number | null;
+  pollAttempts: number | null;
+  nextPollAt: string | null; // request entries: when the next poll is due
+  ethTxHash: string | null;
+
+  createdAt: string;
+}
+
+// Snapshot of a failed request attempt, archived when it is resubmitted
+export interface RelayAttempt {
+  sourceDomain: number;
+  txHash: string;
+  attempt: number;
+
+  status: RelayStatus;
+  error: string | null;
+  pollAttempts: number;
+
+  startedAt: string;
+  endedAt: string;
+}
+
+// Emitted by the store whenever a request or job changes status,
+// outcome, error or ethTxHash
+export type RelayChange =
+  | { kind: "request"; request: RelayRequest }
+  | { kind: "job"; job: RelayJob };
+
+// Row of GET /relays: a job, or a request with no jobs yet
+export interface RelayListEntry {
+  key: string; // transferId, or "sourceDomain:txHash" for a bare request
+  sourceDomain: number;
+  txHash: string;
+  transferId: string | null;
+  messageIndex: number | null;
+  status: RelayStatus;
+  outcome: RelayOutcome | null;
+  amount: string | null;
+  error: string | null;
+  ethTxHash: string | null;
+  integratorId: string | null;
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface RelayListFilter {
+  statuses?: RelayStatus[];
+  outcomes?: RelayOutcome[];
+  sourceDomain?: number;
+  createdFrom?: string; // ISO, inclusive
+  createdTo?: string; // ISO, exclusive
+  confirmedFrom?: string;
+  confirmedTo?: string;
+  minAmount?: bigint;
+  maxAmount?: bigint;
+  errorContains?: string;
+  integratorId?: string;
+}
+
+// Position after the last entry of a page (entries are newest first)
+export interface RelayListCursor {
+  createdAt: string;
+  key: string;
+}
+
+// Requests and jobs of one source domain, counted by status
+export interface DomainQueueDepth {
+  sourceDomain: number;
+  requests: Record<string, number>;
+  jobs: Record<string, number>;
+}
+
+// An Ethereum transaction the relayer sent, recorded once its receipt
+// is seen (including reverts, which still cost gas)
+export interface RelayTransaction {
+  ethTxHash: string;
+  transferId: string;
+  status: "success" | "reverted";
+  gasUsed: string;
+  gasPrice: string; // effective price, wei
+  blockNumber: number;
+  recordedAt: string;
+}
+
+// A confirmed job with what its settlement moved, for accounting exports.
+// gasCostWei sums our own transactions for the job, reverts included;
+// null when we sent none (another relayer settled it) or sent them
+// before transactions were recorded.
+export interface SettledRelay {
+  transferId: string;
+  sourceDomain: number;
+  txHash: string;
+  messageIndex: number;
+  outcome: RelayOutcome | null;
+  ethTxHash: string | null;
+  ethBlockNumber: number | null;
+  confirmedAt: string;
+  settledAmount: string | null;
+  settledRelayFee: string | null;
+  operatorRouteReason: number | null;
+  gasCostWei: string | null;
+  integratorId: string | null;
+}
+
+// Position after the last settled relay of a page (oldest first)
+export interface SettledRelayCursor {
+  confirmedAt: string;
+  transferId: string;
+}
+
+export interface GasSpend {
+  transactions: number;
+  reverted: number;
+  gasUsed: string;
+  costWei: string;
+}
+
+// CCTP v2 burns with minFinalityThreshold <= 1000 are fast transfers
+export type Finality = "fast" | "standard";
+
+// How long a source domain's burns of one finality take to attest, and
+// how the poller treats them (see finality.ts)
+export interface FinalityProfile {
+  expectedLatencyMs: number; // no repeat poll before this, once Iris knows the burn
+  pollIntervalMs: number; // longest wait between two polls
+  timeoutMs: number; // polling time before attestation_timeout
+}
+
+export type LoopName = "poller" | "submitter";
+
+// A paused background loop; sourceDomain null pauses it for all domains
+export interface LoopPause {
+  loop: LoopName;
+  sourceDomain: number | null;
+  pausedBy: string;
+  reason: string;
+  pausedAt: string;
+}
+
+// A partner holding an API key. Only the key's SHA-256 is stored.
+export interface Integrator {
+  id: string; // chosen by the operator, e.g. "acme"
+  keyPrefix: string; // first characters of the key, to recognise it
+  requestsPerSecond: number;
+  maxPendingJobs: number;
+  relayFee: string | null; // overrides RELAY_FEE for its requests
+  callbackUrl: string | null; // default when POST /relay has none
+  createdAt: string;
+  revokedAt: string | null;
+  updatedAt: string;
+}
+
+// Audit record of an operator action through the admin API
+export interface AdminAction {
+  id: number;
+  actor: string;
+  action: string;
+  target: string;
+  reason: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+// Answer of GET /quote, kept so a later POST /relay can lock its fee.
+// Amounts are USDC base units, gas figures wei.
+export interface RelayQuote {
+  id: string;
+  integratorId: string | null; // only usable by the same caller
+  sourceDomain: number;
+  amount: string;
+  cctpMaxFee: string; // CCTP fee budget the burn will set
+  relayFee: string;
+  relayMaxFee: string; // recommended ForwardParams.relayMaxFee
+  forwardAmount: string; // worst case passed to depositToRemote
+  gasLimit: string;
+  gasPrice: string;
+  gasCost: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type WebhookEvent = "relay.confirmed" | "relay.failed";
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// A webhook notification and its retry state
+export interface WebhookDelivery {
+  id: string; // UUID, also sent to the receiver for idempotency
+  sourceDomain: number;
+  txHash: string;
+  transferId: string | null; // null for request-level failures
+  event: WebhookEvent;
+  dedupeKey: string;
+  url: string;
+  payload: string; // JSON body, signed as sent
+
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastStatusCode: number | null;
+  lastError: string | null;
+
+  createdAt: string;
+  deliveredAt: string | null;
+  updatedAt: string;
+}
+
+// One HTTP attempt of a webhook delivery
+export interface WebhookAttempt {
+  deliveryId: string;
+  attempt: number;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import type { PredictedRoute } from "./types.js";
+import { decodeMessage, HOOK_DATA_OFFSET } from "./cctp.js";
+import { decodeForwardParams } from "./hookdata.js";
+
+// `reason` is set when the message is not relayable. Otherwise the
+// route is what _settleAndRoute will do with it: forward (Relayed, or
+// FallbackTriggered if depositToRemote fails) or the operator wallet.
+// `warning` flags a risk the caller should log without refusing the
+// message.
+export interface Validation {
+  valid: boolean;
+  reason?: string;
+  warning?: string;
+  mintRecipient?: string;
+  destinationDomain?: number;
+  amount?: string;
+  predictedRoute?: PredictedRoute;
+  operatorRouteReason?: number; // 1 empty hookData, 2 malformed
+}
+
+// What the request and Iris say about the message
+export interface ExpectedMessage {
+  sourceDomain: number;
+  eventNonce: string;
+  relayFee: bigint;
+}
+
+// MessageV2 and BurnMessageV2 versions to relay. The router does not
+// read them; they only guard against a layout this indexer predates.
+export interface AcceptedVersions {
+  message: Set<number>;
+  burnMessage: Set<number>;
+}
+
+const BYTES32_ZERO = ethers.ZeroHash;
+
+// Mirrors XReserveRouter.MIN_MESSAGE_LENGTH
+const MIN_MESSAGE_LENGTH = HOOK_DATA_OFFSET;
+
+// Iris reports v2 nonces as hex; accept decimal as well
+function nonceToBytes32(eventNonce: string): string | null {
+  try {
+    return ethers.toBeHex(BigInt(eventNonce), 32);
+  } catch {
+    return null;
+  }
+}
+
+// Every precondition of receiveAndForward and _settleAndRoute that the
+// message and relay fee decide, in the router's order, plus consistency
+// with the request and Iris. A message that passes reverts only on
+// chain state: already settled, or the transmitter rejecting it.
+export function validateAttestedMessage(
+  messageHex: string,
+  expected: ExpectedMessage,
+  routerAddress: string,
+  routerBytes32: string,
+  versions: AcceptedVersions,
+): Validation {
+  // decodeMessage needs at least MIN_MESSAGE_LENGTH bytes, as the router
+  const decoded = decodeMessage(messageHex);
+  if (!decoded) {
+    return {
+      valid: false,
+      reason: `message too short (${ethers.dataLength(messageHex)} bytes, router requires ${MIN_MESSAGE_LENGTH})`,
+    };
+  }
+  const { burn } = decoded;
+
+  if (!versions.message.has(decoded.version)) {
+    return {
+      valid: false,
+      reason: `message version ${decoded.version} not in MESSAGE_VERSIONS (${[...versions.message].join(",")})`,
+    };
+  }
+  if (!versions.burnMessage.has(burn.version)) {
+    return {
+      valid: false,
+      reason: `burn message version ${burn.version} not in BURN_MESSAGE_VERSIONS (${[...versions.burnMessage].join(",")})`,
+    };
+  }
+  if (decoded.sourceDomain !== expected.sourceDomain) {
+    return {
+      valid: false,
+      reason: `message sourceDomain ${decoded.sourceDomain} != request sourceDomain ${expected.sourceDomain}`,
+    };
+  }
+  if (nonceToBytes32(expected.eventNonce) !== decoded.nonce) {
+    return {
+      valid: false,
+      reason: `eventNonce ${expected.eventNonce} != message nonce ${decoded.nonce}`,
+    };
+  }
+
+  if (decoded.destinationDomain !== 0) {
+    return {
+      valid: false,
+      reason: `destination domain ${decoded.destinationDomain} != 0 (Ethereum)`,
+    };
+  }
+
+  // Patch 8: production burns should set destinationCaller = router.
+  // Open caller (zero) is accepted with a warning — a third party could
+  // front-run receiveMessage and consume the nonce.
+  const destinationCaller = decoded.destinationCaller;
+  if (
+    destinationCaller !== BYTES32_ZERO &&
+    destinationCaller !== routerBytes32.toLowerCase()
+  ) {
+    return {
+      valid: false,
+      reason: `destinationCaller ${destinationCaller} != router or zero`,
+    };
+  }
+
+  const mintRecipient = ethers.getAddress(
+    "0x" + burn.mintRecipient.slice(-40),
+  );
+  if (burn.mintRecipient !== routerBytes32.toLowerCase()) {
+    return {
+      valid: false,
+      reason: `mintRecipient ${mintRecipient} != router ${routerAddress}`,
+    };
+  }
+
+  // Solidity 0.7 arithmetic is unchecked, hence the router's explicit
+  // check; the transmitter mints amount - feeExecuted
+  const amount = BigInt(burn.amount);
+  const feeExecuted = BigInt(burn.feeExecuted);
+  if (amount <= feeExecuted) {
+    return {
+      valid: false,
+      reason: `feeExecuted ${feeExecuted} >= amount ${amount}; the relay reverts with "invalid fee"`,
+    };
+  }
+  const mintedAmount = amount - feeExecuted;
+
+  const found = {
+    mintRecipient,
+    destinationDomain: decoded.destinationDomain,
+    amount: burn.amount,
+    ...(destinationCaller === BYTES32_ZERO
+      ? { warning: "destinationCaller is zero (open) — nonce front-run risk" }
+      : {}),
+  };
+
+  // _settleAndRoute: hookData the router cannot decode goes to the
+  // operator wallet instead of reverting
+  if (burn.hookData === "0x") {
+    return {
+      valid: true,
+      ...found,
+      predictedRoute: "operator",
+      operatorRouteReason: 1,
+    };
+  }
+  const forward = decodeForwardParams(burn.hookData);
+  if ("error" in forward) {
+    return {
+      valid: true,
+      ...found,
+      predictedRoute: "operator",
+      operatorRouteReason: 2,
+    };
+  }
+
+  const { params } = forward;
+  if (params.fallbackRecipient === ethers.ZeroAddress) {
+    return {
+      valid: false,
+      ...found,
+      reason: 'fallbackRecipient is the zero address; the relay reverts with "zero fallback"',
+    };
+  }
+  if (expected.relayFee > params.relayMaxFee) {
+    return {
+      valid: false,
+      ...found,
+      reason: `relay fee ${expected.relayFee} > relayMaxFee ${params.relayMaxFee}; the relay reverts with "relay fee exceeds max"`,
+    };
+  }
+  if (mintedAmount <= expected.relayFee) {
+    return {
+      valid: false,
+      ...found,
+      reason: `relay fee ${expected.relayFee} >= minted amount ${mintedAmount}; the relay reverts with "relay fee too high"`,
+    };
+  }
+
+  return { valid: true, ...found, predictedRoute: "forward" };
+}
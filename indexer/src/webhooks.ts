@@ -0,0 +1,348 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP } from "node:net";
+import type { Config } from "./config.js";
+import type { Store } from "./store.js";
+import type {
+  RelayChange,
+  RelayJob,
+  RelayRequest,
+  WebhookDelivery,
+  WebhookEvent,
+} from "./types.js";
+
+const BASE_BACKOFF_MS = 10_000;
+const MAX_BACKOFF_MS = 3_600_000;
+const BATCH_SIZE = 20;
+const MAX_CALLBACK_URL_LENGTH = 2048;
+
+// Loopback, private, link-local, shared, multicast and reserved ranges:
+// a callback URL must not make the indexer POST into its own network
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+interface ResolvedHost {
+  address: string;
+  family: 4 | 6;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return !NON_PUBLIC.check(mapped[1], "ipv4");
+  }
+  return !NON_PUBLIC.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves a callback host to the address to connect to, or returns an
+// error message. Every address the name resolves to must be public
+// unless webhookAllowPrivateHosts is set.
+async function resolveCallbackHost(
+  config: Config,
+  hostname: string,
+): Promise<ResolvedHost | string> {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true });
+  } catch {
+    return "callbackUrl host does not resolve";
+  }
+  if (addresses.length === 0) {
+    return "callbackUrl host does not resolve";
+  }
+  if (
+    !config.webhookAllowPrivateHosts &&
+    !addresses.every((a) => isPublicAddress(a.address))
+  ) {
+    return "callbackUrl must resolve to a public address";
+  }
+  return {
+    address: addresses[0].address,
+    family: addresses[0].family === 6 ? 6 : 4,
+  };
+}
+
+// Validate a callback URL; returns an error message on bad input
+export async function checkCallbackUrl(
+  config: Config,
+  raw: unknown,
+): Promise<string | null> {
+  if (config.webhookSecrets.length === 0) {
+    return "Webhook callbacks are not enabled";
+  }
+  if (typeof raw !== "string" || raw.length > MAX_CALLBACK_URL_LENGTH) {
+    return "Invalid callbackUrl";
+  }
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "Invalid callbackUrl";
+  }
+  if (
+    url.protocol !== "https:" &&
+    !(url.protocol === "http:" && config.webhookAllowHttp)
+  ) {
+    return "callbackUrl must use https";
+  }
+  const resolved = await resolveCallbackHost(config, url.hostname);
+  return typeof resolved === "string" ? resolved : null;
+}
+
+// POSTs to the address the host was checked at, so a DNS answer that
+// changes after the check cannot redirect the delivery. Redirects are
+// not followed. Resolves to the response status.
+function post(
+  url: URL,
+  target: ResolvedHost,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<number> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [target]);
+          } else {
+            callback(null, target.address, target.family);
+          }
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Header value `t=<unix seconds>,v1=<hex>[,v1=<hex>...]`: one HMAC-SHA256
+// of `${t}.${body}` per configured secret, so receivers keep verifying
+// while a secret is rotated.
+export function signPayload(
+  secrets: string[],
+  body: string,
+  timestamp: number,
+): string {
+  const signatures = secrets.map(
+    (secret) =>
+      `v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`,
+  );
+  return [`t=${timestamp}`, ...signatures].join(",");
+}
+
+// Exponential backoff with full jitter, capped at an hour
+function backoffMs(attempts: number): number {
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+function enqueue(
+  store: Store,
+  request: RelayRequest,
+  event: WebhookEvent,
+  job: RelayJob | null,
+): void {
+  if (!request.callbackUrl) {
+    return;
+  }
+
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const target = job?.transferId ?? `${request.sourceDomain}:${request.txHash}`;
+  const payload = JSON.stringify({
+    id,
+    event,
+    createdAt: now,
+    data: {
+      txHash: request.txHash,
+      sourceDomain: request.sourceDomain,
+      attempt: request.attempt,
+      transferId: job?.transferId ?? null,
+      messageIndex: job?.messageIndex ?? null,
+      status: job?.status ?? request.status,
+      outcome: job?.outcome ?? null,
+      amount: job?.amount ?? null,
+      error: job ? job.error : request.error,
+      ethTxHash: job?.ethTxHash ?? null,
+      confirmedAt: job?.confirmedAt ?? null,
+    },
+  });
+
+  // One notification per event, target and request attempt
+  const inserted = store.enqueueWebhook({
+    id,
+    sourceDomain: request.sourceDomain,
+    txHash: request.txHash,
+    transferId: job?.transferId ?? null,
+    event,
+    dedupeKey: `${event}:${target}:${request.attempt}`,
+    url: request.callbackUrl,
+    payload,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastStatusCode: null,
+    lastError: null,
+    createdAt: now,
+    deliveredAt: null,
+    updatedAt: now,
+  });
+  if (inserted) {
+    console.log(`Webhook ${event} queued for ${target}`);
+  }
+}
+
+// Queues relay.confirmed / relay.failed deliveries as jobs and requests
+// reach those states, and POSTs them to the request's callbackUrl until
+// the receiver answers 2xx or webhookMaxAttempts is reached. The queue
+// lives in SQLite, so pending deliveries survive restarts.
+export function startWebhookDispatcher(config: Config, store: Store): void {
+  store.onChange((change: RelayChange) => {
+    if (change.kind === "job") {
+      const { job } = change;
+      if (job.status !== "confirmed" && job.status !== "failed") return;
+      const request = store.getRequest(job.sourceDomain, job.txHash);
+      if (!request) return;
+      enqueue(
+        store,
+        request,
+        job.status === "confirmed" ? "relay.confirmed" : "relay.failed",
+        job,
+      );
+    } else if (change.request.status === "failed") {
+      enqueue(store, change.request, "relay.failed", null);
+    }
+  });
+
+  async function deliver(delivery: WebhookDelivery): Promise<void> {
+    const attempt = delivery.attempts + 1;
+    const started = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked again on every attempt: the name may resolve elsewhere now
+      const url = new URL(delivery.url);
+      const target = await resolveCallbackHost(config, url.hostname);
+      if (typeof target === "string") {
+        error = target;
+      } else {
+        statusCode = await post(
+          url,
+          target,
+          {
+            "Content-Type": "application/json",
+            "X-Relay-Event": delivery.event,
+            "X-Relay-Delivery": delivery.id,
+            "X-Relay-Signature": signPayload(
+              config.webhookSecrets,
+              delivery.payload,
+              Math.floor(started / 1000),
+            ),
+          },
+          delivery.payload,
+          config.webhookTimeoutMs,
+        );
+        if (statusCode < 200 || statusCode >= 300) {
+          error = `HTTP ${statusCode}`;
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const now = new Date().toISOString();
+    store.recordWebhookAttempt({
+      deliveryId: delivery.id,
+      attempt,
+      statusCode,
+      error,
+      durationMs: Date.now() - started,
+      attemptedAt: now,
+    });
+
+    if (!error) {
+      store.updateWebhookDelivery(delivery.id, {
+        status: "delivered",
+        attempts: attempt,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: now,
+      });
+      console.log(`Webhook ${delivery.event} delivered for ${delivery.txHash}`);
+      return;
+    }
+
+    const exhausted = attempt >= config.webhookMaxAttempts;
+    store.updateWebhookDelivery(delivery.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts: attempt,
+      lastStatusCode: statusCode,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + backoffMs(attempt)).toISOString(),
+    });
+    console.warn(
+      `Webhook ${delivery.event} for ${delivery.txHash} attempt ${attempt} failed: ${error}${exhausted ? " (giving up)" : ""}`,
+    );
+  }
+
+  async function loop(): Promise<void> {
+    while (true) {
+      try {
+        const due = store.getDueWebhooks(BATCH_SIZE);
+        await Promise.all(due.map(deliver));
+      } catch (err) {
+        console.error("Webhook dispatcher error:", err);
+      }
+
+      await sleep(config.webhookPollIntervalMs);
+    }
+  }
+
+  loop().catch((err) => {
+    console.error("Webhook dispatcher fatal error:", err);
+    process.exit(1);
+  });
+}
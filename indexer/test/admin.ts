@@ -0,0 +1,377 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { createAdminRouter } from "../src/admin.js";
+import { loadConfig, type Config } from "../src/config.js";
+import { hashApiKey } from "../src/integrators.js";
+import { createMockIris } from "../src/mockiris.js";
+import { createPoller } from "../src/poller.js";
+import { createStore, type Store } from "../src/store.js";
+import { createSubmitter } from "../src/submitter.js";
+import { ROUTER } from "./helpers/messages.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+import { fakeRpc, type FakeRpc } from "./helpers/rpc.js";
+
+const SOURCE_DOMAIN = 3;
+const ADMIN_TOKEN = "admin-token";
+
+async function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return {
+    server,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+}
+
+describe("admin API", function () {
+  let store: Store;
+  let config: Config;
+  let admin: { server: Server; url: string };
+  let iris: { server: Server; url: string };
+  let rpc: FakeRpc;
+
+  async function post(path: string, body: Record<string, unknown>, token = ADMIN_TOKEN) {
+    const response = await fetch(`${admin.url}/admin${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  async function get(path: string) {
+    const response = await fetch(`${admin.url}/admin${path}`, {
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  // Most recent audit row
+  function lastAction() {
+    return store.getAdminActions(1)[0];
+  }
+
+  before(async function () {
+    iris = await listen(
+      createMockIris({
+        fixtures: [],
+        rpcUrls: new Map(),
+        attestAfterMs: 0,
+        attesterKey: ethers.Wallet.createRandom().privateKey,
+        routerAddress: ROUTER,
+      }),
+    );
+    // The router reports every transfer settled, so the submitter records
+    // a job as confirmed without sending a transaction
+    rpc = await fakeRpc((method) =>
+      method === "eth_call"
+        ? ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true])
+        : undefined,
+    );
+
+    const saved = process.env;
+    process.env = {
+      ROUTER_ADDRESS: ROUTER,
+      ETHEREUM_RPC_URL: rpc.url,
+      RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+      TRANSMITTER_ADDRESS: "0x2222222222222222222222222222222222222222",
+      IRIS_API_URL: iris.url,
+      ADMIN_API_TOKENS: `ops:${ADMIN_TOKEN}`,
+    };
+    config = loadConfig();
+    process.env = saved;
+  });
+
+  beforeEach(async function () {
+    store = createStore(":memory:");
+    const app = express();
+    app.use(express.json());
+    app.use("/admin", createAdminRouter(config, store));
+    admin = await listen(app);
+  });
+
+  afterEach(function () {
+    admin.server.closeAllConnections();
+    admin.server.close();
+  });
+
+  after(function () {
+    iris.server.closeAllConnections();
+    iris.server.close();
+    rpc.close();
+  });
+
+  it("refuses callers without an admin token", async function () {
+    const reply = await post("/pause", { loop: "all", reason: "x" }, "wrong");
+    expect(reply.status).to.equal(401);
+    expect(store.getPauses()).to.deep.equal([]);
+  });
+
+  it("requires a reason for every action", async function () {
+    for (const reason of [undefined, "", "  "]) {
+      const reply = await post("/pause", { loop: "poller", reason });
+      expect(reply.status).to.equal(400);
+      expect(reply.body.error).to.equal("Missing reason");
+    }
+    expect(store.getPauses()).to.deep.equal([]);
+    expect(store.getAdminActions(10)).to.deep.equal([]);
+  });
+
+  describe("pause and resume", function () {
+    it("rejects an unknown loop or an unsupported sourceDomain", async function () {
+      expect((await post("/pause", { loop: "webhooks", reason: "x" })).body.error).to.equal(
+        "Invalid loop",
+      );
+      for (const sourceDomain of ["3", 0, 999, -1]) {
+        const reply = await post("/pause", { loop: "poller", sourceDomain, reason: "x" });
+        expect(reply.status).to.equal(400);
+        expect(reply.body.error).to.equal("Invalid sourceDomain");
+      }
+      expect(store.getPauses()).to.deep.equal([]);
+    });
+
+    it("pauses both loops and records who did it and why", async function () {
+      const reply = await post("/pause", { loop: "all", sourceDomain: 6, reason: "Base reorg" });
+      expect(reply.status).to.equal(200);
+      const pauses = store.getPauses().map((p) => [p.loop, p.sourceDomain, p.pausedBy]);
+      expect(pauses).to.have.deep.members([
+        ["poller", 6, "ops"],
+        ["submitter", 6, "ops"],
+      ]);
+      const actions = store
+        .getAdminActions(10)
+        .map((a) => [a.actor, a.action, a.target, a.reason]);
+      expect(actions).to.have.deep.members([
+        ["ops", "pause", "poller:6", "Base reorg"],
+        ["ops", "pause", "submitter:6", "Base reorg"],
+      ]);
+    });
+
+    it("resumes only paused loops", async function () {
+      await post("/pause", { loop: "submitter", reason: "gas spike" });
+
+      const reply = await post("/resume", { loop: "all", reason: "gas is back" });
+      expect(reply.status).to.equal(200);
+      expect(reply.body.pauses).to.deep.equal([]);
+      // Nothing to resume on the poller, so nothing audited for it
+      expect(lastAction()).to.include({ action: "resume", target: "submitter:all" });
+      expect(store.getAdminActions(10)).to.have.length(2);
+    });
+
+    it("stops the poller from polling a paused domain", async function () {
+      const pollDue = createPoller(config, store);
+      store.createRequest(relayRequest({ txHash: txHashOf(1), sourceDomain: 6 }));
+
+      await post("/pause", { loop: "poller", sourceDomain: 6, reason: "Iris incident" });
+      await pollDue();
+      expect(store.getRequest(6, txHashOf(1))).to.include({ status: "pending", pollAttempts: 0 });
+
+      await post("/pause", { loop: "poller", reason: "Iris incident" });
+      await post("/resume", { loop: "poller", sourceDomain: 6, reason: "resolved" });
+      await pollDue();
+      expect(store.getRequest(6, txHashOf(1))).to.include({ pollAttempts: 0 });
+
+      await post("/resume", { loop: "poller", reason: "resolved" });
+      await pollDue();
+      expect(store.getRequest(6, txHashOf(1))).to.include({ status: "polling", pollAttempts: 1 });
+    });
+
+    it("stops the submitter from submitting jobs of a paused domain", async function () {
+      const submitNext = createSubmitter(config, store);
+      store.createRequest(relayRequest({ status: "attested" }));
+      store.upsertJob(relayJob());
+
+      await post("/pause", { loop: "submitter", sourceDomain: SOURCE_DOMAIN, reason: "x" });
+      expect(await submitNext()).to.equal(false);
+      await post("/resume", { loop: "submitter", sourceDomain: SOURCE_DOMAIN, reason: "x" });
+      await post("/pause", { loop: "submitter", reason: "x" });
+      expect(await submitNext()).to.equal(false);
+      expect(store.getJob(relayJob().transferId)?.status).to.equal("attested");
+
+      await post("/resume", { loop: "submitter", reason: "x" });
+      expect(await submitNext()).to.equal(true);
+      expect(store.getJob(relayJob().transferId)?.status).to.equal("confirmed");
+    });
+  });
+
+  describe("requests", function () {
+    const path = (txHash: string, action: string) =>
+      `/requests/${SOURCE_DOMAIN}/${txHash}/${action}`;
+
+    it("says when the request does not exist", async function () {
+      const reply = await post(path(txHashOf(1), "requeue"), { reason: "x" });
+      expect(reply.status).to.equal(404);
+      expect(reply.body.error).to.equal("Request not found");
+    });
+
+    it("requeues a failed request as a new attempt", async function () {
+      store.createRequest(relayRequest({ status: "failed", error: "attestation_timeout" }));
+
+      const reply = await post(path(txHashOf(1), "requeue"), { reason: "Iris caught up" });
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({ status: "pending", attempt: 2 });
+      expect(lastAction()).to.deep.include({
+        action: "requeue_request",
+        target: `${SOURCE_DOMAIN}:${txHashOf(1)}`,
+        details: { fromStatus: "failed", attempt: 2 },
+      });
+    });
+
+    it("requeues a request with a failed job", async function () {
+      store.createRequest(relayRequest({ status: "attested" }));
+      store.upsertJob(relayJob({ status: "failed" }));
+
+      expect((await post(path(txHashOf(1), "requeue"), { reason: "x" })).status).to.equal(200);
+    });
+
+    it("refuses to requeue a request that has not failed", async function () {
+      store.createRequest(relayRequest({ status: "polling" }));
+
+      const reply = await post(path(txHashOf(1), "requeue"), { reason: "x" });
+      expect(reply.status).to.equal(409);
+      expect(reply.body.error).to.equal("Request is polling, not failed");
+      expect(store.getAdminActions(10)).to.deep.equal([]);
+    });
+
+    it("resolves a request with its reason as the note", async function () {
+      store.createRequest(relayRequest({ status: "failed" }));
+
+      const reply = await post(path(txHashOf(1), "resolve"), { reason: "refunded by hand" });
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({ status: "resolved", resolutionNote: "refunded by hand" });
+      expect(lastAction()).to.include({ action: "resolve_request" });
+    });
+
+    it("refuses to resolve an attested request", async function () {
+      store.createRequest(relayRequest({ status: "attested" }));
+
+      const reply = await post(path(txHashOf(1), "resolve"), { reason: "x" });
+      expect(reply.status).to.equal(409);
+      expect(reply.body.error).to.equal("Request is attested; resolve its jobs instead");
+    });
+  });
+
+  describe("jobs", function () {
+    const { transferId } = relayJob();
+
+    beforeEach(function () {
+      store.createRequest(relayRequest({ status: "attested" }));
+    });
+
+    it("says when the job does not exist", async function () {
+      const reply = await post(`/jobs/${transferId}/requeue`, { reason: "x" });
+      expect(reply.status).to.equal(404);
+      expect(reply.body.error).to.equal("Job not found");
+    });
+
+    it("requeues a failed job, resetting its retries on request", async function () {
+      store.upsertJob(relayJob({ status: "failed", error: "Tx reverted", retryCount: 3 }));
+
+      const reply = await post(`/jobs/${transferId}/requeue`, {
+        reason: "gas fixed",
+        resetRetries: true,
+      });
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({ status: "attested", error: null, retryCount: 0 });
+      expect(lastAction()).to.deep.include({
+        action: "requeue_job",
+        target: transferId,
+        details: { fromStatus: "failed", error: "Tx reverted", retryCount: 3, resetRetries: true },
+      });
+    });
+
+    it("refuses to requeue a job that has not failed", async function () {
+      store.upsertJob(relayJob({ status: "submitted" }));
+
+      const reply = await post(`/jobs/${transferId}/requeue`, { reason: "x" });
+      expect(reply.status).to.equal(409);
+      expect(reply.body.error).to.equal("Job is submitted, not failed");
+    });
+
+    it("resolves a failed job", async function () {
+      store.upsertJob(relayJob({ status: "failed" }));
+
+      const reply = await post(`/jobs/${transferId}/resolve`, { reason: "paid out of band" });
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({ status: "resolved", resolutionNote: "paid out of band" });
+    });
+
+    it("refuses to resolve a job with a tx in flight", async function () {
+      store.upsertJob(relayJob({ status: "submitted" }));
+
+      const reply = await post(`/jobs/${transferId}/resolve`, { reason: "x" });
+      expect(reply.status).to.equal(409);
+      expect(store.getJob(transferId)?.status).to.equal("submitted");
+    });
+  });
+
+  describe("integrators", function () {
+    it("creates an integrator and shows its key once", async function () {
+      const reply = await post("/integrators", {
+        id: "acme",
+        requestsPerSecond: 5,
+        relayFee: "250000",
+        reason: "onboarding",
+      });
+      expect(reply.status).to.equal(201);
+      const apiKey = reply.body.apiKey as string;
+      expect(reply.body.integrator).to.include({
+        id: "acme",
+        requestsPerSecond: 5,
+        maxPendingJobs: 500,
+        relayFee: "250000",
+        revokedAt: null,
+      });
+      expect(store.getIntegratorByKeyHash(hashApiKey(apiKey))?.id).to.equal("acme");
+      expect(lastAction()).to.include({ action: "create_integrator", target: "acme" });
+
+      const listed = await get("/integrators");
+      expect(JSON.stringify(listed.body)).to.not.include(apiKey);
+    });
+
+    it("rejects a duplicate id and invalid settings", async function () {
+      await post("/integrators", { id: "acme", reason: "x" });
+
+      expect((await post("/integrators", { id: "acme", reason: "x" })).status).to.equal(409);
+      expect((await post("/integrators", { id: "Acme!", reason: "x" })).body.error).to.equal(
+        "Invalid id",
+      );
+      expect(
+        (await post("/integrators", { id: "beta", maxPendingJobs: 0, reason: "x" })).body.error,
+      ).to.equal("Invalid maxPendingJobs");
+      expect(
+        (await post("/integrators", { id: "beta", relayFee: "1.5", reason: "x" })).body.error,
+      ).to.equal("Invalid relayFee");
+    });
+
+    it("updates the settings of an integrator", async function () {
+      await post("/integrators", { id: "acme", reason: "x" });
+
+      const reply = await post("/integrators/acme/update", {
+        maxPendingJobs: 10,
+        relayFee: null,
+        reason: "abuse",
+      });
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({ maxPendingJobs: 10, relayFee: null });
+      expect(lastAction()).to.deep.include({
+        action: "update_integrator",
+        details: { maxPendingJobs: 10, relayFee: null },
+      });
+    });
+
+    it("revokes an integrator once", async function () {
+      await post("/integrators", { id: "acme", reason: "x" });
+
+      const revoked = await post("/integrators/acme/revoke", { reason: "contract ended" });
+      expect(revoked.status).to.equal(200);
+      expect(revoked.body.revokedAt).to.be.a("string");
+      expect((await post("/integrators/acme/revoke", { reason: "x" })).status).to.equal(409);
+      expect((await post("/integrators/nobody/revoke", { reason: "x" })).status).to.equal(404);
+    });
+  });
+});
@@ -0,0 +1,691 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import WebSocket from "ws";
+import { TOKEN_MESSENGER_V2_ABI } from "../src/abis.js";
+import { createApiServer } from "../src/api.js";
+import { loadConfig } from "../src/config.js";
+import { hashApiKey } from "../src/integrators.js";
+import { createStore, type Store } from "../src/store.js";
+import { routeUpgrades } from "../src/stream.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+
+const SOURCE_DOMAIN = 3;
+const ALICE_KEY = "xr_alice";
+const BOB_KEY = "xr_bob";
+const ADMIN_TOKEN = "admin-token";
+const METRICS_TOKEN = "scrape-token";
+
+async function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return {
+    server,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+}
+
+describe("API", function () {
+  let store: Store;
+  let api: { server: Server; url: string };
+  let sourceRpc: { server: Server; url: string };
+  // eth_getTransactionReceipt answer of the fake source chain
+  let receipt: unknown = null;
+  // eth_getBalance calls to the fake Ethereum RPC
+  let balanceCalls = 0;
+  let savedEnv: NodeJS.ProcessEnv;
+  let config: ReturnType<typeof loadConfig>;
+
+  async function post(path: string, body: unknown, key?: string) {
+    const response = await fetch(`${api.url}${path}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(key ? { authorization: `Bearer ${key}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  async function get(path: string, key?: string): Promise<number> {
+    const response = await fetch(`${api.url}${path}`, {
+      headers: key ? { authorization: `Bearer ${key}` } : {},
+    });
+    await response.arrayBuffer();
+    return response.status;
+  }
+
+  async function getJson(path: string, key: string = ALICE_KEY) {
+    const response = await fetch(`${api.url}${path}`, {
+      headers: { authorization: `Bearer ${key}` },
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  before(async function () {
+    const rpc = express();
+    rpc.use(express.json());
+    rpc.post("/", (req, res) => {
+      if (req.body.method === "eth_getBalance") {
+        balanceCalls++;
+        res.json({ jsonrpc: "2.0", id: req.body.id, result: "0xde0b6b3a7640000" });
+        return;
+      }
+      res.json({ jsonrpc: "2.0", id: req.body.id, result: receipt });
+    });
+    sourceRpc = await listen(rpc);
+
+    savedEnv = process.env;
+    process.env = {
+      ROUTER_ADDRESS: "0x1111111111111111111111111111111111111111",
+      ETHEREUM_RPC_URL: sourceRpc.url,
+      RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+      TRANSMITTER_ADDRESS: "0x2222222222222222222222222222222222222222",
+      SOURCE_RPC_URLS: `${SOURCE_DOMAIN}:${sourceRpc.url}`,
+      WEBHOOK_SECRETS: "secret",
+      ADMIN_API_TOKENS: `ops:${ADMIN_TOKEN}`,
+      METRICS_TOKEN,
+    };
+    config = loadConfig();
+    process.env = savedEnv;
+
+    store = createStore(":memory:");
+    const now = new Date().toISOString();
+    for (const [id, key] of [
+      ["alice", ALICE_KEY],
+      ["bob", BOB_KEY],
+    ]) {
+      store.createIntegrator(
+        {
+          id,
+          keyPrefix: key.slice(0, 10),
+          requestsPerSecond: 100,
+          maxPendingJobs: 100,
+          relayFee: null,
+          callbackUrl: null,
+          createdAt: now,
+          revokedAt: null,
+          updatedAt: now,
+        },
+        hashApiKey(key),
+      );
+    }
+    const app = createApiServer(config, store);
+    api = await listen(app);
+    routeUpgrades(api.server, app);
+  });
+
+  after(function () {
+    for (const { server } of [api, sourceRpc]) {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  beforeEach(function () {
+    receipt = null;
+  });
+
+  // A successful source transaction burning USDC to the router
+  function burnReceipt() {
+    const { data, topics } = new ethers.Interface(TOKEN_MESSENGER_V2_ABI).encodeEventLog(
+      "DepositForBurn",
+      [
+        ethers.ZeroAddress,
+        10_000_000n,
+        ethers.ZeroAddress,
+        config.routerBytes32,
+        0,
+        ethers.ZeroHash,
+        config.routerBytes32,
+        0n,
+        2000,
+        "0x",
+      ],
+    );
+    return {
+      status: "0x1",
+      logs: [{ address: config.tokenMessengerAddress, topics, data }],
+    };
+  }
+
+  describe("POST /relay on an existing request", function () {
+    it("returns the request to any caller", async function () {
+      store.createRequest(relayRequest({ txHash: txHashOf(1), integratorId: "alice" }));
+
+      const body = { sourceDomain: SOURCE_DOMAIN, txHash: txHashOf(1) };
+      const reply = await post("/relay", body, BOB_KEY);
+      expect(reply.status).to.equal(200);
+      expect(reply.body.message).to.equal("Relay job already exists.");
+    });
+
+    it("lets only the submitting integrator change the callbackUrl", async function () {
+      store.createRequest(relayRequest({ txHash: txHashOf(2), integratorId: "alice" }));
+      const body = {
+        sourceDomain: SOURCE_DOMAIN,
+        txHash: txHashOf(2),
+        callbackUrl: "https://1.1.1.1/hook",
+      };
+
+      expect((await post("/relay", body, BOB_KEY)).status).to.equal(403);
+      expect((await post("/relay", body)).status).to.equal(403);
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(2))?.callbackUrl).to.equal(null);
+
+      expect((await post("/relay", body, ALICE_KEY)).status).to.equal(200);
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(2))?.callbackUrl).to.equal(
+        "https://1.1.1.1/hook",
+      );
+    });
+
+    it("lets only the submitting integrator resubmit a failed request", async function () {
+      store.createRequest(
+        relayRequest({ txHash: txHashOf(3), status: "failed", integratorId: "alice" }),
+      );
+      const body = { sourceDomain: SOURCE_DOMAIN, txHash: txHashOf(3) };
+
+      const reply = await post("/relay", body, BOB_KEY);
+      expect(reply.status).to.equal(403);
+      expect(reply.body.error).to.match(/can resubmit it$/);
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(3))?.attempt).to.equal(1);
+    });
+
+    it("verifies the burn again before a resubmit", async function () {
+      store.createRequest(
+        relayRequest({ txHash: txHashOf(4), status: "failed", integratorId: "alice" }),
+      );
+      const body = { sourceDomain: SOURCE_DOMAIN, txHash: txHashOf(4) };
+
+      const reply = await post("/relay", body, ALICE_KEY);
+      expect(reply.status).to.equal(400);
+      expect(reply.body.error).to.equal("Source transaction not found on the source chain");
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(4))).to.include({
+        status: "failed",
+        attempt: 1,
+      });
+
+      receipt = burnReceipt();
+      const resubmitted = await post("/relay", body, ALICE_KEY);
+      expect(resubmitted.status).to.equal(201);
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(4))).to.include({
+        status: "pending",
+        attempt: 2,
+      });
+    });
+  });
+
+  describe("relay lookups by txHash", function () {
+    // Submitted under two source domains
+    const TX_HASH = txHashOf(50);
+
+    before(function () {
+      for (const sourceDomain of [SOURCE_DOMAIN, 6]) {
+        store.createRequest(relayRequest({ txHash: TX_HASH, sourceDomain }));
+      }
+    });
+
+    it("selects the request with ?sourceDomain=", async function () {
+      const ambiguous = await getJson(`/relay/${TX_HASH}`);
+      expect(ambiguous.status).to.equal(409);
+      expect(ambiguous.body.sourceDomains).to.have.members([SOURCE_DOMAIN, 6]);
+
+      const reply = await getJson(`/relay/${TX_HASH}?sourceDomain=6`);
+      expect(reply.status).to.equal(200);
+      expect(reply.body.sourceDomain).to.equal(6);
+      expect((await getJson(`/relay/${TX_HASH}/timeline?sourceDomain=6`)).status).to.equal(
+        200,
+      );
+    });
+
+    it("rejects an unsupported ?sourceDomain=", async function () {
+      for (const path of [`/relay/${TX_HASH}`, `/relay/${TX_HASH}/timeline`]) {
+        for (const query of ["sourceDomain=abc", "sourceDomain=0", "sourceDomain="]) {
+          const reply = await getJson(`${path}?${query}`);
+          expect(reply.status).to.equal(400);
+          expect(reply.body.error).to.equal("Invalid sourceDomain");
+        }
+      }
+    });
+
+    it("rejects an unsupported sourceDomain per POST /relay/status entry", async function () {
+      const reply = await post(
+        "/relay/status",
+        {
+          relays: [
+            { txHash: TX_HASH, sourceDomain: 6 },
+            { txHash: TX_HASH, sourceDomain: 0 },
+            { txHash: TX_HASH, sourceDomain: "6" },
+          ],
+        },
+        ALICE_KEY,
+      );
+      expect(reply.status).to.equal(200);
+      const results = reply.body.results as { status: number; body: { error?: string } }[];
+      expect(results.map((r) => r.status)).to.deep.equal([200, 400, 400]);
+      expect(results[1].body.error).to.equal("Invalid sourceDomain");
+    });
+  });
+
+  describe("GET /relays", function () {
+    // Only this block's relays carry this integrator id
+    const LISTED = "integrator=lister";
+
+    before(function () {
+      const request = (n: number, sourceDomain: number, createdAt: string) =>
+        relayRequest({
+          txHash: txHashOf(n),
+          sourceDomain,
+          status: "attested",
+          integratorId: "lister",
+          createdAt,
+        });
+      const job = (n: number, createdAt: string) => ({
+        txHash: txHashOf(n),
+        nonce: ethers.zeroPadValue(ethers.toBeHex(n), 32),
+        createdAt,
+      });
+
+      store.createRequest(request(30, SOURCE_DOMAIN, "2026-10-01T00:00:00.000Z"));
+      store.upsertJob(
+        relayJob({
+          ...job(30, "2026-10-01T00:00:00.000Z"),
+          status: "confirmed",
+          outcome: "forwarded",
+          amount: "10000000",
+          confirmedAt: "2026-10-01T00:10:00.000Z",
+        }),
+      );
+      store.createRequest({
+        ...request(31, 6, "2026-10-02T00:00:00.000Z"),
+        status: "polling",
+      });
+      store.createRequest(request(32, SOURCE_DOMAIN, "2026-10-03T00:00:00.000Z"));
+      store.upsertJob(
+        relayJob({
+          ...job(32, "2026-10-03T00:00:00.000Z"),
+          status: "failed",
+          amount: "500",
+          error: "Gas estimation failed: execution reverted",
+        }),
+      );
+    });
+
+    async function list(query: string) {
+      const reply = await getJson(`/relays?${LISTED}&${query}`);
+      expect(reply.status).to.equal(200);
+      return reply.body as { relays: { txHash: string }[]; nextCursor: string | null };
+    }
+
+    const hashes = (page: { relays: { txHash: string }[] }) =>
+      page.relays.map((r) => r.txHash);
+
+    it("pages newest first through nextCursor", async function () {
+      const first = await list("limit=2");
+      expect(hashes(first)).to.deep.equal([txHashOf(32), txHashOf(31)]);
+      expect(first.relays[1]).to.include({ key: `6:${txHashOf(31)}`, transferId: null });
+      expect(first.nextCursor).to.be.a("string");
+
+      const second = await list(`limit=2&cursor=${first.nextCursor}`);
+      expect(hashes(second)).to.deep.equal([txHashOf(30)]);
+      expect(second.nextCursor).to.equal(null);
+    });
+
+    it("filters by status, outcome and source domain", async function () {
+      expect(hashes(await list("status=failed,polling"))).to.deep.equal([
+        txHashOf(32),
+        txHashOf(31),
+      ]);
+      expect(hashes(await list("outcome=forwarded"))).to.deep.equal([txHashOf(30)]);
+      expect(hashes(await list("sourceDomain=6"))).to.deep.equal([txHashOf(31)]);
+    });
+
+    it("filters by time, amount and error text", async function () {
+      expect(
+        hashes(await list("createdFrom=2026-10-02T00:00:00Z&createdTo=2026-10-03T00:00:00Z")),
+      ).to.deep.equal([txHashOf(31)]);
+      expect(hashes(await list("confirmedFrom=2026-10-01T00:00:00Z"))).to.deep.equal([
+        txHashOf(30),
+      ]);
+      expect(hashes(await list("minAmount=1000&maxAmount=10000000"))).to.deep.equal([
+        txHashOf(30),
+      ]);
+      expect(hashes(await list("error=GAS%20estimation"))).to.deep.equal([txHashOf(32)]);
+    });
+
+    it("rejects invalid filters and cursors", async function () {
+      for (const [query, error] of [
+        ["status=done", "Invalid status"],
+        ["sourceDomain=0", "Invalid sourceDomain"],
+        ["createdFrom=yesterday", "Invalid createdFrom"],
+        ["minAmount=-1", "Invalid minAmount"],
+        ["cursor=not-a-cursor", "Invalid cursor"],
+      ]) {
+        const reply = await getJson(`/relays?${query}`);
+        expect(reply.status).to.equal(400);
+        expect(reply.body.error).to.equal(error);
+      }
+    });
+  });
+
+  describe("transfer lookups", function () {
+    const SENDER = "0x" + "51".repeat(20);
+    const FALLBACK = "0x" + "52".repeat(20);
+    const REMOTE = "0x" + "53".repeat(20);
+    // A remote recipient on a non-EVM domain: not a padded address
+    const REMOTE_BYTES32 = "0x" + "54".repeat(32);
+
+    const nonceOf = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+    const transferIdOf = (n: number) =>
+      relayJob({ sourceDomain: 6, nonce: nonceOf(n) }).transferId;
+    const transfer = (n: number, createdAt: string, remoteRecipient: string) =>
+      relayJob({
+        sourceDomain: 6,
+        txHash: txHashOf(n),
+        nonce: nonceOf(n),
+        messageSender: SENDER,
+        fallbackRecipient: FALLBACK,
+        remoteRecipient,
+        createdAt,
+      });
+
+    before(function () {
+      store.upsertJob(
+        transfer(40, "2026-10-04T00:00:00.000Z", ethers.zeroPadValue(REMOTE, 32)),
+      );
+      store.upsertJob(
+        transfer(41, "2026-10-05T00:00:00.000Z", ethers.zeroPadValue(REMOTE, 32)),
+      );
+      store.upsertJob(transfer(42, "2026-10-06T00:00:00.000Z", REMOTE_BYTES32));
+    });
+
+    async function accountRelays(address: string, query = "") {
+      const reply = await getJson(`/accounts/${address}/relays${query}`);
+      expect(reply.status).to.equal(200);
+      return reply.body as { relays: { txHash: string }[]; nextCursor: string | null };
+    }
+
+    const hashes = (page: { relays: { txHash: string }[] }) =>
+      page.relays.map((r) => r.txHash);
+
+    it("finds a transfer by id", async function () {
+      const transferId = transferIdOf(40);
+      const reply = await getJson(`/transfers/id/0x${transferId.slice(2).toUpperCase()}`);
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({
+        transferId,
+        sourceDomain: 6,
+        txHash: txHashOf(40),
+        nonce: nonceOf(40),
+        messageSender: SENDER,
+        fallbackRecipient: FALLBACK,
+      });
+    });
+
+    it("finds a transfer by source domain and nonce", async function () {
+      const reply = await getJson(`/transfers/6/${nonceOf(41)}`);
+      expect(reply.status).to.equal(200);
+      expect(reply.body).to.include({
+        transferId: transferIdOf(41),
+        txHash: txHashOf(41),
+      });
+    });
+
+    it("answers 404 for unknown transfers", async function () {
+      for (const path of [`/transfers/id/${txHashOf(49)}`, `/transfers/6/${nonceOf(49)}`]) {
+        const reply = await getJson(path);
+        expect(reply.status).to.equal(404);
+        expect(reply.body.error).to.equal("Transfer not found");
+      }
+    });
+
+    it("rejects invalid transfer lookups", async function () {
+      for (const [path, error] of [
+        ["/transfers/id/0x1234", "Invalid transferId"],
+        [`/transfers/0/${nonceOf(40)}`, "Invalid sourceDomain"],
+        [`/transfers/x/${nonceOf(40)}`, "Invalid sourceDomain"],
+        ["/transfers/6/42", "Invalid nonce (expected bytes32)"],
+      ]) {
+        const reply = await getJson(path);
+        expect(reply.status).to.equal(400);
+        expect(reply.body.error).to.equal(error);
+      }
+    });
+
+    it("lists the transfers of a sender or fallback recipient", async function () {
+      const newestFirst = [txHashOf(42), txHashOf(41), txHashOf(40)];
+      expect(hashes(await accountRelays(SENDER))).to.deep.equal(newestFirst);
+      expect(hashes(await accountRelays(FALLBACK))).to.deep.equal(newestFirst);
+    });
+
+    it("matches remote recipients as an address or a bytes32", async function () {
+      expect(hashes(await accountRelays(REMOTE))).to.deep.equal([txHashOf(41), txHashOf(40)]);
+      expect(hashes(await accountRelays(ethers.zeroPadValue(REMOTE, 32)))).to.deep.equal([
+        txHashOf(41),
+        txHashOf(40),
+      ]);
+      expect(hashes(await accountRelays(REMOTE_BYTES32))).to.deep.equal([txHashOf(42)]);
+    });
+
+    it("pages an account's transfers through nextCursor", async function () {
+      const first = await accountRelays(SENDER, "?limit=2");
+      expect(hashes(first)).to.deep.equal([txHashOf(42), txHashOf(41)]);
+      expect(first.nextCursor).to.be.a("string");
+
+      const second = await accountRelays(SENDER, `?limit=2&cursor=${first.nextCursor}`);
+      expect(hashes(second)).to.deep.equal([txHashOf(40)]);
+      expect(second.nextCursor).to.equal(null);
+    });
+
+    it("rejects invalid accounts and cursors", async function () {
+      for (const [path, error] of [
+        ["/accounts/0x1234/relays", "Invalid address"],
+        [`/accounts/${SENDER}/relays?cursor=not-a-cursor`, "Invalid cursor"],
+      ]) {
+        const reply = await getJson(path);
+        expect(reply.status).to.equal(400);
+        expect(reply.body.error).to.equal(error);
+      }
+    });
+  });
+
+  describe("GET /quote", function () {
+    it("answers 503 while the Ethereum RPC gives no gas price", async function () {
+      // The fake RPC answers eth_gasPrice with null
+      const reply = await getJson("/quote?sourceDomain=3&amount=1000000");
+      expect(reply.status).to.equal(503);
+      expect(reply.body.error).to.equal("Ethereum RPC unavailable");
+    });
+  });
+
+  describe("GET /health/ready", function () {
+    it("answers 503 with the failing checks, without an API key", async function () {
+      const response = await fetch(`${api.url}/health/ready`);
+      const body = (await response.json()) as {
+        status: string;
+        checks: Record<string, { ok: boolean }>;
+      };
+      expect(response.status).to.equal(503);
+      expect(body.status).to.equal("not_ready");
+      // The fake RPC does not answer eth_chainId
+      expect(body.checks.chain.ok).to.equal(false);
+      expect(body.checks.database.ok).to.equal(true);
+    });
+  });
+
+  describe("GET /metrics", function () {
+    it("takes the scrape token or an admin token", async function () {
+      expect(await get("/metrics", METRICS_TOKEN)).to.equal(200);
+      expect(await get("/metrics", ADMIN_TOKEN)).to.equal(200);
+    });
+
+    it("refuses anonymous callers and integrator keys", async function () {
+      expect(await get("/metrics")).to.equal(401);
+      expect(await get("/metrics", ALICE_KEY)).to.equal(401);
+    });
+  });
+
+  describe("GET /dashboard/summary", function () {
+    it("takes an admin token", async function () {
+      expect(await get("/dashboard/summary")).to.equal(401);
+      expect(await get("/dashboard/summary", ALICE_KEY)).to.equal(401);
+      expect(await get("/dashboard/summary", METRICS_TOKEN)).to.equal(401);
+    });
+
+    it("reads the wallet balance once for many refreshes", async function () {
+      const callsBefore = balanceCalls;
+      const response = await fetch(`${api.url}/dashboard/summary`, {
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      });
+      expect(response.status).to.equal(200);
+      const { wallet } = (await response.json()) as { wallet: Record<string, unknown> };
+      expect(wallet).to.include({ balanceEth: "1.0", error: null });
+
+      expect(await get("/dashboard/summary", ADMIN_TOKEN)).to.equal(200);
+      expect(balanceCalls - callsBefore).to.equal(1);
+    });
+
+    it("scans the all-time gas spend once for many refreshes", async function () {
+      type Spend = Record<"last24h" | "allTime", { transactions: number }>;
+      const spend = async () =>
+        (await getJson("/dashboard/summary", ADMIN_TOKEN)).body.gasSpend as Spend;
+
+      const before = await spend();
+      store.recordTransaction({
+        ethTxHash: txHashOf(60),
+        transferId: relayJob({ nonce: txHashOf(60) }).transferId,
+        status: "success",
+        gasUsed: "150000",
+        gasPrice: "1000000000",
+        blockNumber: 100,
+        recordedAt: new Date().toISOString(),
+      });
+      const after = await spend();
+
+      expect(after.last24h.transactions).to.equal(before.last24h.transactions + 1);
+      expect(after.allTime).to.deep.equal(before.allTime);
+    });
+  });
+
+  describe("status streams", function () {
+    const sockets: WebSocket[] = [];
+
+    before(function () {
+      store.createRequest(relayRequest({ txHash: txHashOf(10), integratorId: "alice" }));
+      store.createRequest(relayRequest({ txHash: txHashOf(11), integratorId: "bob" }));
+    });
+
+    afterEach(function () {
+      sockets.splice(0).forEach((socket) => socket.terminate());
+    });
+
+    // A subscribed socket and the events it has received so far
+    async function subscribe(key: string, txHashes: string[]) {
+      const socket = new WebSocket(`${api.url.replace("http", "ws")}/relays/ws`, {
+        headers: { authorization: `Bearer ${key}` },
+      });
+      sockets.push(socket);
+      const events: { txHash: string; status: string }[] = [];
+      socket.on("message", (data) => events.push(JSON.parse(data.toString())));
+      await once(socket, "open");
+      socket.send(JSON.stringify({ type: "subscribe", txHashes }));
+      return events;
+    }
+
+    async function until(condition: () => boolean): Promise<void> {
+      while (!condition()) await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    it("refuses WebSocket upgrades with an unknown API key", async function () {
+      const socket = new WebSocket(`${api.url.replace("http", "ws")}/relays/ws`, {
+        headers: { authorization: "Bearer xr_nobody" },
+      });
+      const [, response] = await once(socket, "unexpected-response");
+      expect(response.statusCode).to.equal(401);
+    });
+
+    it("sends WebSocket callers only their own relays", async function () {
+      const alice = await subscribe(ALICE_KEY, [txHashOf(10)]);
+      const bob = await subscribe(BOB_KEY, [txHashOf(10)]);
+      await until(() => alice.length === 1);
+
+      store.updateRequest(SOURCE_DOMAIN, txHashOf(10), { status: "polling", pollAttempts: 1 });
+      await until(() => alice.length === 2);
+      expect(alice.map((e) => e.status)).to.deep.equal(["pending", "polling"]);
+
+      // Events on a socket arrive in order: anything of alice's sent to
+      // bob would come before the snapshot of his own relay
+      bob.length = 0;
+      sockets[1].send(JSON.stringify({ type: "subscribe", txHashes: [txHashOf(11)] }));
+      await until(() => bob.length === 1);
+      expect(bob[0].txHash).to.equal(txHashOf(11));
+    });
+
+    it("sends SSE callers only their own relays", async function () {
+      const controller = new AbortController();
+      const response = await fetch(
+        `${api.url}/relays/stream?txHash=${txHashOf(10)},${txHashOf(11)}`,
+        { headers: { authorization: `Bearer ${BOB_KEY}` }, signal: controller.signal },
+      );
+      expect(response.status).to.equal(200);
+      const { value } = await response.body!.getReader().read();
+      controller.abort();
+
+      const [first] = new TextDecoder().decode(value).split("\n\n");
+      expect(first).to.match(/^event: status\ndata: /);
+      expect(JSON.parse(first.split("data: ")[1]).txHash).to.equal(txHashOf(11));
+    });
+  });
+
+  describe("POST /simulate", function () {
+    it("rejects a message that is not a burn message", async function () {
+      const reply = await post(
+        "/simulate",
+        { message: "0x00", attestation: "0x00" },
+        ALICE_KEY,
+      );
+      expect(reply.status).to.equal(422);
+    });
+
+    it("asks for the source domain when a txHash has several requests", async function () {
+      store.createRequest(relayRequest({ txHash: txHashOf(20) }));
+      store.createRequest(relayRequest({ txHash: txHashOf(20), sourceDomain: 6 }));
+
+      const reply = await post("/simulate", { txHash: txHashOf(20) }, ALICE_KEY);
+      expect(reply.status).to.equal(409);
+      expect(reply.body.sourceDomains).to.have.members([SOURCE_DOMAIN, 6]);
+
+      const selected = await post(
+        "/simulate",
+        { txHash: txHashOf(20), sourceDomain: 6 },
+        ALICE_KEY,
+      );
+      expect(selected.status).to.equal(409);
+      expect(selected.body.error).to.equal("Request is pending; nothing attested yet");
+    });
+
+    it("rejects an unsupported sourceDomain", async function () {
+      for (const sourceDomain of [0, "6", 99]) {
+        const reply = await post("/simulate", { txHash: txHashOf(20), sourceDomain }, ALICE_KEY);
+        expect(reply.status).to.equal(400);
+        expect(reply.body.error).to.equal("Invalid sourceDomain");
+      }
+    });
+
+    it("answers 404 for an unknown txHash", async function () {
+      const reply = await post("/simulate", { txHash: txHashOf(22) }, ALICE_KEY);
+      expect(reply.status).to.equal(404);
+      expect(reply.body.error).to.equal("Job not found");
+    });
+
+    it("refuses a request without attested jobs", async function () {
+      store.createRequest(relayRequest({ txHash: txHashOf(21), status: "polling" }));
+
+      const reply = await post("/simulate", { txHash: txHashOf(21) }, ALICE_KEY);
+      expect(reply.status).to.equal(409);
+      expect(reply.body.error).to.equal("Request is polling; nothing attested yet");
+    });
+  });
+});
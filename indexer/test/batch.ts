@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { parseBatch } from "../src/batch.js";
+
+describe("batch", function () {
+  describe("parseBatch", function () {
+    it("returns the entries of a batch", function () {
+      const entries = [{ sourceDomain: 3 }, { sourceDomain: 6 }];
+      expect(parseBatch(entries, 2)).to.equal(entries);
+    });
+
+    it("rejects a missing or empty batch", function () {
+      for (const raw of [undefined, {}, []]) {
+        expect(parseBatch(raw, 2)).to.equal("relays must be a non-empty array");
+      }
+    });
+
+    it("rejects more entries than the maximum", function () {
+      expect(parseBatch([{}, {}, {}], 2)).to.equal("Too many entries (max 2)");
+    });
+
+    it("rejects entries that are not objects", function () {
+      for (const entry of [null, "0x01", [], 3]) {
+        expect(parseBatch([{}, entry], 2)).to.equal("Each entry must be an object");
+      }
+    });
+  });
+});
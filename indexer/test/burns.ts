@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { TOKEN_MESSENGER_V2_ABI } from "../src/abis.js";
+import { createBurnVerifier } from "../src/burns.js";
+import type { Config } from "../src/config.js";
+import { ROUTER_BYTES32 } from "./helpers/messages.js";
+import { txHashOf } from "./helpers/records.js";
+import { fakeRpc, type FakeRpc } from "./helpers/rpc.js";
+
+const SOURCE_DOMAIN = 3;
+const TOKEN_MESSENGER = "0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d";
+const OTHER_BYTES32 = ethers.zeroPadValue("0x9999999999999999999999999999999999999999", 32);
+
+const tokenMessengerInterface = new ethers.Interface(TOKEN_MESSENGER_V2_ABI);
+
+// A DepositForBurn log; by default a burn to the router on Ethereum
+function depositForBurn(
+  fields: {
+    emitter?: string;
+    mintRecipient?: string;
+    destinationDomain?: number;
+    minFinalityThreshold?: number;
+  } = {},
+) {
+  const { data, topics } = tokenMessengerInterface.encodeEventLog("DepositForBurn", [
+    ethers.ZeroAddress,
+    10_000_000n,
+    ethers.ZeroAddress,
+    fields.mintRecipient ?? ROUTER_BYTES32,
+    fields.destinationDomain ?? 0,
+    ethers.ZeroHash,
+    ROUTER_BYTES32,
+    0n,
+    fields.minFinalityThreshold ?? 2000,
+    "0x",
+  ]);
+  return { address: fields.emitter ?? TOKEN_MESSENGER, topics, data };
+}
+
+describe("verifyBurn", function () {
+  let rpc: FakeRpc;
+  let receipt: unknown;
+  let verifyBurn: ReturnType<typeof createBurnVerifier>;
+
+  before(async function () {
+    rpc = await fakeRpc((method) => {
+      if (method === "eth_getTransactionReceipt") return receipt;
+      throw new Error(`unexpected ${method}`);
+    });
+    verifyBurn = createBurnVerifier({
+      routerBytes32: ROUTER_BYTES32,
+      tokenMessengerAddress: TOKEN_MESSENGER,
+      sourceRpcUrls: new Map([[SOURCE_DOMAIN, rpc.url]]),
+      sourceRpcTimeoutMs: 1000,
+    } as Config);
+  });
+
+  after(function () {
+    rpc.close();
+  });
+
+  beforeEach(function () {
+    receipt = null;
+  });
+
+  const withLogs = (...logs: ReturnType<typeof depositForBurn>[]) => ({ status: "0x1", logs });
+
+  it("accepts a burn to the router with its finality threshold", async function () {
+    receipt = withLogs(depositForBurn({ minFinalityThreshold: 1000 }));
+    expect(await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).to.deep.equal({
+      error: null,
+      minFinalityThreshold: 1000,
+    });
+  });
+
+  it("passes unchecked on a domain without an RPC", async function () {
+    expect(await verifyBurn(6, txHashOf(1))).to.deep.equal({
+      error: null,
+      minFinalityThreshold: null,
+    });
+  });
+
+  it("rejects a transaction the source chain does not have", async function () {
+    expect((await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).error).to.equal(
+      "Source transaction not found on the source chain",
+    );
+  });
+
+  it("rejects a reverted transaction", async function () {
+    receipt = { status: "0x0", logs: [depositForBurn()] };
+    expect((await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).error).to.equal(
+      "Source transaction reverted",
+    );
+  });
+
+  it("ignores DepositForBurn events from other contracts", async function () {
+    receipt = withLogs(depositForBurn({ emitter: "0x" + "77".repeat(20) }));
+    expect((await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).error).to.equal(
+      "Source transaction has no DepositForBurn event from TokenMessengerV2",
+    );
+  });
+
+  it("rejects burns to another destination domain", async function () {
+    receipt = withLogs(depositForBurn({ destinationDomain: 6 }));
+    expect((await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).error).to.equal(
+      "DepositForBurn mintRecipient is not the relay router on Ethereum",
+    );
+  });
+
+  it("rejects burns minting to someone other than the router", async function () {
+    receipt = withLogs(depositForBurn({ mintRecipient: OTHER_BYTES32 }));
+    expect((await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).error).to.equal(
+      "DepositForBurn mintRecipient is not the relay router on Ethereum",
+    );
+  });
+
+  it("takes the slowest threshold among the burns to the router", async function () {
+    receipt = withLogs(
+      depositForBurn({ minFinalityThreshold: 1000 }),
+      depositForBurn({ minFinalityThreshold: 2000 }),
+      // Not ours: does not slow down polling
+      depositForBurn({ mintRecipient: OTHER_BYTES32, minFinalityThreshold: 3000 }),
+    );
+    expect(await verifyBurn(SOURCE_DOMAIN, txHashOf(1))).to.deep.equal({
+      error: null,
+      minFinalityThreshold: 2000,
+    });
+  });
+
+  it("throws when the source chain RPC fails", async function () {
+    const failing = createBurnVerifier({
+      routerBytes32: ROUTER_BYTES32,
+      tokenMessengerAddress: TOKEN_MESSENGER,
+      sourceRpcUrls: new Map([[SOURCE_DOMAIN, `${rpc.url}/missing`]]),
+      sourceRpcTimeoutMs: 1000,
+    } as Config);
+    let error: unknown;
+    try {
+      await failing(SOURCE_DOMAIN, txHashOf(1));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).to.be.an("error").with.property("message", "RPC returned HTTP 404");
+  });
+});
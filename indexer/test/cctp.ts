@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  bytes32ToAccount,
+  computeTransferId,
+  decodeMessage,
+  identityOfMessage,
+  minFinalityOfMessage,
+  nonceOfMessage,
+  transferIdOfMessage,
+} from "../src/cctp.js";
+import {
+  burnMessage,
+  FORWARD_PARAMS,
+  NONCE,
+  ROUTER_BYTES32,
+  SOURCE_DOMAIN,
+} from "./helpers/messages.js";
+
+describe("cctp", function () {
+  describe("computeTransferId", function () {
+    // XReserveRouter._transferId: keccak256(abi.encodePacked(uint32, bytes32))
+    it("hashes the packed source domain and nonce", function () {
+      const packed = ethers.concat([ethers.toBeHex(SOURCE_DOMAIN, 4), NONCE]);
+      expect(computeTransferId(SOURCE_DOMAIN, NONCE)).to.equal(ethers.keccak256(packed));
+    });
+
+    it("reads the same id from the message header", function () {
+      expect(transferIdOfMessage(burnMessage())).to.equal(
+        computeTransferId(SOURCE_DOMAIN, NONCE),
+      );
+    });
+  });
+
+  describe("decodeMessage", function () {
+    it("reads every header and burn field", function () {
+      const decoded = decodeMessage(
+        burnMessage({
+          minFinalityThreshold: 1000,
+          burn: { maxFee: "500", feeExecuted: "200", hookData: "0xabcd" },
+        }),
+      );
+      expect(decoded).to.deep.include({
+        version: 1,
+        sourceDomain: SOURCE_DOMAIN,
+        destinationDomain: 0,
+        nonce: NONCE,
+        destinationCaller: ROUTER_BYTES32,
+        minFinalityThreshold: 1000,
+        finalityThresholdExecuted: 2000,
+      });
+      expect(decoded?.burn).to.include({
+        version: 1,
+        mintRecipient: ROUTER_BYTES32,
+        amount: "10000000",
+        maxFee: "500",
+        feeExecuted: "200",
+        hookData: "0xabcd",
+      });
+    });
+
+    it("returns null below the BurnMessageV2 header", function () {
+      expect(decodeMessage(ethers.dataSlice(burnMessage(), 0, 375))).to.equal(null);
+    });
+  });
+
+  describe("header readers", function () {
+    it("read the nonce and finality threshold", function () {
+      const message = burnMessage({ minFinalityThreshold: 500 });
+      expect(nonceOfMessage(message)).to.equal(NONCE);
+      expect(minFinalityOfMessage(message)).to.equal(500);
+    });
+
+    it("return null when the message is too short", function () {
+      expect(nonceOfMessage("0x00")).to.equal(null);
+      expect(minFinalityOfMessage("0x")).to.equal(null);
+      expect(transferIdOfMessage("0x")).to.equal(null);
+    });
+  });
+
+  describe("identityOfMessage", function () {
+    it("reads the nonce, burn sender and ForwardParams recipients", function () {
+      expect(identityOfMessage(burnMessage())).to.deep.equal({
+        nonce: NONCE,
+        messageSender: "0x5555555555555555555555555555555555555555",
+        fallbackRecipient: FORWARD_PARAMS.fallbackRecipient.toLowerCase(),
+        remoteRecipient: FORWARD_PARAMS.remoteRecipient,
+      });
+    });
+
+    it("leaves the recipients null when hookData does not decode", function () {
+      expect(identityOfMessage(burnMessage({ burn: { hookData: "0x" } }))).to.include({
+        fallbackRecipient: null,
+        remoteRecipient: null,
+      });
+    });
+  });
+
+  describe("bytes32ToAccount", function () {
+    it("shortens left-padded addresses and keeps other values", function () {
+      const padded = ethers.zeroPadValue("0xABCDEF0123456789ABCDEF0123456789ABCDEF01", 32);
+      expect(bytes32ToAccount(padded)).to.equal("0xabcdef0123456789abcdef0123456789abcdef01");
+      const solana = "0x" + "ab".repeat(32);
+      expect(bytes32ToAccount(solana)).to.equal(solana);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { loadConfig } from "../src/config.js";
+
+const REQUIRED = {
+  ROUTER_ADDRESS: "0x1111111111111111111111111111111111111111",
+  ETHEREUM_RPC_URL: "http://127.0.0.1:8545",
+  RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+  TRANSMITTER_ADDRESS: "0x2222222222222222222222222222222222222222",
+};
+
+describe("loadConfig", function () {
+  let saved: NodeJS.ProcessEnv;
+
+  beforeEach(function () {
+    saved = process.env;
+    process.env = { ...REQUIRED };
+  });
+
+  afterEach(function () {
+    process.env = saved;
+  });
+
+  describe("poll settings", function () {
+    for (const value of ["0", "-1", "1.5", "abc"]) {
+      it(`rejects POLL_BACKOFF_BASE_MS=${value}`, function () {
+        process.env.POLL_BACKOFF_BASE_MS = value;
+        expect(() => loadConfig()).to.throw("Invalid POLL_BACKOFF_BASE_MS");
+      });
+    }
+
+    it("rejects a finality profile with a zero poll interval", function () {
+      process.env.FINALITY_PROFILES = "3:standard:60000:0:3600000";
+      expect(() => loadConfig()).to.throw("Invalid FINALITY_PROFILES entry");
+    });
+
+    it("warns about removed poll settings that are still set", function () {
+      process.env.ATTESTATION_TIMEOUT_MS = "3600000";
+      const warnings: string[] = [];
+      const warn = console.warn;
+      console.warn = (message: string) => warnings.push(message);
+      try {
+        loadConfig();
+      } finally {
+        console.warn = warn;
+      }
+      expect(warnings).to.have.length(1);
+      expect(warnings[0]).to.match(/^ATTESTATION_TIMEOUT_MS is no longer used/);
+    });
+  });
+
+  describe("message versions", function () {
+    it("accepts version 1 of both formats by default", function () {
+      const config = loadConfig();
+      expect([...config.messageVersions]).to.deep.equal([1]);
+      expect([...config.burnMessageVersions]).to.deep.equal([1]);
+    });
+
+    it("reads a comma-separated allow-list", function () {
+      process.env.MESSAGE_VERSIONS = "1, 2";
+      process.env.BURN_MESSAGE_VERSIONS = "2";
+      const config = loadConfig();
+      expect([...config.messageVersions]).to.deep.equal([1, 2]);
+      expect([...config.burnMessageVersions]).to.deep.equal([2]);
+    });
+
+    for (const value of ["-1", "1.5", "v2", "4294967296"]) {
+      it(`rejects MESSAGE_VERSIONS=${value}`, function () {
+        process.env.MESSAGE_VERSIONS = value;
+        expect(() => loadConfig()).to.throw("Invalid MESSAGE_VERSIONS entry");
+      });
+    }
+
+    it("rejects a list without versions", function () {
+      process.env.BURN_MESSAGE_VERSIONS = ",";
+      expect(() => loadConfig()).to.throw("Invalid BURN_MESSAGE_VERSIONS");
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import {
+  parseExportRange,
+  writeSettledRelays,
+  type ExportFormat,
+} from "../src/exports.js";
+import { createStore, type Store } from "../src/store.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+
+const CONFIRMED_AT = "2026-10-02T00:00:00.000Z";
+
+describe("parseExportRange", function () {
+  it("normalizes times to ISO", function () {
+    expect(parseExportRange("2026-10-01", "2026-10-02T02:00:00+02:00")).to.deep.equal({
+      from: "2026-10-01T00:00:00.000Z",
+      to: "2026-10-02T00:00:00.000Z",
+    });
+  });
+
+  it("leaves out missing and empty bounds", function () {
+    expect(parseExportRange(undefined, "")).to.deep.equal({});
+  });
+
+  it("rejects unparseable times", function () {
+    expect(parseExportRange("yesterday", undefined)).to.equal("Invalid from");
+    expect(parseExportRange(undefined, "2026-13-01")).to.equal("Invalid to");
+  });
+});
+
+describe("writeSettledRelays", function () {
+  let store: Store;
+
+  beforeEach(function () {
+    store = createStore(":memory:");
+  });
+
+  // A relay of txHashOf(n), confirmed with the given job fields
+  function settle(n: number, overrides: Parameters<typeof relayJob>[0] = {}) {
+    const job = relayJob({ txHash: txHashOf(n), nonce: txHashOf(1000 + n) });
+    store.upsertJob(job);
+    store.updateJob(job.transferId, {
+      status: "confirmed",
+      confirmedAt: CONFIRMED_AT,
+      ...overrides,
+    });
+    return job.transferId;
+  }
+
+  async function exported(format: ExportFormat) {
+    const chunks: string[] = [];
+    const count = await writeSettledRelays(store, {}, format, (chunk) => {
+      chunks.push(chunk);
+    });
+    return { count, chunks, text: chunks.join("") };
+  }
+
+  it("writes CSV with a header and the minted amount of each relay", async function () {
+    store.createRequest(relayRequest({ integratorId: "acme" }));
+    const transferId = settle(1, {
+      outcome: "forwarded",
+      ethTxHash: txHashOf(500),
+      ethBlockNumber: 90,
+      settledAmount: "9500000",
+      settledRelayFee: "500000",
+    });
+    store.recordTransaction({
+      ethTxHash: txHashOf(500),
+      transferId,
+      status: "success",
+      gasUsed: "150000",
+      gasPrice: "2000000000",
+      blockNumber: 90,
+      recordedAt: CONFIRMED_AT,
+    });
+
+    const { count, text } = await exported("csv");
+
+    expect(count).to.equal(1);
+    expect(text.split("\n")).to.deep.equal([
+      "sourceDomain,txHash,messageIndex,transferId,outcome,ethTxHash,ethBlockNumber," +
+        "confirmedAt,mintedAmount,relayFee,forwardAmount,fallbackAmount," +
+        "operatorRoutedAmount,operatorRouteReason,gasCostEth,integratorId",
+      `3,${txHashOf(1)},0,${transferId},forwarded,${txHashOf(500)},90,` +
+        `${CONFIRMED_AT},10000000,500000,9500000,,,,0.0003,acme`,
+      "",
+    ]);
+  });
+
+  it("quotes CSV fields holding commas, quotes or newlines", async function () {
+    store.createRequest(relayRequest({ integratorId: 'acme, "east"\nwing' }));
+    settle(1);
+
+    const { text } = await exported("csv");
+
+    expect(text.endsWith(',"acme, ""east""\nwing"\n')).to.equal(true);
+  });
+
+  it("writes NDJSON with nulls for missing values", async function () {
+    settle(1, {
+      outcome: "operator_routed",
+      settledAmount: "10000000",
+      settledRelayFee: "0",
+      operatorRouteReason: 2,
+    });
+    settle(2);
+
+    const { count, text } = await exported("ndjson");
+    const [routed, unknown] = text.trimEnd().split("\n").map((line) => JSON.parse(line));
+
+    expect(count).to.equal(2);
+    expect(routed).to.include({
+      outcome: "operator_routed",
+      mintedAmount: "10000000",
+      relayFee: "0",
+      forwardAmount: null,
+      operatorRoutedAmount: "10000000",
+      operatorRouteReason: 2,
+      gasCostEth: null,
+      integratorId: null,
+    });
+    expect(unknown).to.include({ outcome: null, mintedAmount: null, relayFee: null });
+  });
+
+  it("pages past 500 relays confirmed at the same time", async function () {
+    const transferIds: string[] = [];
+    for (let n = 1; n <= 501; n++) transferIds.push(settle(n));
+    transferIds.sort();
+
+    const { count, chunks } = await exported("ndjson");
+    const written = chunks
+      .join("")
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line).transferId);
+
+    expect(count).to.equal(501);
+    expect(chunks).to.have.length(2);
+    expect(written).to.deep.equal(transferIds);
+  });
+
+  it("writes only the header when nothing settled", async function () {
+    settle(1, { status: "submitted", confirmedAt: null });
+
+    const { count, text } = await exported("csv");
+
+    expect(count).to.equal(0);
+    expect(text.split("\n")).to.have.length(2);
+  });
+});
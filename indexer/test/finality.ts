@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import type { Config } from "../src/config.js";
+import {
+  finalityOf,
+  finalityProfile,
+  notFoundBudget,
+  pollBudget,
+  pollDelayMs,
+} from "../src/finality.js";
+import type { FinalityProfile } from "../src/types.js";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+function configWith(overrides: Partial<Config> = {}): Config {
+  return {
+    pollBackoffBaseMs: 2 * SECOND,
+    irisNotFoundTimeoutMs: 10 * MINUTE,
+    finalityProfiles: new Map(),
+    ...overrides,
+  } as Config;
+}
+
+const PROFILE: FinalityProfile = {
+  expectedLatencyMs: 13 * MINUTE,
+  pollIntervalMs: 30 * SECOND,
+  timeoutMs: 60 * MINUTE,
+};
+
+describe("finality", function () {
+  describe("finalityOf", function () {
+    it("treats thresholds up to 1000 as fast", function () {
+      expect(finalityOf(1000)).to.equal("fast");
+      expect(finalityOf(1001)).to.equal("standard");
+    });
+
+    it("treats an unknown threshold as standard", function () {
+      expect(finalityOf(null)).to.equal("standard");
+    });
+  });
+
+  describe("finalityProfile", function () {
+    it("uses the domain's standard profile", function () {
+      expect(finalityProfile(configWith(), 3, 2000)).to.deep.equal(PROFILE);
+    });
+
+    it("keeps the standard cadence and timeout for fast burns", function () {
+      expect(finalityProfile(configWith(), 3, 1000)).to.deep.equal({
+        ...PROFILE,
+        expectedLatencyMs: 20 * SECOND,
+      });
+    });
+
+    it("prefers a configured profile", function () {
+      const override = { expectedLatencyMs: 1, pollIntervalMs: 2, timeoutMs: 3 };
+      const config = configWith({
+        finalityProfiles: new Map([["3:fast", override]]),
+      });
+      expect(finalityProfile(config, 3, 1000)).to.equal(override);
+      expect(finalityProfile(config, 3, 2000)).to.deep.equal(PROFILE);
+    });
+  });
+
+  describe("pollDelayMs", function () {
+    it("doubles from the base up to the profile's interval", function () {
+      const delays = [0, 1, 2, 3, 4, 5, 6].map((n) =>
+        pollDelayMs(configWith(), PROFILE, n),
+      );
+      expect(delays).to.deep.equal([2000, 2000, 4000, 8000, 16000, 30000, 30000]);
+    });
+  });
+
+  describe("pollBudget", function () {
+    // First poll at 0, then 13 min, then +4s, +8s, +16s, and every 30s
+    // until the hour is up
+    it("counts the polls the schedule makes within the timeout", function () {
+      expect(pollBudget(configWith(), PROFILE)).to.equal(98);
+    });
+
+    it("counts one poll when the timeout is shorter than the expected latency", function () {
+      expect(
+        pollBudget(configWith(), { ...PROFILE, timeoutMs: MINUTE }),
+      ).to.equal(1);
+    });
+
+    it("terminates on a zero or NaN delay", function () {
+      expect(pollBudget(configWith({ pollBackoffBaseMs: 0 }), PROFILE)).to.equal(2);
+      expect(pollBudget(configWith({ pollBackoffBaseMs: NaN }), PROFILE)).to.equal(1);
+      expect(
+        pollBudget(configWith(), { ...PROFILE, pollIntervalMs: 0 }),
+      ).to.equal(2);
+    });
+  });
+
+  describe("notFoundBudget", function () {
+    // 2s, 4s, 8s, 16s, then every 30s up to 10 minutes
+    it("counts polls from the first one, without a floor", function () {
+      expect(notFoundBudget(configWith(), PROFILE)).to.equal(24);
+    });
+  });
+});
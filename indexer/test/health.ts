@@ -0,0 +1,173 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import type { Config } from "../src/config.js";
+import { createReadinessCheck, heartbeat } from "../src/health.js";
+import { createStore } from "../src/store.js";
+import { fakeRpc, type FakeRpc } from "./helpers/rpc.js";
+
+describe("createReadinessCheck", function () {
+  let rpc: FakeRpc;
+  let iris: Server;
+  let config: Config;
+  let checkReadiness: ReturnType<typeof createReadinessCheck>;
+
+  // State of the fake Ethereum chain and Iris
+  let chainId: string;
+  let blockAgeMs: number;
+  let balance: bigint;
+  let irisHttpStatus: number;
+  let chainIdCalls: number;
+
+  before(async function () {
+    rpc = await fakeRpc((method) => {
+      switch (method) {
+        case "eth_chainId":
+          chainIdCalls++;
+          return chainId;
+        case "eth_getBlockByNumber":
+          return {
+            number: "0x100",
+            timestamp: ethers.toQuantity(Math.floor((Date.now() - blockAgeMs) / 1000)),
+          };
+        case "eth_getBalance":
+          return ethers.toQuantity(balance);
+      }
+    });
+
+    const app = express();
+    app.get("/", (_req, res) => {
+      res.status(irisHttpStatus).end();
+    });
+    iris = app.listen(0, "127.0.0.1");
+    await once(iris, "listening");
+
+    config = {
+      isTestnet: false,
+      ethereumRpcUrl: rpc.url,
+      irisApiBaseUrl: `http://127.0.0.1:${(iris.address() as AddressInfo).port}`,
+      relayerPrivateKey: "0x" + "11".repeat(32),
+      healthCheckTimeoutMs: 1000,
+      maxBlockAgeMs: 60_000,
+      minWalletBalanceWei: ethers.parseEther("0.05"),
+      loopStaleMs: 120_000,
+      confirmationTimeoutMs: 180_000,
+    } as Config;
+  });
+
+  after(function () {
+    rpc.close();
+    iris.closeAllConnections();
+    iris.close();
+  });
+
+  beforeEach(function () {
+    chainId = "0x1";
+    blockAgeMs = 12_000;
+    balance = ethers.parseEther("1");
+    irisHttpStatus = 404;
+    chainIdCalls = 0;
+    checkReadiness = createReadinessCheck(config, createStore(":memory:"));
+  });
+
+  // Runs `fn` with the clock moved forward by `ms`
+  async function later<T>(ms: number, fn: () => Promise<T>): Promise<T> {
+    const now = Date.now;
+    Date.now = () => now() + ms;
+    try {
+      return await fn();
+    } finally {
+      Date.now = now;
+    }
+  }
+
+  // Kept first: nothing else in the test run starts the loops
+  it("is not ready before the poller and submitter iterate", async function () {
+    const { ready, checks } = await checkReadiness();
+    expect(ready).to.equal(false);
+    expect(checks.poller).to.deep.equal({ ok: false, detail: "not started" });
+    expect(checks.submitter).to.deep.equal({ ok: false, detail: "not started" });
+  });
+
+  describe("once the loops iterate", function () {
+    beforeEach(function () {
+      heartbeat("poller");
+      heartbeat("submitter");
+    });
+
+    it("is ready when every check passes", async function () {
+      const { ready, checks } = await checkReadiness();
+      expect(ready).to.equal(true);
+      expect(checks.chain).to.deep.equal({ ok: true, detail: "chainId 1" });
+      expect(checks.iris).to.deep.equal({ ok: true, detail: "HTTP 404" });
+      expect(checks.wallet.detail).to.equal("1.0 ETH (floor 0.05)");
+    });
+
+    it("fails on another chain", async function () {
+      chainId = "0xaa36a7";
+      const { ready, checks } = await checkReadiness();
+      expect(ready).to.equal(false);
+      expect(checks.chain).to.deep.equal({
+        ok: false,
+        detail: "chainId 11155111, expected 1 (IS_TESTNET=false)",
+      });
+    });
+
+    it("fails when the latest block is too old", async function () {
+      blockAgeMs = 120_000;
+      const { ready, checks } = await checkReadiness();
+      expect(ready).to.equal(false);
+      expect(checks.latestBlock.ok).to.equal(false);
+      // Block timestamps are whole seconds
+      expect(checks.latestBlock.detail).to.match(/^block 256 is 12[01]s old$/);
+    });
+
+    it("fails below the wallet balance floor", async function () {
+      balance = ethers.parseEther("0.01");
+      const { ready, checks } = await checkReadiness();
+      expect(ready).to.equal(false);
+      expect(checks.wallet).to.deep.equal({ ok: false, detail: "0.01 ETH (floor 0.05)" });
+    });
+
+    it("fails when Iris answers with a server error", async function () {
+      irisHttpStatus = 503;
+      const { ready, checks } = await checkReadiness();
+      expect(ready).to.equal(false);
+      expect(checks.iris).to.deep.equal({ ok: false, detail: "HTTP 503" });
+    });
+
+    it("fails when a loop stopped iterating", async function () {
+      const { checks } = await later(config.loopStaleMs + 1000, checkReadiness);
+      expect(checks.poller.ok).to.equal(false);
+      expect(checks.poller.detail).to.equal("last iteration 121s ago");
+      // The submitter may still be waiting for a receipt
+      expect(checks.submitter.ok).to.equal(true);
+    });
+
+    it("reports RPC errors as failed checks", async function () {
+      const unreachable = createReadinessCheck(
+        { ...config, ethereumRpcUrl: `${rpc.url}/missing` },
+        createStore(":memory:"),
+      );
+      const { ready, checks } = await unreachable();
+      expect(ready).to.equal(false);
+      expect(checks.chain).to.deep.equal({ ok: false, detail: "RPC returned HTTP 404" });
+      expect(checks.database.ok).to.equal(true);
+    });
+
+    it("reuses its result for 5 seconds", async function () {
+      const first = await checkReadiness();
+      chainId = "0xaa36a7";
+
+      expect(await later(4_000, checkReadiness)).to.equal(first);
+      expect(chainIdCalls).to.equal(1);
+
+      const refreshed = await later(5_000, checkReadiness);
+      expect(chainIdCalls).to.equal(2);
+      expect(refreshed.ready).to.equal(false);
+    });
+  });
+});
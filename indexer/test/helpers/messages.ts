@@ -0,0 +1,52 @@
+import { ethers } from "ethers";
+import { encodeMessage, type DecodedMessage } from "../../src/cctp.js";
+import { encodeForwardParams, type ForwardParams } from "../../src/hookdata.js";
+
+export const ROUTER = "0x1111111111111111111111111111111111111111";
+export const ROUTER_BYTES32 = ethers.zeroPadValue(ROUTER, 32);
+
+export const SOURCE_DOMAIN = 3;
+export const NONCE = ethers.zeroPadValue("0x2a", 32);
+
+export const FORWARD_PARAMS: ForwardParams = {
+  fallbackRecipient: "0x3333333333333333333333333333333333333333",
+  remoteDomain: 10001,
+  remoteRecipient: ethers.zeroPadValue("0x4444444444444444444444444444444444444444", 32),
+  maxFee: 0n,
+  relayMaxFee: 500_000n,
+  hookData: "0x",
+};
+
+type MessageOverrides = Partial<Omit<DecodedMessage, "burn">> & {
+  burn?: Partial<DecodedMessage["burn"]>;
+};
+
+// A 10 USDC burn from SOURCE_DOMAIN to the router, forwarding with
+// FORWARD_PARAMS; fields can be overridden one by one
+export function burnMessage(overrides: MessageOverrides = {}): string {
+  const { burn, ...header } = overrides;
+  return encodeMessage({
+    version: 1,
+    sourceDomain: SOURCE_DOMAIN,
+    destinationDomain: 0,
+    nonce: NONCE,
+    sender: ethers.ZeroHash,
+    recipient: ethers.ZeroHash,
+    destinationCaller: ROUTER_BYTES32,
+    minFinalityThreshold: 2000,
+    finalityThresholdExecuted: 2000,
+    ...header,
+    burn: {
+      version: 1,
+      burnToken: ethers.ZeroHash,
+      mintRecipient: ROUTER_BYTES32,
+      amount: "10000000",
+      messageSender: ethers.zeroPadValue("0x5555555555555555555555555555555555555555", 32),
+      maxFee: "0",
+      feeExecuted: "0",
+      expirationBlock: "0",
+      hookData: encodeForwardParams(FORWARD_PARAMS),
+      ...burn,
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { ethers } from "ethers";
+import { computeTransferId } from "../../src/cctp.js";
+import type { RelayJob, RelayRequest } from "../../src/types.js";
+
+const CREATED_AT = "2026-10-01T00:00:00.000Z";
+
+export function txHashOf(n: number): string {
+  return ethers.zeroPadValue(ethers.toBeHex(n), 32);
+}
+
+// A pending request, due for its first poll
+export function relayRequest(overrides: Partial<RelayRequest> = {}): RelayRequest {
+  return {
+    txHash: txHashOf(1),
+    sourceDomain: 3,
+    attempt: 1,
+    status: "pending",
+    error: null,
+    resolutionNote: null,
+    pollAttempts: 0,
+    nextPollAt: CREATED_AT,
+    minFinalityThreshold: 2000,
+    messageCount: 0,
+    callbackUrl: null,
+    quoteId: null,
+    relayFee: null,
+    integratorId: null,
+    createdAt: CREATED_AT,
+    attestedAt: null,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+// An attested job of relayRequest's transaction
+export function relayJob(overrides: Partial<RelayJob> = {}): RelayJob {
+  const sourceDomain = overrides.sourceDomain ?? 3;
+  const nonce = overrides.nonce ?? ethers.zeroPadValue("0x2a", 32);
+  return {
+    transferId: computeTransferId(sourceDomain, nonce),
+    sourceDomain,
+    txHash: txHashOf(1),
+    messageIndex: 0,
+    attempt: 1,
+    attestedMessage: null,
+    attestation: null,
+    irisNonce: nonce,
+    mintRecipient: null,
+    destinationDomain: 0,
+    amount: "10000000",
+    settledAmount: null,
+    settledRelayFee: null,
+    operatorRouteReason: null,
+    predictedRoute: null,
+    predictedRouteReason: null,
+    nonce,
+    messageSender: null,
+    fallbackRecipient: null,
+    remoteRecipient: null,
+    ethTxHash: null,
+    ethTxNonce: null,
+    ethBlockNumber: null,
+    status: "attested",
+    outcome: null,
+    error: null,
+    resolutionNote: null,
+    retryCount: 0,
+    createdAt: CREATED_AT,
+    attestedAt: CREATED_AT,
+    submittedAt: null,
+    confirmedAt: null,
+    updatedAt: CREATED_AT,
+    ...overrides,
+  };
+}
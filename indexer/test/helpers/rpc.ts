@@ -0,0 +1,144 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { ethers } from "ethers";
+
+export type RpcHandler = (method: string, params: unknown[]) => unknown;
+
+export interface FakeRpc {
+  server: Server;
+  url: string;
+  close(): void;
+}
+
+// A revert with Error(reason), as nodes report a failed call or estimate
+export class RpcRevert extends Error {
+  readonly data: string;
+
+  constructor(reason: string) {
+    super(`execution reverted: ${reason}`);
+    this.data = ethers.concat([
+      ethers.id("Error(string)").slice(0, 10),
+      ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason]),
+    ]);
+  }
+}
+
+// A JSON-RPC endpoint answering every call with `handle`, including the
+// batches an ethers provider sends. eth_chainId answers mainnet unless
+// handled; a thrown error becomes a JSON-RPC error, with the revert data
+// of an RpcRevert.
+export async function fakeRpc(handle: RpcHandler): Promise<FakeRpc> {
+  const app = express();
+  app.use(express.json());
+
+  function answer(call: { id: unknown; method: string; params?: unknown[] }) {
+    try {
+      const result =
+        handle(call.method, call.params ?? []) ??
+        (call.method === "eth_chainId" ? "0x1" : null);
+      return { jsonrpc: "2.0", id: call.id, result };
+    } catch (err) {
+      if (err instanceof RpcRevert) {
+        return {
+          jsonrpc: "2.0",
+          id: call.id,
+          error: { code: 3, message: err.message, data: err.data },
+        };
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      return { jsonrpc: "2.0", id: call.id, error: { code: -32000, message } };
+    }
+  }
+
+  app.post("/", (req, res) => {
+    res.json(Array.isArray(req.body) ? req.body.map(answer) : answer(req.body));
+  });
+
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return {
+    server,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close() {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+const BLOCK_HASH = ethers.zeroPadValue("0xb1", 32);
+
+// eth_getTransactionReceipt result of a mined transaction
+export function rpcReceipt(
+  hash: string,
+  logs: { address: string; topics: string[]; data: string }[],
+  overrides: { status?: number; blockNumber?: number } = {},
+) {
+  const blockNumber = ethers.toQuantity(overrides.blockNumber ?? 100);
+  return {
+    transactionHash: hash,
+    transactionIndex: "0x0",
+    blockHash: BLOCK_HASH,
+    blockNumber,
+    from: "0x" + "aa".repeat(20),
+    to: "0x" + "bb".repeat(20),
+    contractAddress: null,
+    gasUsed: "0x249f0",
+    cumulativeGasUsed: "0x249f0",
+    effectiveGasPrice: "0x3b9aca00",
+    logsBloom: "0x" + "00".repeat(256),
+    status: ethers.toQuantity(overrides.status ?? 1),
+    type: "0x2",
+    logs: logs.map((log, i) => ({
+      ...log,
+      transactionHash: hash,
+      transactionIndex: "0x0",
+      blockHash: BLOCK_HASH,
+      blockNumber,
+      logIndex: ethers.toQuantity(i),
+      removed: false,
+    })),
+  };
+}
+
+// eth_getBlockByNumber result of an empty London block
+export function rpcBlock(number: number) {
+  return {
+    hash: ethers.zeroPadValue(ethers.toBeHex(number), 32),
+    parentHash: ethers.ZeroHash,
+    number: ethers.toQuantity(number),
+    timestamp: ethers.toQuantity(Math.floor(Date.now() / 1000)),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    miner: ethers.ZeroAddress,
+    extraData: "0x",
+    baseFeePerGas: "0x3b9aca00",
+    transactions: [],
+  };
+}
+
+// eth_getTransactionByHash result of a transaction still in the mempool
+export function rpcPendingTransaction(hash: string, nonce: number) {
+  return {
+    hash,
+    type: "0x0",
+    from: "0x" + "aa".repeat(20),
+    to: "0x" + "bb".repeat(20),
+    nonce: ethers.toQuantity(nonce),
+    gas: "0x5208",
+    gasPrice: "0x3b9aca00",
+    value: "0x0",
+    input: "0x",
+    chainId: "0x1",
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+    r: "0x" + "11".repeat(32),
+    s: "0x" + "22".repeat(32),
+    v: "0x25",
+  };
+}
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  checkForwardParams,
+  decodeForwardParams,
+  encodeForwardParams,
+  forwardParamsJson,
+  parseForwardParams,
+  type ForwardParams,
+} from "../src/hookdata.js";
+import { FORWARD_PARAMS } from "./helpers/messages.js";
+
+// The struct is dynamic, so the encoding starts with its offset (0x20)
+const STRUCT_BASE = 32;
+
+// Set one byte of encoded hookData
+function withByte(hex: string, index: number, value: number): string {
+  const bytes = ethers.getBytes(hex);
+  bytes[index] = value;
+  return ethers.hexlify(bytes);
+}
+
+describe("hookdata", function () {
+  describe("encodeForwardParams / decodeForwardParams", function () {
+    it("round-trips ForwardParams", function () {
+      const params: ForwardParams = {
+        ...FORWARD_PARAMS,
+        maxFee: ethers.MaxUint256,
+        hookData: "0xdeadbeef",
+      };
+      expect(decodeForwardParams(encodeForwardParams(params))).to.deep.equal({
+        params,
+      });
+    });
+
+    it("rejects empty hookData", function () {
+      expect(decodeForwardParams("0x")).to.deep.equal({ error: "empty hookData" });
+    });
+
+    it("rejects bytes that are not ABI-encoded ForwardParams", function () {
+      const result = decodeForwardParams("0x1234");
+      expect(result).to.have.property("error").that.match(/^not ABI-encoded ForwardParams/);
+    });
+
+    // abi.decode reverts on these; ethers would mask them
+    it("rejects dirty high-order bits in fallbackRecipient", function () {
+      const hex = withByte(encodeForwardParams(FORWARD_PARAMS), STRUCT_BASE, 1);
+      expect(decodeForwardParams(hex)).to.deep.equal({
+        error: "fallbackRecipient has dirty high-order bits",
+      });
+    });
+
+    it("rejects a remoteDomain wider than uint32", function () {
+      const hex = withByte(encodeForwardParams(FORWARD_PARAMS), STRUCT_BASE + 59, 1);
+      expect(decodeForwardParams(hex)).to.deep.equal({
+        error: "remoteDomain does not fit in uint32",
+      });
+    });
+  });
+
+  describe("checkForwardParams", function () {
+    it("reports nothing for relayable params", function () {
+      expect(checkForwardParams(FORWARD_PARAMS, 100_000n, new Set([10001]))).to.be.empty;
+    });
+
+    it("reports a zero fallbackRecipient", function () {
+      const issues = checkForwardParams(
+        { ...FORWARD_PARAMS, fallbackRecipient: ethers.ZeroAddress },
+        100_000n,
+        new Set(),
+      );
+      expect(issues).to.have.length(1);
+      expect(issues[0]).to.match(/"zero fallback"$/);
+    });
+
+    it("reports a relayMaxFee below the relay fee", function () {
+      const issues = checkForwardParams(FORWARD_PARAMS, 500_001n, new Set());
+      expect(issues).to.have.length(1);
+      expect(issues[0]).to.match(/"relay fee exceeds max"$/);
+    });
+
+    it("reports an unknown remoteDomain only when domains are configured", function () {
+      expect(checkForwardParams(FORWARD_PARAMS, 0n, new Set())).to.be.empty;
+      expect(checkForwardParams(FORWARD_PARAMS, 0n, new Set([1]))).to.have.length(1);
+    });
+  });
+
+  describe("parseForwardParams", function () {
+    const body = {
+      fallbackRecipient: FORWARD_PARAMS.fallbackRecipient.toLowerCase(),
+      remoteDomain: FORWARD_PARAMS.remoteDomain,
+      remoteRecipient: FORWARD_PARAMS.remoteRecipient.toUpperCase().replace("0X", "0x"),
+      maxFee: "0",
+      relayMaxFee: "500000",
+    };
+
+    it("parses and normalizes a body", function () {
+      const params = parseForwardParams(body);
+      expect(params).to.deep.equal(FORWARD_PARAMS);
+      expect(forwardParamsJson(params as ForwardParams)).to.include({
+        maxFee: "0",
+        relayMaxFee: "500000",
+      });
+    });
+
+    for (const [field, value, error] of [
+      ["fallbackRecipient", "0x1234", "Invalid fallbackRecipient"],
+      ["remoteDomain", 2 ** 32, "Invalid remoteDomain"],
+      ["remoteDomain", "1", "Invalid remoteDomain"],
+      ["remoteRecipient", "0x1234", "Invalid remoteRecipient (expected bytes32)"],
+      ["maxFee", (2n ** 256n).toString(), "Invalid maxFee"],
+      ["relayMaxFee", "-1", "Invalid relayMaxFee"],
+      ["hookData", "0x123", "Invalid hookData"],
+    ] as const) {
+      it(`rejects ${field} = ${String(value).slice(0, 20)}`, function () {
+        expect(parseForwardParams({ ...body, [field]: value })).to.equal(error);
+      });
+    }
+  });
+});
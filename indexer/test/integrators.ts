@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import type { Config } from "../src/config.js";
+import {
+  generateApiKey,
+  hashApiKey,
+  parseListFilter,
+  relayFeeFor,
+} from "../src/integrators.js";
+import type { Integrator } from "../src/types.js";
+
+describe("integrators", function () {
+  describe("generateApiKey", function () {
+    it("returns a fresh key with its hash and listing prefix", function () {
+      const { key, keyHash, keyPrefix } = generateApiKey();
+      expect(key).to.match(/^xr_[0-9a-f]{64}$/);
+      expect(keyHash).to.equal(hashApiKey(key));
+      expect(keyPrefix).to.equal(key.slice(0, 10));
+      expect(generateApiKey().key).to.not.equal(key);
+    });
+  });
+
+  describe("relayFeeFor", function () {
+    const config = { relayFee: 100n } as Config;
+
+    it("charges anonymous callers the configured fee", function () {
+      expect(relayFeeFor(config, null)).to.equal(100n);
+    });
+
+    it("charges an integrator its override when it has one", function () {
+      expect(relayFeeFor(config, { relayFee: "25" } as Integrator)).to.equal(25n);
+      expect(relayFeeFor(config, { relayFee: null } as Integrator)).to.equal(100n);
+    });
+  });
+
+  describe("parseListFilter", function () {
+    it("returns an empty filter for an empty query", function () {
+      expect(parseListFilter({})).to.deep.equal({});
+    });
+
+    it("reads every filter", function () {
+      expect(
+        parseListFilter({
+          status: "confirmed,failed",
+          outcome: "fallback",
+          sourceDomain: "6",
+          createdFrom: "2026-10-01",
+          confirmedTo: "2026-10-02T12:00:00Z",
+          minAmount: "1000",
+          maxAmount: "2000",
+          error: "revert",
+          integrator: "alice",
+        }),
+      ).to.deep.equal({
+        statuses: ["confirmed", "failed"],
+        outcomes: ["fallback"],
+        sourceDomain: 6,
+        createdFrom: "2026-10-01T00:00:00.000Z",
+        confirmedTo: "2026-10-02T12:00:00.000Z",
+        minAmount: 1000n,
+        maxAmount: 2000n,
+        errorContains: "revert",
+        integratorId: "alice",
+      });
+    });
+
+    it("ignores empty and repeated parameters", function () {
+      expect(parseListFilter({ status: "", integrator: ["a", "b"] })).to.deep.equal({});
+    });
+
+    for (const [name, value] of [
+      ["status", "confirmed,done"],
+      ["outcome", "refunded"],
+      ["sourceDomain", "4"],
+      ["createdTo", "yesterday"],
+      ["confirmedFrom", "2026-13-01"],
+      ["minAmount", "-1"],
+      ["maxAmount", "1".repeat(19)],
+    ]) {
+      it(`rejects ${name}=${value}`, function () {
+        expect(parseListFilter({ [name]: value })).to.equal(`Invalid ${name}`);
+      });
+    }
+  });
+});
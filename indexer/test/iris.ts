@@ -0,0 +1,247 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import type { Config } from "../src/config.js";
+import { fetchIrisMessages, irisStatus } from "../src/iris.js";
+import { createMockIris, type MockStep } from "../src/mockiris.js";
+import { ROUTER } from "./helpers/messages.js";
+
+const SOURCE_DOMAIN = 6;
+const COOLDOWN_MS = 100;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A fresh transaction hash per test, so scripts do not carry over
+let txCount = 0;
+function nextTxHash(): string {
+  return ethers.zeroPadValue(ethers.toBeHex(++txCount), 32);
+}
+
+describe("Iris client", function () {
+  let server: Server;
+  let mockUrl: string;
+  let config: Config;
+
+  // Script the mock's answers for one transaction with one burn
+  async function script(txHash: string, steps: MockStep[]): Promise<void> {
+    const response = await fetch(
+      `${mockUrl}/mock/transactions/${SOURCE_DOMAIN}/${txHash}`,
+      {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ messages: [{ amount: "1000000" }], steps }),
+      },
+    );
+    expect(response.status).to.equal(200);
+  }
+
+  async function lookups(txHash: string): Promise<number> {
+    const response = await fetch(`${mockUrl}/mock/transactions`);
+    const { transactions } = (await response.json()) as {
+      transactions: { txHash: string; lookups: number }[];
+    };
+    return transactions.find((t) => t.txHash === txHash)?.lookups ?? 0;
+  }
+
+  before(async function () {
+    server = createMockIris({
+      fixtures: [],
+      rpcUrls: new Map(),
+      attestAfterMs: 0,
+      attesterKey: ethers.Wallet.createRandom().privateKey,
+      routerAddress: ROUTER,
+    }).listen(0, "127.0.0.1");
+    await once(server, "listening");
+    mockUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    config = {
+      irisApiBaseUrl: mockUrl,
+      irisTimeoutMs: 1000,
+      irisMaxRetries: 2,
+      irisBreakerThreshold: 3,
+      irisBreakerCooldownMs: COOLDOWN_MS,
+    } as Config;
+  });
+
+  after(function () {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  // Each test leaves the client ready for the next
+  afterEach(async function () {
+    const retryAt = irisStatus().retryAt;
+    if (retryAt) await sleep(Date.parse(retryAt) - Date.now() + 10);
+    if (irisStatus().circuit !== "closed") {
+      const txHash = nextTxHash();
+      await script(txHash, [{ respond: "complete" }]);
+      await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    }
+    expect(irisStatus().circuit).to.equal("closed");
+  });
+
+  it("returns attested messages", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "complete" }]);
+
+    const lookup = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    expect(lookup.kind).to.equal("found");
+    if (lookup.kind !== "found") return;
+    expect(lookup.messages).to.have.length(1);
+    expect(lookup.messages[0].status).to.equal("complete");
+    expect(lookup.messages[0].attestation).to.match(/^0x[0-9a-f]{130}$/);
+    expect(lookup.messages[0].eventNonce).to.match(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("reports pending messages without an attestation", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "pending" }]);
+
+    const lookup = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    expect(lookup.kind).to.equal("found");
+    if (lookup.kind !== "found") return;
+    expect(lookup.messages[0].attestation).to.equal("PENDING");
+  });
+
+  it("reports a transaction Iris has not indexed as not found", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "not_found" }]);
+
+    expect(await fetchIrisMessages(config, SOURCE_DOMAIN, txHash)).to.deep.equal({
+      kind: "not_found",
+    });
+  });
+
+  it("reports a complete entry without an attestation as invalid", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "malformed" }]);
+
+    expect(await fetchIrisMessages(config, SOURCE_DOMAIN, txHash)).to.deep.equal({
+      kind: "invalid",
+      reason: "messages[0].attestation is missing",
+    });
+  });
+
+  it("retries server errors up to irisMaxRetries", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [
+      { respond: "error", times: 2 },
+      { respond: "complete" },
+    ]);
+
+    const lookup = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    expect(lookup.kind).to.equal("found");
+    expect(await lookups(txHash)).to.equal(3);
+    expect(irisStatus().consecutiveFailures).to.equal(0);
+  });
+
+  it("gives up after irisMaxRetries and counts one failure", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "error", status: 502 }]);
+
+    expect(await fetchIrisMessages(config, SOURCE_DOMAIN, txHash)).to.deep.equal({
+      kind: "unavailable",
+      reason: "HTTP 502",
+    });
+    expect(await lookups(txHash)).to.equal(3);
+    expect(irisStatus()).to.include({
+      circuit: "closed",
+      consecutiveFailures: 1,
+      lastError: "HTTP 502",
+    });
+  });
+
+  it("stops retrying at a Retry-After and holds lookups until it passes", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [
+      { respond: "error", times: 1, retryAfter: 1 },
+      { respond: "complete" },
+    ]);
+
+    const first = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    expect(first.kind).to.equal("unavailable");
+    expect(await lookups(txHash)).to.equal(1);
+    expect(irisStatus().retryAt).to.be.a("string");
+
+    expect(await fetchIrisMessages(config, SOURCE_DOMAIN, txHash)).to.deep.equal({
+      kind: "unavailable",
+      reason: "backing off",
+    });
+    expect(await lookups(txHash)).to.equal(1);
+
+    await sleep(Date.parse(irisStatus().retryAt as string) - Date.now() + 10);
+    const after = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+    expect(after.kind).to.equal("found");
+  });
+
+  it("backs off on 429 without counting a failure", async function () {
+    const txHash = nextTxHash();
+    await script(txHash, [{ respond: "rate_limited", retryAfter: 1 }]);
+
+    expect(await fetchIrisMessages(config, SOURCE_DOMAIN, txHash)).to.deep.equal({
+      kind: "unavailable",
+      reason: "rate limited",
+    });
+    expect(await lookups(txHash)).to.equal(1);
+    expect(irisStatus()).to.include({ circuit: "closed", consecutiveFailures: 0 });
+    expect(irisStatus().retryAt).to.be.a("string");
+  });
+
+  describe("circuit breaker", function () {
+    let failing: Config;
+
+    before(function () {
+      failing = { ...config, irisMaxRetries: 0 };
+    });
+
+    // irisBreakerThreshold failed lookups in a row
+    async function trip(txHash: string): Promise<void> {
+      await script(txHash, [{ respond: "error" }]);
+      for (let i = 0; i < config.irisBreakerThreshold; i++) {
+        await fetchIrisMessages(failing, SOURCE_DOMAIN, txHash);
+      }
+    }
+
+    it("opens after irisBreakerThreshold failures and stops calling Iris", async function () {
+      const txHash = nextTxHash();
+      await trip(txHash);
+      expect(irisStatus()).to.include({ circuit: "open", consecutiveFailures: 3 });
+      expect(irisStatus().unavailableSince).to.be.a("string");
+
+      expect(await fetchIrisMessages(failing, SOURCE_DOMAIN, txHash)).to.deep.equal({
+        kind: "unavailable",
+        reason: "circuit open",
+      });
+      expect(await lookups(txHash)).to.equal(3);
+    });
+
+    it("closes when the probe after the cooldown succeeds", async function () {
+      const txHash = nextTxHash();
+      await trip(txHash);
+      await script(txHash, [{ respond: "complete" }]);
+
+      await sleep(COOLDOWN_MS + 10);
+      const lookup = await fetchIrisMessages(failing, SOURCE_DOMAIN, txHash);
+      expect(lookup.kind).to.equal("found");
+      expect(irisStatus()).to.include({
+        circuit: "closed",
+        consecutiveFailures: 0,
+        unavailableSince: null,
+      });
+    });
+
+    it("reopens when the probe fails, without retrying it", async function () {
+      const txHash = nextTxHash();
+      await trip(txHash);
+
+      await sleep(COOLDOWN_MS + 10);
+      const probe = await fetchIrisMessages(config, SOURCE_DOMAIN, txHash);
+      expect(probe.kind).to.equal("unavailable");
+      expect(await lookups(txHash)).to.equal(4);
+      expect(irisStatus().circuit).to.equal("open");
+    });
+  });
+});
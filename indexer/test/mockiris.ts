@@ -0,0 +1,245 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { decodeMessage } from "../src/cctp.js";
+import { decodeForwardParams } from "../src/hookdata.js";
+import {
+  checkTransactionSpec,
+  createMockIris,
+  parseFixtures,
+  type MockTransactionSpec,
+} from "../src/mockiris.js";
+import { FORWARD_PARAMS, ROUTER, ROUTER_BYTES32 } from "./helpers/messages.js";
+import { txHashOf } from "./helpers/records.js";
+
+const SOURCE_DOMAIN = 6;
+
+interface IrisReply {
+  status: number;
+  messages: { message: string; attestation: string; eventNonce?: string; status: string }[];
+}
+
+describe("mock Iris", function () {
+  describe("parseFixtures", function () {
+    it("returns the transactions of a fixture file", function () {
+      const transactions = [{ sourceDomain: SOURCE_DOMAIN, txHash: txHashOf(1) }];
+      expect(parseFixtures({ transactions })).to.equal(transactions);
+    });
+
+    it("requires a transactions array", function () {
+      expect(parseFixtures({})).to.equal("fixtures must have a transactions array");
+      expect(parseFixtures(null)).to.equal("fixtures must have a transactions array");
+    });
+
+    it("names the first invalid entry", function () {
+      expect(
+        parseFixtures({
+          transactions: [
+            { sourceDomain: SOURCE_DOMAIN, txHash: txHashOf(1) },
+            { sourceDomain: SOURCE_DOMAIN, txHash: "0x01" },
+          ],
+        }),
+      ).to.equal("transactions[1].txHash must be a 32-byte hex string");
+    });
+  });
+
+  describe("checkTransactionSpec", function () {
+    const spec = (fields: Record<string, unknown>) => ({
+      sourceDomain: SOURCE_DOMAIN,
+      txHash: txHashOf(1),
+      ...fields,
+    });
+
+    it("accepts hex messages, burns and steps", function () {
+      expect(
+        checkTransactionSpec(
+          spec({
+            messages: ["0x00", { amount: "1000", hookData: { remoteDomain: 1 } }],
+            steps: [{ respond: "pending", times: 2 }, { respond: "complete" }],
+          }),
+          "body",
+        ),
+      ).to.equal(null);
+    });
+
+    for (const [fields, error] of [
+      [{ sourceDomain: -1 }, "body.sourceDomain must be a non-negative integer"],
+      [{ messages: "0x00" }, "body.messages must be an array"],
+      [{ messages: ["0x0"] }, "body.messages[0] must be hex"],
+      [
+        { messages: [{ amount: 1000 }] },
+        "body.messages[0].amount must be a decimal string",
+      ],
+      [
+        { messages: [{ amount: "1", mintRecipient: "0x01" }] },
+        "body.messages[0].mintRecipient must be an address",
+      ],
+      [{ steps: [] }, "body.steps must be a non-empty array"],
+      [
+        { steps: [{ respond: "ok" }] },
+        "body.steps[0].respond must be one of not_found, pending, complete, rate_limited, error, malformed",
+      ],
+      [
+        { steps: [{ respond: "pending", times: 1.5 }] },
+        "body.steps[0].times must be a non-negative integer",
+      ],
+      [
+        { steps: [{ respond: "error", status: 200 }] },
+        "body.steps[0].status must be an HTTP error status",
+      ],
+    ] as const) {
+      it(`rejects ${JSON.stringify(fields)}`, function () {
+        expect(checkTransactionSpec(spec(fields), "body")).to.equal(error);
+      });
+    }
+  });
+
+  describe("server", function () {
+    const attester = ethers.Wallet.createRandom();
+    const fixture: MockTransactionSpec = {
+      sourceDomain: SOURCE_DOMAIN,
+      txHash: txHashOf(1),
+      messages: [
+        {
+          amount: "1000000",
+          minFinalityThreshold: 1000,
+          hookData: {
+            ...FORWARD_PARAMS,
+            maxFee: FORWARD_PARAMS.maxFee.toString(),
+            relayMaxFee: FORWARD_PARAMS.relayMaxFee.toString(),
+          },
+        },
+        { amount: "2000000" },
+      ],
+      steps: [
+        { respond: "not_found" },
+        { respond: "pending", times: 2 },
+        { respond: "complete", messages: 1 },
+        { respond: "complete" },
+      ],
+    };
+    let server: Server;
+    let url: string;
+
+    async function messages(txHash = txHashOf(1)): Promise<IrisReply> {
+      const response = await fetch(
+        `${url}/v2/messages/${SOURCE_DOMAIN}?transactionHash=${txHash}`,
+      );
+      const body = (await response.json()) as { messages?: IrisReply["messages"] };
+      return { status: response.status, messages: body.messages ?? [] };
+    }
+
+    async function control(method: string, path: string, body?: unknown): Promise<number> {
+      const response = await fetch(`${url}/mock/${path}`, {
+        method,
+        headers: { "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return response.status;
+    }
+
+    before(async function () {
+      server = createMockIris({
+        fixtures: [fixture],
+        rpcUrls: new Map(),
+        attestAfterMs: 0,
+        attesterKey: attester.privateKey,
+        routerAddress: ROUTER,
+      }).listen(0, "127.0.0.1");
+      await once(server, "listening");
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(function () {
+      server.closeAllConnections();
+      server.close();
+    });
+
+    beforeEach(async function () {
+      expect(await control("POST", "reset")).to.equal(200);
+    });
+
+    it("plays a transaction's steps in order and repeats the last", async function () {
+      const statuses = [];
+      for (let i = 0; i < 6; i++) {
+        const reply = await messages();
+        statuses.push([reply.status, ...reply.messages.map((m) => m.status)]);
+      }
+      expect(statuses).to.deep.equal([
+        [404],
+        [200, "pending_confirmations", "pending_confirmations"],
+        [200, "pending_confirmations", "pending_confirmations"],
+        [200, "complete", "pending_confirmations"],
+        [200, "complete", "complete"],
+        [200, "complete", "complete"],
+      ]);
+    });
+
+    it("attests burns to the router with a nonce, finality and signature", async function () {
+      await control("PUT", `transactions/${SOURCE_DOMAIN}/${txHashOf(1)}`, {
+        messages: fixture.messages,
+      });
+      const [fast, standard] = (await messages()).messages;
+
+      const decoded = decodeMessage(fast.message);
+      expect(decoded).to.include({
+        sourceDomain: SOURCE_DOMAIN,
+        destinationCaller: ROUTER_BYTES32,
+        nonce: fast.eventNonce,
+        finalityThresholdExecuted: 1000,
+      });
+      expect(decoded?.nonce).to.not.equal(ethers.ZeroHash);
+      expect(decoded?.burn).to.include({ mintRecipient: ROUTER_BYTES32, amount: "1000000" });
+      expect(decodeForwardParams(decoded!.burn!.hookData)).to.deep.equal({
+        params: FORWARD_PARAMS,
+      });
+      expect(
+        ethers.recoverAddress(ethers.keccak256(fast.message), fast.attestation),
+      ).to.equal(attester.address);
+
+      expect(decodeMessage(standard.message)).to.include({ finalityThresholdExecuted: 2000 });
+      expect(standard.eventNonce).to.not.equal(fast.eventNonce);
+    });
+
+    it("answers unknown transactions with 404", async function () {
+      expect((await messages(txHashOf(2))).status).to.equal(404);
+    });
+
+    it("rejects an invalid transaction script", async function () {
+      expect(
+        await control("PUT", `transactions/${SOURCE_DOMAIN}/${txHashOf(2)}`, {
+          steps: [{ respond: "later" }],
+        }),
+      ).to.equal(400);
+    });
+
+    it("overrides every lookup with a global step until it runs out", async function () {
+      await control("PUT", `transactions/${SOURCE_DOMAIN}/${txHashOf(1)}`, {
+        messages: fixture.messages,
+      });
+      expect(
+        await control("PUT", "global", { respond: "error", status: 502, times: 2 }),
+      ).to.equal(200);
+
+      expect((await messages()).status).to.equal(502);
+      expect((await messages(txHashOf(2))).status).to.equal(502);
+      expect((await messages()).status).to.equal(200);
+    });
+
+    it("forgets deleted transactions until a reset", async function () {
+      expect(await control("DELETE", `transactions/${SOURCE_DOMAIN}/${txHashOf(1)}`)).to.equal(
+        200,
+      );
+      expect(await control("DELETE", `transactions/${SOURCE_DOMAIN}/${txHashOf(1)}`)).to.equal(
+        404,
+      );
+      expect((await messages()).status).to.equal(404);
+
+      await control("POST", "reset");
+      expect((await messages()).status).to.equal(404); // the fixture's first step
+      expect((await messages()).status).to.equal(200);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { loadConfig } from "../src/config.js";
+import { createMockIris, type MockStep } from "../src/mockiris.js";
+import { createPoller } from "../src/poller.js";
+import { createStore, type Store } from "../src/store.js";
+import { ROUTER } from "./helpers/messages.js";
+import { relayRequest, txHashOf } from "./helpers/records.js";
+
+const SOURCE_DOMAIN = 6;
+
+describe("poller", function () {
+  let server: Server;
+  let mockUrl: string;
+  let store: Store;
+  let pollDue: () => Promise<void>;
+
+  // Script the mock's answers for a transaction with two burns
+  async function script(txHash: string, steps: MockStep[]): Promise<void> {
+    const response = await fetch(
+      `${mockUrl}/mock/transactions/${SOURCE_DOMAIN}/${txHash}`,
+      {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          messages: [{ amount: "1000000" }, { amount: "2000000" }],
+          steps,
+        }),
+      },
+    );
+    expect(response.status).to.equal(200);
+  }
+
+  // Make a request due for its next poll right away
+  function due(txHash: string): void {
+    store.updateRequest(SOURCE_DOMAIN, txHash, {
+      nextPollAt: new Date(0).toISOString(),
+    });
+  }
+
+  before(async function () {
+    server = createMockIris({
+      fixtures: [],
+      rpcUrls: new Map(),
+      attestAfterMs: 0,
+      attesterKey: ethers.Wallet.createRandom().privateKey,
+      routerAddress: ROUTER,
+    }).listen(0, "127.0.0.1");
+    await once(server, "listening");
+    mockUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(function () {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(function () {
+    const saved = process.env;
+    process.env = {
+      ROUTER_ADDRESS: ROUTER,
+      ETHEREUM_RPC_URL: "http://127.0.0.1:8545",
+      RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+      TRANSMITTER_ADDRESS: "0x2222222222222222222222222222222222222222",
+      IRIS_API_URL: mockUrl,
+    };
+    const config = loadConfig();
+    process.env = saved;
+
+    store = createStore(":memory:");
+    pollDue = createPoller(config, store);
+  });
+
+  it("creates one job per complete message", async function () {
+    const txHash = txHashOf(1);
+    await script(txHash, [{ respond: "complete" }]);
+    store.createRequest(relayRequest({ txHash, sourceDomain: SOURCE_DOMAIN }));
+
+    await pollDue();
+
+    const jobs = store.getJobsForRequest(SOURCE_DOMAIN, txHash);
+    expect(jobs.map((j) => [j.messageIndex, j.amount, j.status])).to.deep.equal([
+      [0, "1000000", "attested"],
+      [1, "2000000", "attested"],
+    ]);
+    expect(new Set(jobs.map((j) => j.transferId)).size).to.equal(2);
+    expect(store.getRequest(SOURCE_DOMAIN, txHash)).to.include({
+      status: "attested",
+      messageCount: 2,
+      nextPollAt: null,
+    });
+  });
+
+  it("keeps polling until every message is attested", async function () {
+    const txHash = txHashOf(2);
+    await script(txHash, [
+      { respond: "complete", messages: 1, times: 1 },
+      { respond: "complete" },
+    ]);
+    store.createRequest(relayRequest({ txHash, sourceDomain: SOURCE_DOMAIN }));
+
+    await pollDue();
+
+    const [first] = store.getJobsForRequest(SOURCE_DOMAIN, txHash);
+    expect(store.getJobsForRequest(SOURCE_DOMAIN, txHash)).to.have.length(1);
+    expect(first.messageIndex).to.equal(0);
+    const polling = store.getRequest(SOURCE_DOMAIN, txHash)!;
+    expect(polling).to.include({ status: "polling", messageCount: 2, pollAttempts: 1 });
+    expect(polling.nextPollAt).to.not.equal(null);
+
+    due(txHash);
+    await pollDue();
+
+    const jobs = store.getJobsForRequest(SOURCE_DOMAIN, txHash);
+    expect(jobs.map((j) => j.messageIndex)).to.deep.equal([0, 1]);
+    // The job of the first poll is kept as it was
+    expect(jobs[0]).to.deep.equal(first);
+    expect(store.getRequest(SOURCE_DOMAIN, txHash)).to.include({
+      status: "attested",
+      pollAttempts: 2,
+    });
+  });
+
+  it("replaces only the failed jobs of an older attempt", async function () {
+    const txHash = txHashOf(3);
+    await script(txHash, [{ respond: "complete" }]);
+    store.createRequest(relayRequest({ txHash, sourceDomain: SOURCE_DOMAIN }));
+    await pollDue();
+
+    const [failed, confirmed] = store.getJobsForRequest(SOURCE_DOMAIN, txHash);
+    store.updateJob(failed.transferId, { status: "failed", error: "Tx reverted" });
+    store.updateJob(confirmed.transferId, { status: "confirmed", outcome: "forwarded" });
+    expect(store.resubmitRequest(SOURCE_DOMAIN, txHash).attempt).to.equal(2);
+
+    due(txHash);
+    await pollDue();
+
+    const jobs = store.getJobsForRequest(SOURCE_DOMAIN, txHash);
+    expect(jobs.map((j) => [j.messageIndex, j.attempt, j.status])).to.deep.equal([
+      [0, 2, "attested"],
+      [1, 1, "confirmed"],
+    ]);
+    expect(jobs[0].error).to.equal(null);
+    expect(store.getRequest(SOURCE_DOMAIN, txHash)).to.include({
+      status: "attested",
+      attempt: 2,
+    });
+  });
+});
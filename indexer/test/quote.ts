@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import type { Config } from "../src/config.js";
+import { createQuoter, parseQuoteQuery } from "../src/quote.js";
+import { createStore } from "../src/store.js";
+import { fakeRpc, type FakeRpc } from "./helpers/rpc.js";
+
+describe("quote", function () {
+  describe("parseQuoteQuery", function () {
+    it("reads the domain and amounts", function () {
+      expect(
+        parseQuoteQuery({ sourceDomain: "6", amount: "10000000", maxFee: "500" }),
+      ).to.deep.equal({ sourceDomain: 6, amount: 10_000_000n, maxFee: 500n });
+    });
+
+    it("defaults maxFee to zero", function () {
+      expect(parseQuoteQuery({ sourceDomain: "3", amount: "1" })).to.deep.include({
+        maxFee: 0n,
+      });
+    });
+
+    it("rejects unknown source domains", function () {
+      expect(parseQuoteQuery({ sourceDomain: "0", amount: "1" })).to.equal(
+        "Invalid sourceDomain",
+      );
+      expect(parseQuoteQuery({ amount: "1" })).to.equal("Invalid sourceDomain");
+    });
+
+    for (const amount of [undefined, "", "1.5", "-1", "1e6", "1".repeat(19)]) {
+      it(`rejects amount=${amount}`, function () {
+        expect(parseQuoteQuery({ sourceDomain: "3", amount })).to.equal("Invalid amount");
+      });
+    }
+
+    it("rejects a malformed or repeated maxFee", function () {
+      expect(parseQuoteQuery({ sourceDomain: "3", amount: "1", maxFee: "0x10" })).to.equal(
+        "Invalid maxFee",
+      );
+      expect(
+        parseQuoteQuery({ sourceDomain: "3", amount: "1", maxFee: ["1", "2"] }),
+      ).to.equal("Invalid maxFee");
+    });
+  });
+
+  describe("createQuoter", function () {
+    let rpc: FakeRpc;
+    let gasPrice: string | null;
+    let gasPriceCalls: number;
+
+    before(async function () {
+      rpc = await fakeRpc((method) => {
+        if (method !== "eth_gasPrice") throw new Error(`unexpected ${method}`);
+        gasPriceCalls++;
+        return gasPrice;
+      });
+    });
+
+    after(function () {
+      rpc.close();
+    });
+
+    beforeEach(function () {
+      gasPrice = "0x3b9aca00"; // 1 gwei
+      gasPriceCalls = 0;
+    });
+
+    const quoterFor = (ethereumRpcUrl: string) =>
+      createQuoter(
+        {
+          ethereumRpcUrl,
+          healthCheckTimeoutMs: 1000,
+          relayFee: 50_000n,
+          quoteGasLimit: 350_000n,
+          quoteValidityMs: 300_000,
+        } as Config,
+        createStore(":memory:"),
+      );
+
+    it("prices the gas once per block", async function () {
+      const quote = quoterFor(rpc.url);
+      const first = await quote(3, 1_000_000n, 100n, null);
+      expect(first).to.include({
+        forwardAmount: "949900",
+        gasPrice: "1000000000",
+        gasCost: "350000000000000",
+      });
+      await quote(3, 1_000_000n, 100n, null);
+      expect(gasPriceCalls).to.equal(1);
+    });
+
+    it("throws when the RPC gives no gas price", async function () {
+      gasPrice = null;
+      for (const quote of [quoterFor(rpc.url), quoterFor(`${rpc.url}/missing`)]) {
+        let error: unknown;
+        try {
+          await quote(3, 1_000_000n, 100n, null);
+        } catch (err) {
+          error = err;
+        }
+        expect(error).to.be.an("error");
+      }
+    });
+  });
+});
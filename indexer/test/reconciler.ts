@@ -0,0 +1,225 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { MESSAGE_RECEIVED_TOPIC0, ROUTER_ABI } from "../src/abis.js";
+import { loadConfig, type Config } from "../src/config.js";
+import { createReconciler } from "../src/reconciler.js";
+import { createStore, type Store } from "../src/store.js";
+import { burnMessage, NONCE, ROUTER, SOURCE_DOMAIN } from "./helpers/messages.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+import { fakeRpc, rpcPendingTransaction, rpcReceipt, type FakeRpc } from "./helpers/rpc.js";
+
+const TRANSMITTER = "0x2222222222222222222222222222222222222222";
+const OUR_TX = txHashOf(500);
+const OTHER_TX = txHashOf(501);
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+// Relayed event of the router forwarding 9.5 USDC for a 0.5 USDC fee
+function relayedLog() {
+  return {
+    address: ROUTER,
+    ...routerInterface.encodeEventLog("Relayed", [
+      SOURCE_DOMAIN,
+      ethers.ZeroHash,
+      NONCE,
+      9_500_000n,
+      500_000n,
+    ]),
+  };
+}
+
+describe("reconciler", function () {
+  let rpc: FakeRpc;
+  let config: Config;
+  let store: Store;
+  let sweep: (minAgeMs: number) => Promise<void>;
+
+  // State of the fake Ethereum chain
+  let receipts: Map<string, unknown>;
+  let mempool: Map<string, unknown>;
+  let settled: boolean;
+  let walletNonce: number;
+  let transmitterLogs: ReturnType<typeof rpcReceipt>["logs"];
+
+  before(async function () {
+    rpc = await fakeRpc((method, params) => {
+      switch (method) {
+        case "eth_getTransactionReceipt":
+          return receipts.get(params[0] as string);
+        case "eth_getTransactionByHash":
+          return mempool.get(params[0] as string);
+        case "eth_call":
+          return ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [settled]);
+        case "eth_getTransactionCount":
+          return ethers.toQuantity(walletNonce);
+        case "eth_blockNumber":
+          return "0x100";
+        case "eth_getLogs": {
+          const [filter] = params as { address: string }[];
+          return filter.address.toLowerCase() === TRANSMITTER ? transmitterLogs : [];
+        }
+      }
+    });
+
+    const saved = process.env;
+    process.env = {
+      ROUTER_ADDRESS: ROUTER,
+      ETHEREUM_RPC_URL: rpc.url,
+      RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+      TRANSMITTER_ADDRESS: TRANSMITTER,
+      MAX_RETRIES: "3",
+    };
+    config = loadConfig();
+    process.env = saved;
+  });
+
+  after(function () {
+    rpc.close();
+  });
+
+  beforeEach(function () {
+    receipts = new Map();
+    mempool = new Map();
+    settled = false;
+    walletNonce = 7;
+    transmitterLogs = [];
+
+    store = createStore(":memory:");
+    sweep = createReconciler(config, store);
+    store.createRequest(relayRequest({ status: "attested" }));
+    store.upsertJob(
+      relayJob({
+        attestedMessage: burnMessage(),
+        attestation: "0x",
+        status: "submitted",
+        ethTxHash: OUR_TX,
+        ethTxNonce: 7,
+        submittedAt: new Date().toISOString(),
+      }),
+    );
+  });
+
+  const job = () => store.getJob(relayJob().transferId)!;
+
+  it("confirms a job whose tx was mined", async function () {
+    receipts.set(OUR_TX, rpcReceipt(OUR_TX, [relayedLog()], { blockNumber: 200 }));
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "confirmed",
+      outcome: "forwarded",
+      settledAmount: "9500000",
+      settledRelayFee: "500000",
+      ethTxHash: OUR_TX,
+      ethBlockNumber: 200,
+      error: null,
+    });
+    expect(store.getGasSpend(null).transactions).to.equal(1);
+  });
+
+  it("leaves a job alone while its tx is in the mempool", async function () {
+    mempool.set(OUR_TX, rpcPendingTransaction(OUR_TX, 7));
+    const before = job();
+
+    await sweep(0);
+
+    expect(job()).to.deep.equal(before);
+  });
+
+  it("skips jobs younger than the minimum age", async function () {
+    receipts.set(OUR_TX, rpcReceipt(OUR_TX, [relayedLog()]));
+
+    await sweep(60_000);
+
+    expect(job().status).to.equal("submitted");
+  });
+
+  it("requeues a job whose tx reverted", async function () {
+    receipts.set(OUR_TX, rpcReceipt(OUR_TX, [], { status: 0 }));
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "attested",
+      error: `Tx reverted: ${OUR_TX}`,
+      retryCount: 1,
+      ethTxHash: null,
+      ethTxNonce: null,
+      submittedAt: null,
+    });
+    expect(store.getGasSpend(null).reverted).to.equal(1);
+  });
+
+  it("records the settlement of another tx when the router says settled", async function () {
+    receipts.set(OUR_TX, rpcReceipt(OUR_TX, [], { status: 0 }));
+    receipts.set(OTHER_TX, rpcReceipt(OTHER_TX, [relayedLog()], { blockNumber: 201 }));
+    transmitterLogs = rpcReceipt(OTHER_TX, [
+      {
+        address: TRANSMITTER,
+        topics: [MESSAGE_RECEIVED_TOPIC0, ethers.zeroPadValue(ROUTER, 32), NONCE],
+        data: "0x",
+      },
+    ]).logs;
+    settled = true;
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "confirmed",
+      outcome: "forwarded",
+      settledAmount: "9500000",
+      ethTxHash: OTHER_TX,
+      ethBlockNumber: 201,
+      error: null,
+    });
+  });
+
+  it("confirms without details when the settling tx is not found", async function () {
+    settled = true;
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "confirmed",
+      outcome: null,
+      ethTxHash: OUR_TX,
+      error: "settled by an unknown transaction",
+    });
+  });
+
+  it("requeues a replaced tx once the wallet nonce moved past it", async function () {
+    walletNonce = 8;
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "attested",
+      error: `Tx replaced: ${OUR_TX}`,
+      retryCount: 1,
+    });
+  });
+
+  it("requeues a dropped tx while the wallet nonce is still free", async function () {
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "attested",
+      error: `Tx dropped: ${OUR_TX}`,
+      retryCount: 1,
+    });
+  });
+
+  it("fails a job once it used maxRetries", async function () {
+    store.updateJob(relayJob().transferId, { retryCount: 2 });
+    receipts.set(OUR_TX, rpcReceipt(OUR_TX, [], { status: 0 }));
+
+    await sweep(0);
+
+    expect(job()).to.include({
+      status: "failed",
+      error: `Tx reverted: ${OUR_TX}`,
+      retryCount: 3,
+    });
+  });
+});
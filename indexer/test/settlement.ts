@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  MESSAGE_RECEIVED_TOPIC0,
+  RECOVERED_FROM_CONSUMED_NONCE_TOPIC0,
+  ROUTER_ABI,
+} from "../src/abis.js";
+import type { Config } from "../src/config.js";
+import { findSettlement, parseOutcome } from "../src/settlement.js";
+import { burnMessage, NONCE, ROUTER, SOURCE_DOMAIN } from "./helpers/messages.js";
+import { relayJob, txHashOf } from "./helpers/records.js";
+import { fakeRpc, rpcReceipt, type FakeRpc } from "./helpers/rpc.js";
+
+const TRANSMITTER = "0x2222222222222222222222222222222222222222";
+const FALLBACK = "0x3333333333333333333333333333333333333333";
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+const config = {
+  routerAddress: ROUTER,
+  transmitterAddress: TRANSMITTER,
+  reconcileLookbackBlocks: 1000,
+} as Config;
+
+type Log = { address: string; topics: string[]; data: string };
+
+function routerLog(event: string, args: unknown[], address = ROUTER): Log {
+  return { address, ...routerInterface.encodeEventLog(event, args) };
+}
+
+// parseOutcome only reads the logs of a receipt
+function receiptWith(logs: Log[]): ethers.TransactionReceipt {
+  return { logs } as unknown as ethers.TransactionReceipt;
+}
+
+describe("settlement", function () {
+  describe("parseOutcome", function () {
+    it("reads a forward from Relayed", function () {
+      const receipt = receiptWith([
+        routerLog("Relayed", [SOURCE_DOMAIN, ethers.ZeroHash, NONCE, 9_500_000n, 500_000n]),
+      ]);
+      expect(parseOutcome(config, receipt)).to.deep.equal({
+        outcome: "forwarded",
+        recovered: false,
+        settledAmount: "9500000",
+        settledRelayFee: "500000",
+        operatorRouteReason: null,
+      });
+    });
+
+    it("reads a fallback from FallbackTriggered", function () {
+      const receipt = receiptWith([
+        routerLog("FallbackTriggered", [FALLBACK, 9_500_000n, 500_000n]),
+      ]);
+      expect(parseOutcome(config, receipt)).to.include({
+        outcome: "fallback",
+        settledAmount: "9500000",
+        settledRelayFee: "500000",
+      });
+    });
+
+    it("reads the reason of an operator route", function () {
+      const receipt = receiptWith([
+        routerLog("OperatorRouted", [relayJob().transferId, NONCE, 10_000_000n, 2]),
+      ]);
+      expect(parseOutcome(config, receipt)).to.deep.equal({
+        outcome: "operator_routed",
+        recovered: false,
+        settledAmount: "10000000",
+        settledRelayFee: "0",
+        operatorRouteReason: 2,
+      });
+    });
+
+    it("flags the consumed-nonce recovery", function () {
+      const receipt = receiptWith([
+        routerLog("RecoveredFromConsumedNonce", [NONCE, 10_000_000n]),
+        routerLog("Relayed", [SOURCE_DOMAIN, ethers.ZeroHash, NONCE, 9_500_000n, 500_000n]),
+      ]);
+      expect(parseOutcome(config, receipt)).to.include({
+        outcome: "forwarded",
+        recovered: true,
+      });
+    });
+
+    it("ignores router events emitted by other contracts", function () {
+      const receipt = receiptWith([
+        routerLog(
+          "Relayed",
+          [SOURCE_DOMAIN, ethers.ZeroHash, NONCE, 9_500_000n, 500_000n],
+          "0x" + "99".repeat(20),
+        ),
+      ]);
+      expect(parseOutcome(config, receipt)).to.deep.equal({
+        outcome: null,
+        recovered: false,
+        settledAmount: null,
+        settledRelayFee: null,
+        operatorRouteReason: null,
+      });
+    });
+  });
+
+  describe("findSettlement", function () {
+    let rpc: FakeRpc;
+    let provider: ethers.JsonRpcProvider;
+    let receipts: Map<string, unknown>;
+    let logs: Map<string, ReturnType<typeof rpcReceipt>["logs"]>;
+    let filters: { address: string; fromBlock: string; topics: unknown[] }[];
+
+    before(async function () {
+      rpc = await fakeRpc((method, params) => {
+        switch (method) {
+          case "eth_blockNumber":
+            return "0x1388"; // 5000
+          case "eth_getTransactionReceipt":
+            return receipts.get(params[0] as string);
+          case "eth_getLogs": {
+            const filter = params[0] as (typeof filters)[number];
+            filters.push(filter);
+            return logs.get(filter.address.toLowerCase()) ?? [];
+          }
+        }
+      });
+    });
+
+    after(function () {
+      rpc.close();
+    });
+
+    beforeEach(function () {
+      receipts = new Map();
+      logs = new Map();
+      filters = [];
+      provider = new ethers.JsonRpcProvider(rpc.url, 1, { staticNetwork: true });
+    });
+
+    afterEach(function () {
+      provider.destroy();
+    });
+
+    const job = relayJob({ attestedMessage: burnMessage() });
+
+    // A MessageReceived log of the transmitter for the job's nonce
+    function messageReceived(txHash: string) {
+      return rpcReceipt(txHash, [
+        {
+          address: TRANSMITTER,
+          topics: [MESSAGE_RECEIVED_TOPIC0, ethers.zeroPadValue(ROUTER, 32), NONCE],
+          data: "0x",
+        },
+      ]).logs;
+    }
+
+    it("returns null without an attested message", async function () {
+      expect(await findSettlement(config, provider, relayJob())).to.equal(null);
+      expect(filters).to.deep.equal([]);
+    });
+
+    it("finds the tx that consumed the nonce through the transmitter", async function () {
+      const settling = txHashOf(600);
+      logs.set(TRANSMITTER, messageReceived(settling));
+      receipts.set(
+        settling,
+        rpcReceipt(
+          settling,
+          [routerLog("Relayed", [SOURCE_DOMAIN, ethers.ZeroHash, NONCE, 9_500_000n, 500_000n])],
+          { blockNumber: 4900 },
+        ),
+      );
+
+      expect(await findSettlement(config, provider, job)).to.deep.equal({
+        outcome: "forwarded",
+        recovered: false,
+        settledAmount: "9500000",
+        settledRelayFee: "500000",
+        operatorRouteReason: null,
+        ethTxHash: settling,
+        ethBlockNumber: 4900,
+      });
+      // Only the lookback window is searched, by nonce
+      expect(filters.map((f) => [f.address.toLowerCase(), f.fromBlock])).to.deep.equal([
+        [TRANSMITTER, "0xfa0"],
+        [ROUTER, "0xfa0"],
+      ]);
+      expect(filters[0].topics).to.deep.equal([MESSAGE_RECEIVED_TOPIC0, null, NONCE]);
+      expect(filters[1].topics).to.deep.equal([RECOVERED_FROM_CONSUMED_NONCE_TOPIC0, NONCE]);
+    });
+
+    it("finds the tx that recovered the nonce on the router", async function () {
+      const settling = txHashOf(601);
+      const recovery = [
+        routerLog("RecoveredFromConsumedNonce", [NONCE, 10_000_000n]),
+        routerLog("FallbackTriggered", [FALLBACK, 9_500_000n, 500_000n]),
+      ];
+      logs.set(ROUTER, rpcReceipt(settling, recovery.slice(0, 1)).logs);
+      receipts.set(settling, rpcReceipt(settling, recovery));
+
+      expect(await findSettlement(config, provider, job)).to.include({
+        outcome: "fallback",
+        recovered: true,
+        ethTxHash: settling,
+      });
+    });
+
+    it("skips reverted txs and txs without an outcome", async function () {
+      const reverted = txHashOf(602);
+      const unrelated = txHashOf(603);
+      logs.set(TRANSMITTER, [...messageReceived(reverted), ...messageReceived(unrelated)]);
+      receipts.set(reverted, rpcReceipt(reverted, [], { status: 0 }));
+      receipts.set(unrelated, rpcReceipt(unrelated, []));
+
+      expect(await findSettlement(config, provider, job)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { ROUTER_ABI } from "../src/abis.js";
+import type { Config } from "../src/config.js";
+import { createSimulator, isRpcError } from "../src/simulate.js";
+import { burnMessage, NONCE, ROUTER, SOURCE_DOMAIN } from "./helpers/messages.js";
+import { relayJob } from "./helpers/records.js";
+import { fakeRpc, RpcRevert, type FakeRpc } from "./helpers/rpc.js";
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+type Log = { address: string; topics: string[]; data: string };
+
+function routerLog(event: string, args: unknown[], address = ROUTER): Log {
+  return { address, ...routerInterface.encodeEventLog(event, args) };
+}
+
+const RELAYED = () =>
+  routerLog("Relayed", [SOURCE_DOMAIN, ethers.ZeroHash, NONCE, 9_500_000n, 500_000n]);
+
+// Revert data of Panic(code)
+function panicData(code: number): string {
+  return ethers.concat([
+    ethers.id("Panic(uint256)").slice(0, 10),
+    ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [code]),
+  ]);
+}
+
+describe("simulate", function () {
+  describe("isRpcError", function () {
+    it("tells RPC failures from reverts", function () {
+      for (const code of ["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT", "BAD_DATA"] as const) {
+        expect(isRpcError(ethers.makeError("failed", code))).to.equal(true);
+      }
+      expect(isRpcError(ethers.makeError("reverted", "CALL_EXCEPTION"))).to.equal(false);
+      expect(isRpcError(new Error("bug"))).to.equal(false);
+    });
+  });
+
+  describe("createSimulator", function () {
+    let rpc: FakeRpc;
+    let simulate: ReturnType<typeof createSimulator>;
+
+    // Answers of the fake Ethereum RPC; a null simulated call means the
+    // RPC does not support eth_simulateV1
+    let simulatedCall: Record<string, unknown> | null;
+    let callRevert: string | null;
+    let estimateFails: boolean;
+
+    before(async function () {
+      rpc = await fakeRpc((method) => {
+        switch (method) {
+          case "eth_simulateV1":
+            if (!simulatedCall) throw new Error("the method eth_simulateV1 does not exist");
+            return [{ calls: [simulatedCall] }];
+          case "eth_call":
+            if (callRevert) throw new RpcRevert(callRevert);
+            return "0x";
+          case "eth_estimateGas":
+            if (estimateFails) throw new RpcRevert("out of gas");
+            return "0x30d40";
+        }
+      });
+      simulate = createSimulator({
+        ethereumRpcUrl: rpc.url,
+        routerAddress: ROUTER,
+        relayerPrivateKey: "0x" + "11".repeat(32),
+      } as Config);
+    });
+
+    after(function () {
+      rpc.close();
+    });
+
+    beforeEach(function () {
+      simulatedCall = null;
+      callRevert = null;
+      estimateFails = false;
+    });
+
+    // ethers reuses the answer to an identical call for 250ms: a new
+    // relay fee per run keeps each call distinct
+    let relayFee = 500_000n;
+    const run = () => simulate(burnMessage(), "0x", relayFee++);
+
+    it("reads the outcome and events from eth_simulateV1", async function () {
+      simulatedCall = {
+        status: "0x1",
+        gasUsed: "0x249f0",
+        logs: [
+          // Not the router's: left out
+          routerLog("Relayed", [1, ethers.ZeroHash, NONCE, 1n, 1n], "0x" + "99".repeat(20)),
+          RELAYED(),
+        ],
+      };
+
+      expect(await run()).to.deep.equal({
+        outcome: "forwarded",
+        revertReason: null,
+        operatorRouteReason: null,
+        recovered: false,
+        events: [
+          {
+            name: "Relayed",
+            args: {
+              sourceDomain: String(SOURCE_DOMAIN),
+              sourceSender: ethers.ZeroHash,
+              nonce: NONCE,
+              amount: "9500000",
+              relayFee: "500000",
+            },
+          },
+        ],
+        estimatedGas: "200000",
+        method: "eth_simulateV1",
+      });
+    });
+
+    it("reads an operator route and the consumed-nonce recovery", async function () {
+      simulatedCall = {
+        status: "0x1",
+        gasUsed: "0x249f0",
+        logs: [
+          routerLog("RecoveredFromConsumedNonce", [NONCE, 10_000_000n]),
+          routerLog("OperatorRouted", [relayJob().transferId, NONCE, 10_000_000n, 2]),
+        ],
+      };
+
+      expect(await run()).to.include({
+        outcome: "operator_routed",
+        operatorRouteReason: 2,
+        recovered: true,
+      });
+    });
+
+    it("falls back to the simulated gas when estimation fails", async function () {
+      simulatedCall = { status: "0x1", gasUsed: "0x249f0", logs: [RELAYED()] };
+      estimateFails = true;
+
+      expect((await run()).estimatedGas).to.equal("150000");
+    });
+
+    it("decodes Error(string) and Panic reverts", async function () {
+      for (const [data, reason] of [
+        [new RpcRevert("relay fee too high").data, "relay fee too high"],
+        [panicData(0x11), "panic 17"],
+        ["0xdeadbeef", "0xdeadbeef"],
+      ]) {
+        simulatedCall = {
+          status: "0x0",
+          gasUsed: "0x5208",
+          error: { message: "execution reverted", data },
+        };
+        expect(await run()).to.deep.equal({
+          outcome: "reverted",
+          revertReason: reason,
+          operatorRouteReason: null,
+          recovered: false,
+          events: [],
+          estimatedGas: null,
+          method: "eth_simulateV1",
+        });
+      }
+    });
+
+    it("uses the error message of a revert without data", async function () {
+      simulatedCall = { status: "0x0", gasUsed: "0x5208", error: { message: "out of gas" } };
+
+      expect((await run()).revertReason).to.equal("out of gas");
+    });
+
+    it("falls back to eth_call without eth_simulateV1", async function () {
+      expect(await run()).to.deep.equal({
+        outcome: null,
+        revertReason: null,
+        operatorRouteReason: null,
+        recovered: false,
+        events: [],
+        estimatedGas: "200000",
+        method: "eth_call",
+      });
+    });
+
+    it("reports an eth_call revert with its reason", async function () {
+      callRevert = "transfer settled";
+
+      expect(await run()).to.include({
+        outcome: "reverted",
+        revertReason: "transfer settled",
+        estimatedGas: null,
+        method: "eth_call",
+      });
+    });
+  });
+});
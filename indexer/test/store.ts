@@ -0,0 +1,303 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { computeTransferId } from "../src/cctp.js";
+import { encodeForwardParams } from "../src/hookdata.js";
+import { createStore, migrate, type Store } from "../src/store.js";
+import {
+  burnMessage,
+  FORWARD_PARAMS,
+  NONCE,
+  SOURCE_DOMAIN,
+} from "./helpers/messages.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+
+describe("store", function () {
+  let store: Store;
+
+  beforeEach(function () {
+    store = createStore(":memory:");
+  });
+
+  describe("gas spend", function () {
+    // 2^53 wei is about 0.009 ETH: sums past it must stay exact
+    const GAS_PRICE = "9007199254740993"; // 2^53 + 1
+
+    beforeEach(function () {
+      store.createRequest(relayRequest({ status: "attested" }));
+      store.upsertJob(relayJob());
+      const { transferId } = relayJob();
+      store.updateJob(transferId, {
+        status: "confirmed",
+        outcome: "forwarded",
+        ethTxHash: txHashOf(101),
+        confirmedAt: "2026-10-02T00:00:00.000Z",
+      });
+      store.recordTransaction({
+        ethTxHash: txHashOf(100),
+        transferId,
+        status: "reverted",
+        gasUsed: "21001",
+        gasPrice: GAS_PRICE,
+        blockNumber: 1,
+        recordedAt: "2026-10-01T12:00:00.000Z",
+      });
+      store.recordTransaction({
+        ethTxHash: txHashOf(101),
+        transferId,
+        status: "success",
+        gasUsed: "150003",
+        gasPrice: GAS_PRICE,
+        blockNumber: 2,
+        recordedAt: "2026-10-02T00:00:00.000Z",
+      });
+    });
+
+    it("sums cost in wei without losing precision", function () {
+      expect(store.getGasSpend(null)).to.deep.equal({
+        transactions: 2,
+        reverted: 1,
+        gasUsed: "171004",
+        costWei: (171004n * BigInt(GAS_PRICE)).toString(),
+      });
+    });
+
+    it("counts transactions recorded since a time", function () {
+      expect(store.getGasSpend("2026-10-02T00:00:00.000Z")).to.deep.equal({
+        transactions: 1,
+        reverted: 0,
+        gasUsed: "150003",
+        costWei: (150003n * BigInt(GAS_PRICE)).toString(),
+      });
+    });
+
+    it("gives each settled relay the exact cost of its transactions", function () {
+      const [settled] = store.getSettledRelays({}, 10);
+      expect(settled.gasCostWei).to.equal((171004n * BigInt(GAS_PRICE)).toString());
+    });
+
+    it("leaves gas cost null for relays without recorded transactions", function () {
+      const other = relayJob({
+        txHash: txHashOf(2),
+        nonce: txHashOf(43),
+      });
+      store.createRequest(relayRequest({ txHash: txHashOf(2) }));
+      store.upsertJob(other);
+      store.updateJob(other.transferId, {
+        status: "confirmed",
+        confirmedAt: "2026-10-03T00:00:00.000Z",
+      });
+
+      const settled = store.getSettledRelays({ from: "2026-10-03T00:00:00.000Z" }, 10);
+      expect(settled).to.have.length(1);
+      expect(settled[0].gasCostWei).to.equal(null);
+    });
+  });
+
+  describe("getDueRequests", function () {
+    const NOW = "2026-10-01T01:00:00.000Z";
+
+    // txHashOf(n) due at minute n, on domain 3 unless overridden
+    function due(n: number, overrides: Parameters<typeof relayRequest>[0] = {}) {
+      store.createRequest(
+        relayRequest({
+          txHash: txHashOf(n),
+          nextPollAt: `2026-10-01T00:${String(n).padStart(2, "0")}:00.000Z`,
+          ...overrides,
+        }),
+      );
+    }
+
+    function dueHashes(limit: number, excludeDomains?: number[]): string[] {
+      return store.getDueRequests(NOW, limit, excludeDomains).map((r) => r.txHash);
+    }
+
+    it("takes turns across integrators before a busy one's backlog", function () {
+      due(1, { integratorId: "busy" });
+      due(2, { integratorId: "busy" });
+      due(3, { integratorId: "busy" });
+      due(4, { integratorId: "quiet" });
+      due(5);
+
+      expect(dueHashes(3)).to.have.members([txHashOf(1), txHashOf(4), txHashOf(5)]);
+    });
+
+    it("takes turns across source domains", function () {
+      due(1);
+      due(2);
+      due(3, { sourceDomain: 6 });
+
+      expect(dueHashes(2)).to.have.members([txHashOf(1), txHashOf(3)]);
+    });
+
+    it("polls never-polled requests first", function () {
+      due(1, { status: "polling", pollAttempts: 4 });
+      due(2);
+
+      expect(dueHashes(1)).to.deep.equal([txHashOf(2)]);
+    });
+
+    it("skips requests not yet due, finished, or on excluded domains", function () {
+      due(1, { nextPollAt: "2026-10-01T02:00:00.000Z" });
+      due(2, { status: "attested", nextPollAt: null });
+      due(3, { sourceDomain: 6 });
+      due(4);
+
+      expect(dueHashes(10, [6])).to.deep.equal([txHashOf(4)]);
+    });
+  });
+
+  describe("timeline", function () {
+    const T1 = "2026-10-01T00:01:00.000Z";
+    const T2 = "2026-10-01T00:02:00.000Z";
+
+    beforeEach(function () {
+      store.createRequest(relayRequest());
+    });
+
+    function events() {
+      return store.getJobEvents(3, txHashOf(1));
+    }
+
+    it("records the request on creation", function () {
+      expect(events().map((e) => e.status)).to.deep.equal(["pending"]);
+    });
+
+    it("records each answered poll with the next poll time", function () {
+      store.updateRequest(3, txHashOf(1), {
+        status: "polling",
+        pollAttempts: 1,
+        nextPollAt: T1,
+      });
+      store.updateRequest(3, txHashOf(1), { pollAttempts: 2, nextPollAt: T2 });
+
+      expect(
+        events()
+          .slice(1)
+          .map(({ status, pollAttempts, nextPollAt }) => ({
+            status,
+            pollAttempts,
+            nextPollAt,
+          })),
+      ).to.deep.equal([
+        { status: "polling", pollAttempts: 1, nextPollAt: T1 },
+        { status: "polling", pollAttempts: 2, nextPollAt: T2 },
+      ]);
+    });
+
+    it("does not record a reschedule alone", function () {
+      store.updateRequest(3, txHashOf(1), { nextPollAt: T2 });
+      expect(events()).to.have.length(1);
+    });
+
+    it("records job transitions with their transferId", function () {
+      const job = relayJob();
+      store.upsertJob(job);
+      store.updateJob(job.transferId, {
+        status: "submitted",
+        ethTxHash: txHashOf(100),
+      });
+
+      const jobEvents = events().filter((e) => e.transferId !== null);
+      expect(jobEvents.map((e) => [e.transferId, e.status, e.ethTxHash])).to.deep.equal([
+        [job.transferId, "attested", null],
+        [job.transferId, "submitted", txHashOf(100)],
+      ]);
+    });
+  });
+
+  describe("migrations", function () {
+    let dir: string;
+    let dbPath: string;
+
+    beforeEach(function () {
+      dir = mkdtempSync(path.join(tmpdir(), "indexer-store-"));
+      dbPath = path.join(dir, "relay.db");
+    });
+
+    afterEach(function () {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    // A relay_jobs row as schema version 2 kept it, one per source tx
+    function insertV2Job(
+      db: Database.Database,
+      txHash: string,
+      status: string,
+      attestedMessage: string | null,
+    ): void {
+      db.prepare(
+        `INSERT INTO relay_jobs (
+          tx_hash, source_domain, attempt, attested_message, attestation,
+          iris_nonce, status, poll_attempts, created_at, attested_at, updated_at
+        ) VALUES (?, ?, 1, ?, ?, ?, ?, 3, ?, ?, ?)`,
+      ).run(
+        txHash,
+        SOURCE_DOMAIN,
+        attestedMessage,
+        attestedMessage ? "0x1234" : null,
+        attestedMessage ? NONCE : null,
+        status,
+        "2026-01-01T00:00:00.000Z",
+        attestedMessage ? "2026-01-01T00:01:00.000Z" : null,
+        "2026-01-01T00:01:00.000Z",
+      );
+    }
+
+    it("splits old jobs into requests and jobs keyed by transferId", function () {
+      const db = new Database(dbPath);
+      migrate(db, 2);
+      insertV2Job(db, txHashOf(1), "attested", burnMessage());
+      insertV2Job(db, txHashOf(2), "polling", null);
+      migrate(db);
+      db.close();
+
+      store = createStore(dbPath);
+      const transferId = computeTransferId(SOURCE_DOMAIN, NONCE);
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(1))).to.include({
+        status: "attested",
+        messageCount: 1,
+      });
+      expect(store.getJobsForRequest(SOURCE_DOMAIN, txHashOf(1)).map((j) => j.transferId))
+        .to.deep.equal([transferId]);
+
+      expect(store.getRequest(SOURCE_DOMAIN, txHashOf(2))).to.include({
+        status: "polling",
+        messageCount: 0,
+      });
+      expect(store.getJobsForRequest(SOURCE_DOMAIN, txHashOf(2))).to.be.empty;
+    });
+
+    it("backfills lookup keys from the attested messages", function () {
+      const dirty = ethers.getBytes(encodeForwardParams(FORWARD_PARAMS));
+      dirty[32] = 1; // fallbackRecipient high-order bits
+      const undecodable = burnMessage({
+        nonce: txHashOf(43),
+        burn: { hookData: ethers.hexlify(dirty) },
+      });
+
+      const db = new Database(dbPath);
+      migrate(db, 2);
+      insertV2Job(db, txHashOf(1), "attested", burnMessage());
+      insertV2Job(db, txHashOf(2), "attested", undecodable);
+      migrate(db);
+      db.close();
+
+      store = createStore(dbPath);
+      expect(store.getJob(computeTransferId(SOURCE_DOMAIN, NONCE))).to.include({
+        nonce: NONCE,
+        messageSender: "0x5555555555555555555555555555555555555555",
+        fallbackRecipient: FORWARD_PARAMS.fallbackRecipient,
+        remoteRecipient: FORWARD_PARAMS.remoteRecipient,
+      });
+      expect(store.getJob(computeTransferId(SOURCE_DOMAIN, txHashOf(43)))).to.include({
+        nonce: txHashOf(43),
+        fallbackRecipient: null,
+        remoteRecipient: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { MESSAGE_RECEIVED_TOPIC0, ROUTER_ABI } from "../src/abis.js";
+import { loadConfig, type Config } from "../src/config.js";
+import { createStore, type Store } from "../src/store.js";
+import { createSubmitter } from "../src/submitter.js";
+import { burnMessage, NONCE, ROUTER, SOURCE_DOMAIN } from "./helpers/messages.js";
+import { relayJob, relayRequest, txHashOf } from "./helpers/records.js";
+import { fakeRpc, rpcBlock, rpcReceipt, RpcRevert, type FakeRpc } from "./helpers/rpc.js";
+
+const TRANSMITTER = "0x2222222222222222222222222222222222222222";
+const OTHER_TX = txHashOf(700);
+
+const routerInterface = new ethers.Interface(ROUTER_ABI);
+
+describe("submitter", function () {
+  let rpc: FakeRpc;
+  let config: Config;
+  let store: Store;
+  let submitNext: () => Promise<boolean>;
+
+  // State of the fake Ethereum chain
+  let settled: boolean;
+  let revertReason: string | null;
+  let receiptStatus: number;
+  let transmitterLogs: ReturnType<typeof rpcReceipt>["logs"];
+  let receipts: Map<string, unknown>;
+  let sent: string[];
+
+  before(async function () {
+    rpc = await fakeRpc((method, params) => {
+      switch (method) {
+        case "eth_call":
+          return ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [settled]);
+        case "eth_estimateGas":
+          if (revertReason) throw new RpcRevert(revertReason);
+          return "0x30d40";
+        case "eth_getTransactionCount":
+          return "0x7";
+        case "eth_gasPrice":
+        case "eth_maxPriorityFeePerGas":
+          return "0x3b9aca00";
+        case "eth_getBlockByNumber":
+          return rpcBlock(0x100);
+        case "eth_blockNumber":
+          return "0x100";
+        case "eth_sendRawTransaction": {
+          const hash = ethers.keccak256(params[0] as string);
+          sent.push(hash);
+          receipts.set(hash, rpcReceipt(hash, [], { status: receiptStatus }));
+          return hash;
+        }
+        case "eth_getTransactionReceipt":
+          return receipts.get(params[0] as string);
+        case "eth_getLogs": {
+          const [filter] = params as { address: string }[];
+          return filter.address.toLowerCase() === TRANSMITTER ? transmitterLogs : [];
+        }
+      }
+    });
+
+    const saved = process.env;
+    process.env = {
+      ROUTER_ADDRESS: ROUTER,
+      ETHEREUM_RPC_URL: rpc.url,
+      RELAYER_PRIVATE_KEY: "0x" + "11".repeat(32),
+      TRANSMITTER_ADDRESS: TRANSMITTER,
+      MAX_RETRIES: "3",
+    };
+    config = loadConfig();
+    process.env = saved;
+  });
+
+  after(function () {
+    rpc.close();
+  });
+
+  beforeEach(function () {
+    settled = false;
+    revertReason = null;
+    receiptStatus = 1;
+    transmitterLogs = [];
+    receipts = new Map();
+    sent = [];
+
+    store = createStore(":memory:");
+    submitNext = createSubmitter(config, store);
+    store.createRequest(relayRequest({ status: "attested" }));
+    store.upsertJob(relayJob({ attestedMessage: burnMessage(), attestation: "0x" }));
+  });
+
+  const job = () => store.getJob(relayJob().transferId)!;
+
+  it("returns false when no job is attested", async function () {
+    store.updateJob(relayJob().transferId, { status: "failed" });
+    expect(await submitNext()).to.equal(false);
+  });
+
+  it("confirms a job the router already settled, without submitting", async function () {
+    settled = true;
+    transmitterLogs = rpcReceipt(OTHER_TX, [
+      {
+        address: TRANSMITTER,
+        topics: [MESSAGE_RECEIVED_TOPIC0, ethers.zeroPadValue(ROUTER, 32), NONCE],
+        data: "0x",
+      },
+    ]).logs;
+    receipts.set(
+      OTHER_TX,
+      rpcReceipt(
+        OTHER_TX,
+        [
+          {
+            address: ROUTER,
+            ...routerInterface.encodeEventLog("Relayed", [
+              SOURCE_DOMAIN,
+              ethers.ZeroHash,
+              NONCE,
+              9_500_000n,
+              500_000n,
+            ]),
+          },
+        ],
+        { blockNumber: 90 },
+      ),
+    );
+
+    expect(await submitNext()).to.equal(true);
+
+    expect(sent).to.deep.equal([]);
+    expect(job()).to.include({
+      status: "confirmed",
+      outcome: "forwarded",
+      settledAmount: "9500000",
+      ethTxHash: OTHER_TX,
+      ethBlockNumber: 90,
+      error: null,
+    });
+  });
+
+  it("confirms a job whose tx succeeds", async function () {
+    await submitNext();
+
+    expect(sent).to.have.length(1);
+    expect(job()).to.include({ status: "confirmed", ethTxHash: sent[0], ethTxNonce: 7 });
+  });
+
+  it("leaves a job submitted when its tx fails after the broadcast", async function () {
+    receiptStatus = 0;
+
+    await submitNext();
+
+    expect(sent).to.have.length(1);
+    expect(job()).to.include({ status: "submitted", ethTxHash: sent[0], retryCount: 0 });
+    expect(job().error).to.match(/^transaction execution reverted/);
+  });
+
+  it("fails a job on a terminal revert", async function () {
+    revertReason = "transfer settled";
+
+    await submitNext();
+
+    expect(sent).to.deep.equal([]);
+    expect(job()).to.include({ status: "failed", retryCount: 1 });
+    expect(job().error).to.match(/^Gas estimation failed: .*transfer settled/);
+  });
+
+  it("keeps a job attested after a retryable error", async function () {
+    revertReason = "transmitter paused";
+
+    await submitNext();
+
+    expect(job()).to.include({ status: "attested", retryCount: 1 });
+    expect(job().error).to.match(/^Gas estimation failed: /);
+  });
+
+  it("fails a job once it used maxRetries", async function () {
+    revertReason = "transmitter paused";
+    store.updateJob(relayJob().transferId, { retryCount: 2 });
+
+    await submitNext();
+
+    expect(job()).to.include({ status: "failed", retryCount: 3 });
+  });
+});
@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { encodeForwardParams } from "../src/hookdata.js";
+import {
+  validateAttestedMessage,
+  type AcceptedVersions,
+  type ExpectedMessage,
+} from "../src/validate.js";
+import {
+  burnMessage,
+  FORWARD_PARAMS,
+  NONCE,
+  ROUTER,
+  ROUTER_BYTES32,
+  SOURCE_DOMAIN,
+} from "./helpers/messages.js";
+
+const EXPECTED: ExpectedMessage = {
+  sourceDomain: SOURCE_DOMAIN,
+  eventNonce: NONCE,
+  relayFee: 100_000n,
+};
+
+const V1: AcceptedVersions = {
+  message: new Set([1]),
+  burnMessage: new Set([1]),
+};
+
+function validate(
+  message: string,
+  expected: Partial<ExpectedMessage> = {},
+  versions: AcceptedVersions = V1,
+) {
+  return validateAttestedMessage(
+    message,
+    { ...EXPECTED, ...expected },
+    ROUTER,
+    ROUTER_BYTES32,
+    versions,
+  );
+}
+
+describe("validateAttestedMessage", function () {
+  it("predicts a forward for a well-formed burn", function () {
+    const result = validate(burnMessage());
+    expect(result.valid).to.equal(true);
+    expect(result.predictedRoute).to.equal("forward");
+    expect(result.mintRecipient).to.equal(ethers.getAddress(ROUTER));
+    expect(result.destinationDomain).to.equal(0);
+    expect(result.amount).to.equal("10000000");
+  });
+
+  it("accepts a decimal eventNonce", function () {
+    expect(validate(burnMessage(), { eventNonce: "42" }).valid).to.equal(true);
+  });
+
+  // Router: require(message.length >= MIN_MESSAGE_LENGTH, "message too short")
+  it("rejects a message shorter than the router's minimum", function () {
+    const result = validate(ethers.dataSlice(burnMessage(), 0, 375));
+    expect(result.valid).to.equal(false);
+    expect(result.reason).to.match(/^message too short \(375 bytes/);
+  });
+
+  describe("versions", function () {
+    it("rejects a message version outside the allow-list", function () {
+      const result = validate(burnMessage({ version: 2 }));
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.equal("message version 2 not in MESSAGE_VERSIONS (1)");
+    });
+
+    it("rejects a burn message version outside the allow-list", function () {
+      const result = validate(burnMessage({ burn: { version: 2 } }));
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.equal(
+        "burn message version 2 not in BURN_MESSAGE_VERSIONS (1)",
+      );
+    });
+
+    it("accepts versions added to the allow-list", function () {
+      const result = validate(
+        burnMessage({ version: 2, burn: { version: 2 } }),
+        {},
+        { message: new Set([1, 2]), burnMessage: new Set([1, 2]) },
+      );
+      expect(result.valid).to.equal(true);
+    });
+  });
+
+  describe("consistency with the request", function () {
+    it("rejects a sourceDomain other than the request's", function () {
+      const result = validate(burnMessage({ sourceDomain: 6 }));
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/^message sourceDomain 6 != request sourceDomain 3/);
+    });
+
+    it("rejects a nonce other than the one Iris reported", function () {
+      const result = validate(burnMessage(), { eventNonce: "43" });
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/^eventNonce 43 != message nonce/);
+    });
+  });
+
+  // Router: require(destinationDomain == ETHEREUM_CCTP_DOMAIN, "invalid destinationDomain")
+  it("rejects a destination other than Ethereum", function () {
+    const result = validate(burnMessage({ destinationDomain: 6 }));
+    expect(result.valid).to.equal(false);
+    expect(result.reason).to.equal("destination domain 6 != 0 (Ethereum)");
+  });
+
+  describe("destinationCaller", function () {
+    it("accepts an open caller with a warning", function () {
+      const result = validate(burnMessage({ destinationCaller: ethers.ZeroHash }));
+      expect(result.valid).to.equal(true);
+      expect(result.warning).to.equal(
+        "destinationCaller is zero (open) — nonce front-run risk",
+      );
+    });
+
+    it("does not warn about the router as caller", function () {
+      expect(validate(burnMessage())).to.not.have.property("warning");
+    });
+
+    it("rejects another caller", function () {
+      const result = validate(
+        burnMessage({ destinationCaller: ethers.zeroPadValue("0x01", 32) }),
+      );
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/^destinationCaller .* != router or zero$/);
+    });
+  });
+
+  it("rejects a mintRecipient other than the router", function () {
+    const result = validate(
+      burnMessage({ burn: { mintRecipient: ethers.zeroPadValue("0x01", 32) } }),
+    );
+    expect(result.valid).to.equal(false);
+    expect(result.reason).to.match(/^mintRecipient .* != router/);
+  });
+
+  // Router: require(amount > feeExecuted, "invalid fee")
+  it("rejects a feeExecuted that consumes the amount", function () {
+    const result = validate(
+      burnMessage({ burn: { amount: "1000", feeExecuted: "1000" } }),
+    );
+    expect(result.valid).to.equal(false);
+    expect(result.reason).to.match(/"invalid fee"$/);
+  });
+
+  describe("hookData", function () {
+    it("routes empty hookData to the operator with reason 1", function () {
+      const result = validate(burnMessage({ burn: { hookData: "0x" } }));
+      expect(result.valid).to.equal(true);
+      expect(result.predictedRoute).to.equal("operator");
+      expect(result.operatorRouteReason).to.equal(1);
+    });
+
+    it("routes undecodable hookData to the operator with reason 2", function () {
+      const result = validate(burnMessage({ burn: { hookData: "0x1234" } }));
+      expect(result.valid).to.equal(true);
+      expect(result.predictedRoute).to.equal("operator");
+      expect(result.operatorRouteReason).to.equal(2);
+    });
+
+    // Router: require(params.fallbackRecipient != address(0), "zero fallback")
+    it("rejects a zero fallbackRecipient", function () {
+      const hookData = encodeForwardParams({
+        ...FORWARD_PARAMS,
+        fallbackRecipient: ethers.ZeroAddress,
+      });
+      const result = validate(burnMessage({ burn: { hookData } }));
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/"zero fallback"$/);
+    });
+
+    // Router: require(relayFee <= params.relayMaxFee, "relay fee exceeds max")
+    it("rejects a relay fee above relayMaxFee", function () {
+      const result = validate(burnMessage(), { relayFee: 500_001n });
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/"relay fee exceeds max"$/);
+    });
+
+    it("accepts a relay fee equal to relayMaxFee", function () {
+      expect(validate(burnMessage(), { relayFee: 500_000n }).valid).to.equal(true);
+    });
+
+    // Router: require(mintedAmount > relayFee, "relay fee too high")
+    it("rejects a relay fee that consumes the minted amount", function () {
+      const result = validate(
+        burnMessage({ burn: { amount: "600000", feeExecuted: "100000" } }),
+        { relayFee: 500_000n },
+      );
+      expect(result.valid).to.equal(false);
+      expect(result.reason).to.match(/"relay fee too high"$/);
+    });
+  });
+});
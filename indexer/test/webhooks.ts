@@ -0,0 +1,96 @@
+import { createHmac } from "node:crypto";
+import { expect } from "chai";
+import type { Config } from "../src/config.js";
+import { checkCallbackUrl, signPayload } from "../src/webhooks.js";
+
+function configWith(overrides: Partial<Config> = {}): Config {
+  return {
+    webhookSecrets: ["secret"],
+    webhookAllowHttp: false,
+    webhookAllowPrivateHosts: false,
+    ...overrides,
+  } as Config;
+}
+
+describe("webhooks", function () {
+  describe("signPayload", function () {
+    it("signs the timestamped body once per secret", function () {
+      const body = JSON.stringify({ event: "relay.confirmed" });
+      const header = signPayload(["old", "new"], body, 1700000000);
+
+      const [t, ...signatures] = header.split(",");
+      expect(t).to.equal("t=1700000000");
+      expect(signatures).to.deep.equal(
+        ["old", "new"].map(
+          (secret) =>
+            "v1=" +
+            createHmac("sha256", secret).update(`1700000000.${body}`).digest("hex"),
+        ),
+      );
+    });
+  });
+
+  describe("checkCallbackUrl", function () {
+    it("refuses callbacks when no secret is configured", async function () {
+      expect(
+        await checkCallbackUrl(configWith({ webhookSecrets: [] }), "https://1.1.1.1/hook"),
+      ).to.equal("Webhook callbacks are not enabled");
+    });
+
+    it("rejects values that are not URLs", async function () {
+      expect(await checkCallbackUrl(configWith(), 42)).to.equal("Invalid callbackUrl");
+      expect(await checkCallbackUrl(configWith(), "not a url")).to.equal(
+        "Invalid callbackUrl",
+      );
+      expect(
+        await checkCallbackUrl(configWith(), `https://1.1.1.1/${"a".repeat(2048)}`),
+      ).to.equal("Invalid callbackUrl");
+    });
+
+    it("requires https unless http is allowed", async function () {
+      expect(await checkCallbackUrl(configWith(), "http://1.1.1.1/hook")).to.equal(
+        "callbackUrl must use https",
+      );
+      expect(
+        await checkCallbackUrl(configWith({ webhookAllowHttp: true }), "http://1.1.1.1/hook"),
+      ).to.equal(null);
+    });
+
+    it("accepts public addresses", async function () {
+      expect(await checkCallbackUrl(configWith(), "https://1.1.1.1/hook")).to.equal(null);
+      expect(
+        await checkCallbackUrl(configWith(), "https://[2606:4700:4700::1111]/hook"),
+      ).to.equal(null);
+    });
+
+    for (const host of [
+      "127.0.0.1",
+      "10.0.0.1",
+      "172.16.5.4",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "[::1]",
+      "[::ffff:127.0.0.1]",
+      "[fd00::1]",
+      "[fe80::1]",
+      "localhost",
+    ]) {
+      it(`rejects ${host}`, async function () {
+        expect(await checkCallbackUrl(configWith(), `https://${host}/hook`)).to.equal(
+          "callbackUrl must resolve to a public address",
+        );
+      });
+    }
+
+    it("accepts private hosts when allowed", async function () {
+      expect(
+        await checkCallbackUrl(
+          configWith({ webhookAllowPrivateHosts: true }),
+          "https://127.0.0.1:8443/hook",
+        ),
+      ).to.equal(null);
+    });
+  });
+});